@@ -6,6 +6,8 @@ import NotFound from "@/pages/not-found";
 import Home from "@/pages/home";
 import Upload from "@/pages/upload";
 import PaperDetails from "@/pages/paper-details";
+import Researcher from "@/pages/researcher";
+import Editor from "@/pages/editor";
 import Layout from "@/components/layout/Layout";
 import { Web3Provider } from "@/context/Web3Context";
 
@@ -15,6 +17,8 @@ function Router() {
       <Route path="/" component={Home}/>
       <Route path="/upload" component={Upload}/>
       <Route path="/papers/:id" component={PaperDetails}/>
+      <Route path="/researchers/:id" component={Researcher}/>
+      <Route path="/editor" component={Editor}/>
       <Route component={NotFound} />
     </Switch>
   );
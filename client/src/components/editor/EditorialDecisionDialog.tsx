@@ -0,0 +1,182 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { Paper } from "@shared/schema";
+import { canTransition } from "@shared/lifecycle";
+import { DECISION_LABELS, DECISION_STATUSES, EDITORIAL_DECISIONS } from "@shared/editorial";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Loader2 } from "lucide-react";
+
+const decisionSchema = z.object({
+  decision: z.enum(EDITORIAL_DECISIONS, { required_error: "Choose a decision" }),
+  rationale: z.string().trim()
+    .min(20, { message: "Explain the decision in at least 20 characters" })
+    .max(5000, { message: "Rationale must be at most 5000 characters" }),
+});
+
+type DecisionFormValues = z.infer<typeof decisionSchema>;
+
+interface EditorialDecisionDialogProps {
+  paper: Paper;
+}
+
+const EditorialDecisionDialog: React.FC<EditorialDecisionDialogProps> = ({ paper }) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+
+  // Only the decisions the paper's current status allows
+  const decisions = EDITORIAL_DECISIONS.filter(decision => canTransition(paper.status, DECISION_STATUSES[decision]));
+
+  const form = useForm<DecisionFormValues>({
+    resolver: zodResolver(decisionSchema),
+    defaultValues: { rationale: "" },
+  });
+
+  const decisionMutation = useMutation({
+    mutationFn: async (data: DecisionFormValues) => {
+      const response = await apiRequest("POST", `/api/papers/${paper.id}/decisions`, data);
+      return response.json();
+    },
+    onSuccess: (_, data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/editor/queue"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/papers/${paper.id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/papers/${paper.id}/history`] });
+      toast({
+        title: "Decision recorded",
+        description: `${DECISION_LABELS[data.decision]}: the authors can see your rationale in the paper's history.`,
+      });
+      setOpen(false);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Decision failed",
+        description: error.message || "There was an error recording the decision. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        setOpen(isOpen);
+        if (isOpen) form.reset({ rationale: "" });
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button size="sm" disabled={decisions.length === 0}>
+          <span className="material-icons mr-2 text-sm">gavel</span>
+          Record Decision
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Record a Decision</DialogTitle>
+          <DialogDescription>
+            Decide on "{paper.title}". Accepting or rejecting the paper cancels any open review invitations.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit((data) => decisionMutation.mutate(data))}
+            className="space-y-4"
+          >
+            <FormField
+              control={form.control}
+              name="decision"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Decision</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Choose a decision" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {decisions.map(decision => (
+                        <SelectItem key={decision} value={decision}>
+                          {DECISION_LABELS[decision]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="rationale"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Rationale</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      className="min-h-[120px]"
+                      placeholder="Summarise the reviews and explain the decision"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormDescription>
+                    Shown to everyone in the paper's status history.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="submit" disabled={decisionMutation.isPending}>
+                {decisionMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Recording...
+                  </>
+                ) : (
+                  "Record Decision"
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EditorialDecisionDialog;
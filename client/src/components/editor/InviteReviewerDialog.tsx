@@ -0,0 +1,186 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { addDays, format } from "date-fns";
+import { Paper } from "@shared/schema";
+import { DEFAULT_REVIEW_DAYS } from "@shared/editorial";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Loader2 } from "lucide-react";
+
+const invitationSchema = z.object({
+  reviewer: z.string().trim().min(1, { message: "Enter the reviewer's username or wallet address" }),
+  dueDate: z.string().refine(val => new Date(`${val}T23:59:59`).getTime() > Date.now(), {
+    message: "The deadline must be in the future",
+  }),
+  message: z.string().max(2000, { message: "Message must be at most 2000 characters" }),
+});
+
+type InvitationFormValues = z.infer<typeof invitationSchema>;
+
+interface InviteReviewerDialogProps {
+  paper: Paper;
+}
+
+const InviteReviewerDialog: React.FC<InviteReviewerDialogProps> = ({ paper }) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+
+  const defaultValues = {
+    reviewer: "",
+    dueDate: format(addDays(new Date(), DEFAULT_REVIEW_DAYS), "yyyy-MM-dd"),
+    message: "",
+  };
+
+  const form = useForm<InvitationFormValues>({
+    resolver: zodResolver(invitationSchema),
+    defaultValues,
+  });
+
+  const inviteMutation = useMutation({
+    mutationFn: async (data: InvitationFormValues) => {
+      // Reviews are due by the end of the chosen day, in the editor's time zone
+      const response = await apiRequest("POST", `/api/papers/${paper.id}/invitations`, {
+        reviewer: data.reviewer,
+        dueAt: new Date(`${data.dueDate}T23:59:59`).toISOString(),
+        message: data.message.trim() || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/editor/queue"] });
+      toast({
+        title: "Reviewer invited",
+        description: "The reviewer can accept or decline the invitation from their profile.",
+      });
+      setOpen(false);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Invitation failed",
+        description: error.message || "There was an error inviting the reviewer. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        setOpen(isOpen);
+        if (isOpen) form.reset(defaultValues);
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <span className="material-icons mr-2 text-sm">person_add</span>
+          Invite Reviewer
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Invite a Reviewer</DialogTitle>
+          <DialogDescription>
+            Ask a researcher to review "{paper.title}" by a deadline.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit((data) => inviteMutation.mutate(data))}
+            className="space-y-4"
+          >
+            <FormField
+              control={form.control}
+              name="reviewer"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Reviewer</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Username or 0x... wallet address" {...field} />
+                  </FormControl>
+                  <FormDescription>
+                    The paper's own authors cannot be invited.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="dueDate"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Review Due</FormLabel>
+                  <FormControl>
+                    <Input type="date" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="message"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Message</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      className="min-h-[80px]"
+                      placeholder="Optional note for the reviewer"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="submit" disabled={inviteMutation.isPending}>
+                {inviteMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Inviting...
+                  </>
+                ) : (
+                  "Send Invitation"
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default InviteReviewerDialog;
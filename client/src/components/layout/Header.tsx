@@ -1,7 +1,8 @@
 import { useState } from "react";
-import { Link } from "wouter";
+import { Link, useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import { useWeb3 } from "@/context/Web3Context";
+import { getProfilePath } from "@/lib/authors";
 import { Input } from "@/components/ui/input";
 
 interface HeaderProps {
@@ -15,7 +16,8 @@ const Header: React.FC<HeaderProps> = ({
   isDarkMode, 
   onToggleDarkMode 
 }) => {
-  const { account, isConnected, disconnectWallet } = useWeb3();
+  const { account, user, isConnected, disconnectWallet } = useWeb3();
+  const [, setLocation] = useLocation();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
 
   return (
@@ -68,9 +70,17 @@ const Header: React.FC<HeaderProps> = ({
               </Button>
             ) : (
               <div className="hidden md:flex items-center space-x-2">
+                {user?.isEditor && (
+                  <Button variant="ghost" onClick={() => setLocation("/editor")}>
+                    <span className="material-icons mr-2 text-sm">assignment</span>
+                    Editor
+                  </Button>
+                )}
                 <Button
                   variant="outline"
                   className="flex items-center space-x-2"
+                  onClick={() => user && setLocation(getProfilePath(user.id))}
+                  title={user ? "View your profile" : undefined}
                 >
                   <span className="material-icons text-sm">account_balance_wallet</span>
                   <span className="truncate max-w-[100px]">
@@ -147,6 +157,11 @@ const Header: React.FC<HeaderProps> = ({
               <Link href="/upload">
                 <a className="block py-2 hover:text-primary">Upload Research</a>
               </Link>
+              {user?.isEditor && (
+                <Link href="/editor">
+                  <a className="block py-2 hover:text-primary">Editorial Queue</a>
+                </Link>
+              )}
             </div>
           </div>
         </div>
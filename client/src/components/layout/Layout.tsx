@@ -2,6 +2,7 @@ import React, { ReactNode, useState, useEffect } from "react";
 import Header from "./Header";
 import Footer from "./Footer";
 import ConnectWalletModal from "../web3/ConnectWalletModal";
+import NetworkWarning from "../web3/NetworkWarning";
 
 interface LayoutProps {
   children: ReactNode;
@@ -39,6 +40,8 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
         onToggleDarkMode={toggleDarkMode}
       />
       
+      <NetworkWarning />
+      
       <main className="flex-grow">
         {children}
       </main>
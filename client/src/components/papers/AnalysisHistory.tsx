@@ -0,0 +1,87 @@
+import React, { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import type { AiAnalysis } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+interface AnalysisHistoryProps {
+  paperId: number;
+}
+
+// Every AI analysis run of a paper, newest first. Selecting a run shows its
+// full results, so runs with different models or prompts can be compared.
+const AnalysisHistory: React.FC<AnalysisHistoryProps> = ({ paperId }) => {
+  const { data: analyses } = useQuery<AiAnalysis[]>({
+    queryKey: [`/api/papers/${paperId}/analyses`],
+  });
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  if (!analyses || analyses.length === 0) {
+    return null;
+  }
+
+  const selected = analyses.find((analysis) => analysis.id === selectedId);
+
+  return (
+    <div className="mt-8 text-left">
+      <h3 className="font-medium text-gray-900 dark:text-gray-100 mb-2">Analysis History</h3>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Run</TableHead>
+            <TableHead>Model</TableHead>
+            <TableHead>Prompt</TableHead>
+            <TableHead>Tokens</TableHead>
+            <TableHead className="text-right">Rating</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {analyses.map((analysis, index) => (
+            <TableRow
+              key={analysis.id}
+              className="cursor-pointer"
+              data-state={analysis.id === selectedId ? "selected" : undefined}
+              onClick={() => setSelectedId(analysis.id === selectedId ? null : analysis.id)}
+            >
+              <TableCell>
+                {formatDistanceToNow(new Date(analysis.createdAt), { addSuffix: true })}
+                {index === 0 && <Badge variant="outline" className="ml-2">Latest</Badge>}
+                {analysis.excerpt && <Badge variant="outline" className="ml-2">Sampled</Badge>}
+              </TableCell>
+              <TableCell>{analysis.provider} / {analysis.model}</TableCell>
+              <TableCell>v{analysis.promptVersion}</TableCell>
+              <TableCell>{analysis.totalTokens?.toLocaleString() ?? "—"}</TableCell>
+              <TableCell className="text-right font-medium">{analysis.result.qualityRating}/10</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      {selected && (
+        <dl className="mt-4 space-y-3 text-sm text-gray-700 dark:text-gray-300">
+          <div>
+            <dt className="font-medium text-gray-900 dark:text-gray-100">Plagiarism Check</dt>
+            <dd>{selected.result.plagiarismCheck}</dd>
+          </div>
+          <div>
+            <dt className="font-medium text-gray-900 dark:text-gray-100">Reference Verification</dt>
+            <dd>{selected.result.referenceVerification}</dd>
+          </div>
+          <div>
+            <dt className="font-medium text-gray-900 dark:text-gray-100">Summary</dt>
+            <dd className="whitespace-pre-line">{selected.result.contentSummary}</dd>
+          </div>
+        </dl>
+      )}
+    </div>
+  );
+};
+
+export default AnalysisHistory;
@@ -0,0 +1,86 @@
+import React, { useEffect, useRef } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import type { AnalysisJob } from "@shared/schema";
+import { ACTIVE_JOB_STATUSES, type JobStatus } from "@shared/jobs";
+import { queryClient } from "@/lib/queryClient";
+
+interface AnalysisJobStatusProps {
+  paperId: number;
+}
+
+// How often to check again while the latest job has not finished
+const ACTIVE_REFETCH_MS = 5 * 1000;
+
+const STATUS_DISPLAY: Record<JobStatus, { icon: string; title: string; iconClassName: string }> = {
+  queued: { icon: "schedule", title: "AI Analysis Queued", iconClassName: "bg-yellow-100 dark:bg-yellow-900/30 text-yellow-500" },
+  running: { icon: "pending", title: "AI Analysis In Progress", iconClassName: "bg-blue-100 dark:bg-blue-900/30 text-blue-500" },
+  succeeded: { icon: "task_alt", title: "AI Analysis Complete", iconClassName: "bg-green-100 dark:bg-green-900/30 text-green-500" },
+  failed: { icon: "error", title: "AI Analysis Failed", iconClassName: "bg-red-100 dark:bg-red-900/30 text-red-500" },
+};
+
+const describeJob = (job: AnalysisJob): string => {
+  switch (job.status) {
+    case "queued":
+      return job.attempts > 0
+        ? `Attempt ${job.attempts} of ${job.maxAttempts} failed. Retrying ${formatDistanceToNow(new Date(job.runAt), { addSuffix: true })}.`
+        : `Waiting for the analysis worker since ${formatDistanceToNow(new Date(job.createdAt), { addSuffix: true })}.`;
+    case "running":
+      return `Attempt ${job.attempts} of ${job.maxAttempts}, started ${formatDistanceToNow(new Date(job.startedAt ?? job.updatedAt), { addSuffix: true })}.`;
+    case "succeeded":
+      return `Finished ${formatDistanceToNow(new Date(job.finishedAt ?? job.updatedAt), { addSuffix: true })}. The paper did not meet the threshold for AI verification.`;
+    case "failed":
+      return `Gave up after ${job.attempts} attempts.`;
+  }
+};
+
+// Where the paper's latest AI analysis job is in the queue. When a job
+// finishes, the paper and its analysis runs are fetched again.
+const AnalysisJobStatus: React.FC<AnalysisJobStatusProps> = ({ paperId }) => {
+  const { data: jobs } = useQuery<AnalysisJob[]>({
+    queryKey: [`/api/papers/${paperId}/analysis/jobs`],
+    refetchInterval: (query) =>
+      query.state.data?.[0] && ACTIVE_JOB_STATUSES.includes(query.state.data[0].status) ? ACTIVE_REFETCH_MS : false,
+  });
+
+  const latest = jobs?.[0];
+
+  const previousStatus = useRef<JobStatus | undefined>(undefined);
+  useEffect(() => {
+    if (previousStatus.current && latest && previousStatus.current !== latest.status && !ACTIVE_JOB_STATUSES.includes(latest.status)) {
+      queryClient.invalidateQueries({ queryKey: [`/api/papers/${paperId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/papers/${paperId}/analyses`] });
+    }
+    previousStatus.current = latest?.status;
+  }, [latest?.status, paperId]);
+
+  if (!latest) {
+    return (
+      <p className="text-gray-600 dark:text-gray-400 max-w-md mx-auto mb-4">
+        This paper has not been queued for AI analysis.
+      </p>
+    );
+  }
+
+  const display = STATUS_DISPLAY[latest.status];
+
+  return (
+    <div className="mb-4">
+      <div className={`inline-flex items-center justify-center w-16 h-16 rounded-full mb-4 ${display.iconClassName}`}>
+        <span className="material-icons text-4xl">{display.icon}</span>
+      </div>
+      <h3 className="text-lg font-medium text-gray-800 dark:text-gray-200 mb-1">{display.title}</h3>
+      <p className="text-gray-600 dark:text-gray-400 max-w-md mx-auto">{describeJob(latest)}</p>
+      {latest.error && latest.status !== "succeeded" && (
+        <p className="text-sm text-red-600 dark:text-red-400 max-w-md mx-auto mt-2">{latest.error}</p>
+      )}
+      {latest.status === "running" && (
+        <div className="w-24 h-1.5 bg-gray-200 dark:bg-gray-700 rounded-full mx-auto overflow-hidden relative mt-4">
+          <div className="h-full bg-primary absolute left-0 animate-progress"></div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AnalysisJobStatus;
@@ -0,0 +1,82 @@
+import React from "react";
+import { useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import type { AnchorProof as AnchorProofData, AnchorType } from "@shared/anchoring";
+import TransactionStatusBadge from "@/components/web3/TransactionStatusBadge";
+
+interface AnchorProofProps {
+  type: AnchorType;
+  id: number;
+}
+
+// How often to check again while the registration is not mined yet
+const PENDING_REFETCH_MS = 15 * 1000;
+
+const AnchorProof: React.FC<AnchorProofProps> = ({ type, id }) => {
+  const { data: proof } = useQuery<AnchorProofData>({
+    queryKey: [`/api/anchors/${type}/${id}`],
+    refetchInterval: (query) => (query.state.data?.blockNumber ? false : PENDING_REFETCH_MS),
+  });
+
+  if (!proof) {
+    return null;
+  }
+
+  if (!proof.txHash) {
+    return (
+      <p className="text-xs text-gray-500 dark:text-gray-400 flex items-center">
+        <span className="material-icons text-xs mr-1">schedule</span>
+        Awaiting on-chain anchoring
+      </p>
+    );
+  }
+
+  const txLink = (
+    <span className="ml-1">
+      <TransactionStatusBadge txHash={proof.txHash} />
+    </span>
+  );
+
+  // Submissions are anchored in Merkle batches; the inclusion proof lets
+  // anyone check this one against the anchored root
+  const merkleProofLink = (
+    <a
+      href={`/api/proofs/${type}/${id}`}
+      target="_blank"
+      rel="noreferrer"
+      className="ml-2 text-primary hover:underline"
+    >
+      Merkle proof
+    </a>
+  );
+
+  if (proof.blockNumber === null) {
+    return (
+      <p className="text-xs text-gray-500 dark:text-gray-400 flex items-center">
+        <span className="material-icons text-xs mr-1">hourglass_top</span>
+        Anchoring transaction pending:
+        {txLink}
+        {merkleProofLink}
+      </p>
+    );
+  }
+
+  return (
+    <p className="text-xs text-gray-500 dark:text-gray-400 flex flex-wrap items-center">
+      <span className={`material-icons text-xs mr-1 ${proof.confirmed ? "text-green-600 dark:text-green-400" : ""}`}>
+        {proof.confirmed ? "verified" : "hourglass_top"}
+      </span>
+      Anchored in block {proof.blockNumber}
+      {proof.timestamp !== null && (
+        <span className="ml-1">
+          ({formatDistanceToNow(new Date(proof.timestamp * 1000), { addSuffix: true })})
+        </span>
+      )}
+      :
+      {txLink}
+      {merkleProofLink}
+    </p>
+  );
+};
+
+export default AnchorProof;
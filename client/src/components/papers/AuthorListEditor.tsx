@@ -0,0 +1,116 @@
+import React from "react";
+import { CREDIT_ROLES, CREDIT_ROLE_LABELS, CreditRole } from "@shared/credit";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+export interface AuthorEntry {
+  walletAddress: string;
+  roles: CreditRole[];
+  isCorresponding: boolean;
+}
+
+interface AuthorListEditorProps {
+  authors: AuthorEntry[];
+  onChange: (authors: AuthorEntry[]) => void;
+  submitterAddress: string;
+}
+
+/**
+ * Edit the ordered author list of a paper. The submitting wallet is always
+ * on the list; co-authors confirm their authorship later with their own wallet.
+ */
+const AuthorListEditor: React.FC<AuthorListEditorProps> = ({ authors, onChange, submitterAddress }) => {
+  const update = (index: number, changes: Partial<AuthorEntry>) => {
+    onChange(authors.map((author, i) => (i === index ? { ...author, ...changes } : author)));
+  };
+
+  const move = (index: number, offset: number) => {
+    const next = [...authors];
+    const [author] = next.splice(index, 1);
+    next.splice(index + offset, 0, author);
+    onChange(next);
+  };
+
+  const toggleRole = (index: number, role: CreditRole) => {
+    const roles = authors[index].roles;
+    update(index, { roles: roles.includes(role) ? roles.filter(r => r !== role) : [...roles, role] });
+  };
+
+  const setCorresponding = (index: number, checked: boolean) => {
+    onChange(authors.map((author, i) => ({ ...author, isCorresponding: i === index ? checked : false })));
+  };
+
+  const isSubmitter = (author: AuthorEntry) =>
+    author.walletAddress.toLowerCase() === submitterAddress.toLowerCase();
+
+  return (
+    <div className="space-y-4">
+      {authors.map((author, index) => (
+        <div key={index} className="border border-gray-200 dark:border-gray-700 rounded-lg p-4 space-y-3">
+          <div className="flex items-center gap-2">
+            <span className="text-sm font-medium text-gray-500 dark:text-gray-400 w-6">{index + 1}.</span>
+            <Input
+              placeholder="0x... co-author wallet address"
+              value={author.walletAddress}
+              disabled={isSubmitter(author)}
+              onChange={(e) => update(index, { walletAddress: e.target.value.trim() })}
+              className="font-mono text-sm"
+            />
+            <Button type="button" variant="ghost" size="sm" disabled={index === 0} onClick={() => move(index, -1)}>
+              <span className="material-icons text-sm">arrow_upward</span>
+            </Button>
+            <Button type="button" variant="ghost" size="sm" disabled={index === authors.length - 1} onClick={() => move(index, 1)}>
+              <span className="material-icons text-sm">arrow_downward</span>
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              disabled={isSubmitter(author)}
+              onClick={() => onChange(authors.filter((_, i) => i !== index))}
+            >
+              <span className="material-icons text-sm">close</span>
+            </Button>
+          </div>
+
+          <div className="flex flex-wrap gap-1">
+            {CREDIT_ROLES.map((role) => (
+              <Badge
+                key={role}
+                variant={author.roles.includes(role) ? "default" : "outline"}
+                className="cursor-pointer text-xs"
+                onClick={() => toggleRole(index, role)}
+              >
+                {CREDIT_ROLE_LABELS[role]}
+              </Badge>
+            ))}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id={`corresponding-${index}`}
+              checked={author.isCorresponding}
+              onCheckedChange={(checked) => setCorresponding(index, checked === true)}
+            />
+            <Label htmlFor={`corresponding-${index}`} className="text-sm">Corresponding author</Label>
+          </div>
+        </div>
+      ))}
+
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => onChange([...authors, { walletAddress: "", roles: [], isCorresponding: false }])}
+      >
+        <span className="material-icons text-sm mr-1">person_add</span>
+        Add Co-author
+      </Button>
+    </div>
+  );
+};
+
+export default AuthorListEditor;
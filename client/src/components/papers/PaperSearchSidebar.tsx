@@ -0,0 +1,144 @@
+import React from "react";
+import { PaperSearchFacets } from "@shared/search";
+import { PAPER_STATUS_LABELS, type PaperStatus } from "@shared/lifecycle";
+import { PaperSearchFilters, emptySearchFilters } from "@/lib/search";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+
+interface PaperSearchSidebarProps {
+  filters: PaperSearchFilters;
+  facets?: PaperSearchFacets;
+  onChange: (filters: PaperSearchFilters) => void;
+}
+
+// Facet values that are selected stay visible even when they match nothing
+const withSelected = (counts: { value: string; count: number }[] = [], selected: string[]) => [
+  ...counts,
+  ...selected.filter(value => !counts.some(count => count.value === value)).map(value => ({ value, count: 0 })),
+];
+
+const toggle = (values: string[], value: string) =>
+  values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+const PaperSearchSidebar: React.FC<PaperSearchSidebarProps> = ({ filters, facets, onChange }) => {
+  const aiVerifiedCount = (value: boolean) =>
+    facets?.aiVerified.find(count => count.value === String(value))?.count ?? 0;
+
+  return (
+    <aside className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-gray-900 dark:text-white">Filters</h3>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onChange({ ...emptySearchFilters, q: filters.q, sort: filters.sort })}
+        >
+          Clear
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300">Status</h4>
+        {withSelected(facets?.status, filters.status).map(({ value, count }) => (
+          <div key={value} className="flex items-center gap-2">
+            <Checkbox
+              id={`status-${value}`}
+              checked={filters.status.includes(value)}
+              onCheckedChange={() => onChange({ ...filters, status: toggle(filters.status, value) })}
+            />
+            <Label htmlFor={`status-${value}`} className="text-sm flex-1">
+              {PAPER_STATUS_LABELS[value as PaperStatus] || value}
+            </Label>
+            <span className="text-xs text-gray-500 dark:text-gray-400">{count}</span>
+          </div>
+        ))}
+      </div>
+
+      <Separator />
+
+      <div className="space-y-2">
+        <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300">AI Verification</h4>
+        {[true, false].map((value) => (
+          <div key={String(value)} className="flex items-center gap-2">
+            <Checkbox
+              id={`ai-verified-${value}`}
+              checked={filters.aiVerified === value}
+              onCheckedChange={(checked) => onChange({ ...filters, aiVerified: checked === true ? value : undefined })}
+            />
+            <Label htmlFor={`ai-verified-${value}`} className="text-sm flex-1">
+              {value ? "Verified by AI" : "Not yet verified"}
+            </Label>
+            <span className="text-xs text-gray-500 dark:text-gray-400">{aiVerifiedCount(value)}</span>
+          </div>
+        ))}
+      </div>
+
+      <Separator />
+
+      <div className="space-y-2">
+        <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300">Tags</h4>
+        <div className="flex flex-wrap gap-1">
+          {withSelected(facets?.tags, filters.tag).map(({ value, count }) => (
+            <Badge
+              key={value}
+              variant={filters.tag.includes(value) ? "default" : "outline"}
+              className="cursor-pointer text-xs"
+              onClick={() => onChange({ ...filters, tag: toggle(filters.tag, value) })}
+            >
+              {value} ({count})
+            </Badge>
+          ))}
+        </div>
+      </div>
+
+      <Separator />
+
+      <div className="space-y-2">
+        <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300">Institution</h4>
+        {withSelected(facets?.institutions, filters.institution ? [filters.institution] : []).map(({ value, count }) => (
+          <div key={value} className="flex items-center gap-2">
+            <Checkbox
+              id={`institution-${value}`}
+              checked={filters.institution === value}
+              onCheckedChange={(checked) => onChange({ ...filters, institution: checked === true ? value : undefined })}
+            />
+            <Label htmlFor={`institution-${value}`} className="text-sm flex-1">{value}</Label>
+            <span className="text-xs text-gray-500 dark:text-gray-400">{count}</span>
+          </div>
+        ))}
+      </div>
+
+      <Separator />
+
+      <div className="space-y-2">
+        <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300">Published</h4>
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <Label htmlFor="published-from" className="text-xs">From</Label>
+            <Input
+              id="published-from"
+              type="date"
+              value={filters.from || ""}
+              onChange={(e) => onChange({ ...filters, from: e.target.value || undefined })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="published-to" className="text-xs">To</Label>
+            <Input
+              id="published-to"
+              type="date"
+              value={filters.to || ""}
+              onChange={(e) => onChange({ ...filters, to: e.target.value || undefined })}
+            />
+          </div>
+        </div>
+      </div>
+    </aside>
+  );
+};
+
+export default PaperSearchSidebar;
@@ -1,9 +1,11 @@
 import React from 'react';
-import { useLocation } from 'wouter';
+import { Link, useLocation } from 'wouter';
 import { Table, TableBody, TableCaption, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { getIPFSUrl } from '@/lib/ipfs';
+import { getPaperAuthors, getProfilePath } from '@/lib/authors';
+import { getStatusBadge } from '@/lib/status';
 import { PaperWithAuthor } from '@shared/schema';
 
 interface PapersTableProps {
@@ -31,7 +33,7 @@ const PapersTable = ({ papers, isLoading = false }: PapersTableProps) => {
         <TableHeader>
           <TableRow>
             <TableHead className="w-[40%]">Title</TableHead>
-            <TableHead>Author</TableHead>
+            <TableHead>Authors</TableHead>
             <TableHead className="text-center">Status</TableHead>
             <TableHead className="text-center">Views</TableHead>
             <TableHead className="text-center">Reviews</TableHead>
@@ -46,18 +48,25 @@ const PapersTable = ({ papers, isLoading = false }: PapersTableProps) => {
                 {paper.title}
               </TableCell>
               <TableCell onClick={() => setLocation(`/papers/${paper.id}`)}>
-                {paper.author.username}
-                <div className="text-xs text-gray-500 dark:text-gray-400">
-                  {paper.author.institution}
-                </div>
+                {getPaperAuthors(paper).map((author, index) => (
+                  <div key={index} className={author.confirmed ? '' : 'text-gray-400 dark:text-gray-500'}>
+                    <Link href={getProfilePath(author.user.id)}>
+                      <a className="hover:text-primary hover:underline" onClick={(e) => e.stopPropagation()}>
+                        {author.user.username}
+                      </a>
+                    </Link>
+                    {author.isCorresponding && <span className="material-icons text-xs ml-1 align-middle">mail</span>}
+                    {author.user.institution && (
+                      <span className="text-xs text-gray-500 dark:text-gray-400 ml-1">
+                        ({author.user.institution})
+                      </span>
+                    )}
+                  </div>
+                ))}
               </TableCell>
               <TableCell className="text-center" onClick={() => setLocation(`/papers/${paper.id}`)}>
-                <Badge 
-                  variant={paper.status === 'verified' ? 'default' : 
-                    paper.status === 'reviewed' ? 'outline' : 'secondary'}
-                  className={`capitalize ${paper.status === 'verified' ? 'bg-green-100 text-green-800 hover:bg-green-200 dark:bg-green-900 dark:text-green-300' : ''}`}
-                >
-                  {paper.status}
+                <Badge variant="outline" className={`border-0 ${getStatusBadge(paper.status).className}`}>
+                  {getStatusBadge(paper.status).label}
                 </Badge>
               </TableCell>
               <TableCell className="text-center" onClick={() => setLocation(`/papers/${paper.id}`)}>
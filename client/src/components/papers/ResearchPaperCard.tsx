@@ -2,6 +2,8 @@ import React from "react";
 import { Link } from "wouter";
 import { formatDistanceToNow } from "date-fns";
 import { PaperWithAuthor } from "@shared/schema";
+import { getBylineAuthors, getBylineSeparator, getPaperAuthors, getProfilePath } from "@/lib/authors";
+import { getStatusBadge } from "@/lib/status";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent } from "@/components/ui/card";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
@@ -10,22 +12,13 @@ interface ResearchPaperCardProps {
   paper: PaperWithAuthor;
 }
 
-const getStatusBadge = (status: string) => {
-  switch (status) {
-    case "verified":
-      return { label: "Verified by AI", className: "bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200" };
-    case "reviewed":
-      return { label: "Peer Reviewed", className: "bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200" };
-    case "submitted":
-    default:
-      return { label: "Under Review", className: "bg-yellow-100 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200" };
-  }
-};
-
 const ResearchPaperCard: React.FC<ResearchPaperCardProps> = ({ paper }) => {
   const statusBadge = getStatusBadge(paper.status);
   const createdAtDate = new Date(paper.createdAt);
   const formattedDate = formatDistanceToNow(createdAtDate, { addSuffix: true });
+  const authors = getPaperAuthors(paper);
+  const firstAuthor = authors[0].user;
+  const byline = getBylineAuthors(authors);
   
   // Get author initials for avatar fallback
   const getInitials = (name: string) => {
@@ -60,23 +53,32 @@ const ResearchPaperCard: React.FC<ResearchPaperCardProps> = ({ paper }) => {
         
         <div className="flex items-center mb-4">
           <Avatar className="w-8 h-8 mr-2">
-            {paper.author.profileImage ? (
+            {firstAuthor.profileImage ? (
               <img 
-                src={paper.author.profileImage} 
-                alt={`${paper.author.username} avatar`} 
+                src={firstAuthor.profileImage} 
+                alt={`${firstAuthor.username} avatar`} 
               />
             ) : (
               <AvatarFallback>
-                {getInitials(paper.author.username)}
+                {getInitials(firstAuthor.username)}
               </AvatarFallback>
             )}
           </Avatar>
           <div>
             <p className="text-sm font-medium text-gray-900 dark:text-white">
-              {paper.author.username}
+              {byline.shown.map((author, index) => (
+                <React.Fragment key={index}>
+                  <Link href={getProfilePath(author.user.id)}>
+                    <a className="hover:text-primary dark:hover:text-primary-light transition-colors">
+                      {author.user.username}
+                    </a>
+                  </Link>
+                  {getBylineSeparator(index, byline.shown.length, byline.etAl)}
+                </React.Fragment>
+              ))}
             </p>
             <p className="text-xs text-gray-500 dark:text-gray-400">
-              {paper.author.institution || "Independent Researcher"}
+              {firstAuthor.institution || "Independent Researcher"}
             </p>
           </div>
         </div>
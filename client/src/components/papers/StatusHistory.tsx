@@ -0,0 +1,61 @@
+import React from "react";
+import { useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import type { PaperStatusHistoryEntryWithUser } from "@shared/schema";
+import { getStatusBadge } from "@/lib/status";
+import { Badge } from "@/components/ui/badge";
+
+interface StatusHistoryProps {
+  paperId: number;
+}
+
+const SOURCE_LABELS: Record<PaperStatusHistoryEntryWithUser["source"], string> = {
+  author: "Author",
+  reviewer: "Reviewer",
+  editor: "Editor",
+  ai: "AI verification",
+  system: "System",
+};
+
+// Every status the paper has moved through, newest first, with who moved it
+const StatusHistory: React.FC<StatusHistoryProps> = ({ paperId }) => {
+  const { data: history, isLoading } = useQuery<PaperStatusHistoryEntryWithUser[]>({
+    queryKey: [`/api/papers/${paperId}/history`],
+  });
+
+  if (isLoading) {
+    return <p className="text-gray-500 dark:text-gray-400">Loading history...</p>;
+  }
+
+  if (!history || history.length === 0) {
+    return <p className="text-gray-500 dark:text-gray-400">No status changes have been recorded for this paper.</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-gray-200 dark:border-gray-700 ml-2">
+      {[...history].reverse().map((entry) => {
+        const badge = getStatusBadge(entry.toStatus);
+        return (
+          <li key={entry.id} className="mb-6 ml-4">
+            <div className="absolute w-3 h-3 bg-gray-200 dark:bg-gray-700 rounded-full -left-1.5 mt-1.5 border border-white dark:border-gray-900"></div>
+            <div className="flex flex-wrap items-center gap-2 mb-1">
+              <Badge className={badge.className}>{badge.label}</Badge>
+              <span className="text-sm text-gray-500 dark:text-gray-400">
+                {formatDistanceToNow(new Date(entry.createdAt), { addSuffix: true })}
+              </span>
+            </div>
+            <p className="text-sm text-gray-700 dark:text-gray-300">
+              {SOURCE_LABELS[entry.source]}
+              {entry.user && ` · ${entry.user.username}`}
+            </p>
+            {entry.note && (
+              <p className="text-sm text-gray-600 dark:text-gray-400 mt-1 whitespace-pre-line">{entry.note}</p>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default StatusHistory;
@@ -0,0 +1,256 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { Paper } from "@shared/schema";
+import { buildPaperRevisionPayload } from "@shared/eip712";
+import { useWeb3 } from "@/context/Web3Context";
+import { uploadFileToIPFS, uploadMetadataToIPFS } from "@/lib/ipfs";
+import { prepareTypedSubmission, signTypedData } from "@/lib/web3";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Loader2 } from "lucide-react";
+
+const revisionSchema = z.object({
+  title: z.string().min(5, { message: "Title must be at least 5 characters" }),
+  abstract: z.string().min(50, { message: "Abstract must be at least 50 characters" }),
+  tags: z.string().optional().transform(val =>
+    val ? val.split(',').map(tag => tag.trim()).filter(tag => tag.length > 0) : []
+  ),
+  changeLog: z.string().min(10, { message: "Describe what changed in at least 10 characters" }),
+  pdfFile: z.instanceof(FileList).refine(files => files.length === 1, {
+    message: "Please select a PDF file",
+  }),
+});
+
+type RevisionFormInput = z.input<typeof revisionSchema>;
+type RevisionFormValues = z.output<typeof revisionSchema>;
+
+interface SubmitRevisionDialogProps {
+  paper: Paper;
+}
+
+const SubmitRevisionDialog: React.FC<SubmitRevisionDialogProps> = ({ paper }) => {
+  const { account, signer, chainId } = useWeb3();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+
+  const form = useForm<RevisionFormInput, unknown, RevisionFormValues>({
+    resolver: zodResolver(revisionSchema),
+    defaultValues: {
+      title: paper.title,
+      abstract: paper.abstract,
+      tags: (paper.tags || []).join(", "),
+      changeLog: "",
+    },
+  });
+
+  const submitRevisionMutation = useMutation({
+    mutationFn: async (data: RevisionFormValues) => {
+      if (!signer || !account || !chainId) {
+        throw new Error("Wallet not connected");
+      }
+
+      const ipfsCid = await uploadFileToIPFS(data.pdfFile[0]);
+      const metadataHash = await uploadMetadataToIPFS({
+        title: data.title,
+        abstract: data.abstract,
+        tags: data.tags,
+        author: account,
+        timestamp: new Date().toISOString(),
+      });
+
+      // The signature names the version being created, so it can't be
+      // replayed as a later revision
+      const { nonce, deadline } = await prepareTypedSubmission();
+      const payload = buildPaperRevisionPayload(chainId, {
+        author: account,
+        paperId: paper.id,
+        version: paper.currentVersion + 1,
+        title: data.title,
+        ipfsCid,
+        metadataHash,
+        changeLog: data.changeLog,
+        nonce,
+        deadline,
+      });
+      const signature = await signTypedData(signer, payload);
+
+      return await apiRequest("POST", `/api/papers/${paper.id}/versions`, {
+        title: data.title,
+        abstract: data.abstract,
+        tags: data.tags,
+        ipfsCid,
+        metadataHash,
+        changeLog: data.changeLog,
+        signature,
+        nonce,
+        deadline,
+        chainId,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/papers/${paper.id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/papers/${paper.id}/versions`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/papers/${paper.id}/history`] });
+      toast({
+        title: "Revision submitted!",
+        description: `Version ${paper.currentVersion + 1} of your paper is now the current version.`,
+      });
+      setOpen(false);
+      form.reset();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Revision failed",
+        description: error.message || "There was an error submitting your revision. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <span className="material-icons mr-2 text-sm">history_edu</span>
+          Submit Revision
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Submit Revision</DialogTitle>
+          <DialogDescription>
+            Upload a revised manuscript as version {paper.currentVersion + 1}. Earlier versions stay available.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit((data) => submitRevisionMutation.mutate(data))}
+            className="space-y-4"
+          >
+            <FormField
+              control={form.control}
+              name="title"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Paper Title</FormLabel>
+                  <FormControl>
+                    <Input {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="abstract"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Abstract</FormLabel>
+                  <FormControl>
+                    <Textarea className="min-h-[120px]" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="tags"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Tags</FormLabel>
+                  <FormControl>
+                    <Input placeholder="quantum-computing, blockchain, ai" {...field} />
+                  </FormControl>
+                  <FormDescription>
+                    Comma-separated keywords related to your research.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="changeLog"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Change Log</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      placeholder="Summarize what changed, e.g. in response to reviewer feedback"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="pdfFile"
+              render={({ field: { onChange, value, ...fieldProps } }) => (
+                <FormItem>
+                  <FormLabel>Revised PDF</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="file"
+                      accept=".pdf"
+                      onChange={(e) => onChange(e.target.files)}
+                      {...fieldProps}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="submit" disabled={submitRevisionMutation.isPending}>
+                {submitRevisionMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Submitting...
+                  </>
+                ) : (
+                  "Sign & Submit Revision"
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SubmitRevisionDialog;
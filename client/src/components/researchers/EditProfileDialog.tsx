@@ -0,0 +1,205 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { PublicUser } from "@shared/schema";
+import { useWeb3 } from "@/context/Web3Context";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Loader2 } from "lucide-react";
+
+// Blank optional fields clear the stored value
+const optionalText = (schema: z.ZodString) =>
+  z.union([z.literal(""), schema]).transform(val => (val.trim() ? val.trim() : null));
+
+const profileSchema = z.object({
+  username: z.string().regex(/^[a-zA-Z0-9_.-]{3,32}$/, {
+    message: "Usernames are 3-32 letters, digits, dots, dashes or underscores",
+  }),
+  institution: optionalText(z.string().max(200, { message: "Institution must be at most 200 characters" })),
+  bio: optionalText(z.string().max(2000, { message: "Bio must be at most 2000 characters" })),
+  profileImage: optionalText(z.string().url({ message: "Please enter a valid image URL" })),
+});
+
+type ProfileFormInput = z.input<typeof profileSchema>;
+type ProfileFormValues = z.output<typeof profileSchema>;
+
+interface EditProfileDialogProps {
+  user: PublicUser;
+}
+
+const EditProfileDialog: React.FC<EditProfileDialogProps> = ({ user }) => {
+  const { setUser } = useWeb3();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+
+  const defaultValues = {
+    username: user.username,
+    institution: user.institution || "",
+    bio: user.bio || "",
+    profileImage: user.profileImage || "",
+  };
+
+  const form = useForm<ProfileFormInput, unknown, ProfileFormValues>({
+    resolver: zodResolver(profileSchema),
+    defaultValues,
+  });
+
+  const updateProfileMutation = useMutation({
+    mutationFn: async (data: ProfileFormValues) => {
+      const response = await apiRequest("PATCH", "/api/users/me", data);
+      return (await response.json()) as PublicUser;
+    },
+    onSuccess: (updated) => {
+      setUser(updated);
+      queryClient.invalidateQueries({ queryKey: [`/api/users/${user.id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/users/${user.walletAddress}`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/papers'] });
+      toast({
+        title: "Profile updated",
+        description: "Your researcher profile has been saved.",
+      });
+      setOpen(false);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Update failed",
+        description: error.message || "There was an error updating your profile. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        setOpen(isOpen);
+        if (isOpen) form.reset(defaultValues);
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <span className="material-icons mr-2 text-sm">edit</span>
+          Edit Profile
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Edit Profile</DialogTitle>
+          <DialogDescription>
+            Your profile is public and shown next to your papers and reviews.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit((data) => updateProfileMutation.mutate(data))}
+            className="space-y-4"
+          >
+            <FormField
+              control={form.control}
+              name="username"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Username</FormLabel>
+                  <FormControl>
+                    <Input {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="institution"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Institution</FormLabel>
+                  <FormControl>
+                    <Input placeholder="University or research organization" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="bio"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Bio</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      className="min-h-[100px]"
+                      placeholder="Your research interests and background"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="profileImage"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Profile Image URL</FormLabel>
+                  <FormControl>
+                    <Input placeholder="https://..." {...field} />
+                  </FormControl>
+                  <FormDescription>
+                    Leave blank to show your initials instead.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="submit" disabled={updateProfileMutation.isPending}>
+                {updateProfileMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  "Save Profile"
+                )}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EditProfileDialog;
@@ -0,0 +1,101 @@
+import React from "react";
+import { Link } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ReviewInvitationWithPaper } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { getInvitationBadge } from "@/lib/status";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+
+// The signed-in researcher's invitations to review, newest first. Pending
+// invitations can be accepted or declined; an accepted one is completed by
+// submitting a review on the paper's page.
+const ReviewInvitations: React.FC = () => {
+  const { toast } = useToast();
+
+  const { data: invitations } = useQuery<ReviewInvitationWithPaper[]>({
+    queryKey: ["/api/invitations"],
+  });
+
+  const respondMutation = useMutation({
+    mutationFn: async ({ id, accept }: { id: number; accept: boolean }) => {
+      const response = await apiRequest("POST", `/api/invitations/${id}/respond`, { accept });
+      return response.json();
+    },
+    onSuccess: (_, { accept }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/invitations"] });
+      toast({
+        title: accept ? "Invitation accepted" : "Invitation declined",
+        description: accept ? "Submit your review on the paper's page before the deadline." : undefined,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Response failed",
+        description: error.message || "There was an error responding to the invitation. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!invitations || invitations.length === 0) {
+    return <p className="text-center text-gray-500 dark:text-gray-400 py-12">No review invitations yet.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {invitations.map(invitation => {
+        const badge = getInvitationBadge(invitation);
+        return (
+          <Card key={invitation.id}>
+            <CardHeader className="pb-2">
+              <div className="flex items-center justify-between gap-2">
+                <CardTitle className="text-base">
+                  <Link href={`/papers/${invitation.paper.id}`}>
+                    <a className="hover:text-primary dark:hover:text-primary-light transition-colors">
+                      {invitation.paper.title}
+                    </a>
+                  </Link>
+                </CardTitle>
+                <Badge className={badge.className}>{badge.label}</Badge>
+              </div>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Review due {format(new Date(invitation.dueAt), "PP")}
+              </p>
+            </CardHeader>
+            <CardContent>
+              {invitation.message && (
+                <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-line mb-3">{invitation.message}</p>
+              )}
+              {invitation.status === "pending" && (
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    disabled={respondMutation.isPending}
+                    onClick={() => respondMutation.mutate({ id: invitation.id, accept: true })}
+                  >
+                    Accept
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={respondMutation.isPending}
+                    onClick={() => respondMutation.mutate({ id: invitation.id, accept: false })}
+                  >
+                    Decline
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ReviewInvitations;
@@ -1,5 +1,6 @@
 import React from "react";
 import { useWeb3 } from "@/context/Web3Context";
+import type { WalletType } from "@/lib/connectors";
 import {
   Dialog,
   DialogContent,
@@ -17,7 +18,7 @@ interface ConnectWalletModalProps {
 const ConnectWalletModal: React.FC<ConnectWalletModalProps> = ({ isOpen, onClose }) => {
   const { connectWallet } = useWeb3();
 
-  const handleConnectWallet = async (walletType: 'metamask' | 'walletconnect' | 'coinbase') => {
+  const handleConnectWallet = async (walletType: WalletType) => {
     await connectWallet(walletType);
     onClose();
   };
@@ -36,7 +37,7 @@ const ConnectWalletModal: React.FC<ConnectWalletModalProps> = ({ isOpen, onClose
           <Button
             variant="outline"
             className="w-full flex items-center justify-between p-4"
-            onClick={() => handleConnectWallet('metamask')}
+            onClick={() => handleConnectWallet('injected')}
           >
             <div className="flex items-center">
               <div className="w-10 h-10 mr-4 flex-shrink-0">
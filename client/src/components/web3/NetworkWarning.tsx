@@ -0,0 +1,61 @@
+import React, { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { getNetworkByChainId } from "@shared/networks";
+import { Button } from "@/components/ui/button";
+import { useWeb3 } from "@/context/Web3Context";
+import { useToast } from "@/hooks/use-toast";
+
+// Banner shown while the connected wallet is on a chain the platform does not
+// run on, since signatures and transactions there would be rejected
+const NetworkWarning: React.FC = () => {
+  const { chainId, network, isSupportedChain, switchNetwork } = useWeb3();
+  const { toast } = useToast();
+  const [isSwitching, setIsSwitching] = useState(false);
+
+  if (!network || isSupportedChain) {
+    return null;
+  }
+
+  const currentNetwork = chainId ? getNetworkByChainId(chainId)?.name ?? `chain ${chainId}` : "an unknown network";
+
+  const handleSwitch = async () => {
+    setIsSwitching(true);
+    try {
+      const success = await switchNetwork();
+      if (!success) {
+        toast({
+          title: "Network Switch Failed",
+          description: `Failed to switch to ${network.name}`,
+          variant: "destructive",
+        });
+      }
+    } finally {
+      setIsSwitching(false);
+    }
+  };
+
+  return (
+    <div className="bg-yellow-50 dark:bg-yellow-900/30 border-b border-yellow-200 dark:border-yellow-800">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-2 flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center space-x-2">
+          <span className="material-icons text-yellow-500">warning</span>
+          <span className="text-sm text-yellow-800 dark:text-yellow-200">
+            Your wallet is on {currentNetwork}. This platform runs on {network.name}.
+          </span>
+        </div>
+        <Button variant="outline" size="sm" onClick={handleSwitch} disabled={isSwitching}>
+          {isSwitching ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Switching...
+            </>
+          ) : (
+            `Switch to ${network.name}`
+          )}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default NetworkWarning;
@@ -0,0 +1,71 @@
+import React from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { Transaction } from "@shared/schema";
+import { getExplorerTxUrl } from "@shared/networks";
+import { ACTIVE_TRANSACTION_STATUSES, type TransactionStatus } from "@shared/transactions";
+import { Badge } from "@/components/ui/badge";
+import { useWeb3 } from "@/context/Web3Context";
+
+interface TransactionStatusBadgeProps {
+  txHash: string;
+}
+
+// How often to check again while the transaction is not final
+const ACTIVE_REFETCH_MS = 15 * 1000;
+
+const getStatusBadge = (transaction: Transaction): { label: string; className: string } => {
+  const labels: Record<TransactionStatus, { label: string; className: string }> = {
+    pending: { label: "Pending", className: "bg-yellow-100 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200" },
+    confirmed: {
+      label: `Confirmed (${transaction.confirmations})`,
+      className: "bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200",
+    },
+    finalized: { label: "Finalized", className: "bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200" },
+    failed: { label: "Failed", className: "bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200" },
+    replaced: { label: "Replaced", className: "bg-gray-100 dark:bg-gray-800 text-gray-800 dark:text-gray-200" },
+  };
+  return labels[transaction.status];
+};
+
+// Shows where a transaction sent by the server is in its lifecycle, with a
+// link to it on the network's block explorer, if it has one. If the transaction was replaced with a
+// higher gas price, the replacement is shown instead.
+const TransactionStatusBadge: React.FC<TransactionStatusBadgeProps> = ({ txHash }) => {
+  const { network } = useWeb3();
+  const { data: transaction } = useQuery<Transaction>({
+    queryKey: [`/api/transactions/${txHash}`],
+    refetchInterval: (query) =>
+      query.state.data && ACTIVE_TRANSACTION_STATUSES.includes(query.state.data.status) ? ACTIVE_REFETCH_MS : false,
+  });
+
+  const currentTxHash = transaction?.txHash ?? txHash;
+  const statusBadge = transaction ? getStatusBadge(transaction) : null;
+  const explorerUrl = network ? getExplorerTxUrl(network, currentTxHash) : null;
+  const shortHash = `${currentTxHash.slice(0, 6)}...${currentTxHash.slice(-4)}`;
+
+  return (
+    <span className="inline-flex items-center gap-1">
+      {statusBadge && (
+        <Badge variant="outline" className={`text-xs ${statusBadge.className}`} title={transaction?.error ?? undefined}>
+          {statusBadge.label}
+        </Badge>
+      )}
+      {explorerUrl ? (
+        <a
+          href={explorerUrl}
+          target="_blank"
+          rel="noreferrer"
+          className="text-xs text-primary hover:underline font-mono"
+        >
+          {shortHash}
+        </a>
+      ) : (
+        <span className="text-xs font-mono" title={currentTxHash}>
+          {shortHash}
+        </span>
+      )}
+    </span>
+  );
+};
+
+export default TransactionStatusBadge;
@@ -2,7 +2,7 @@ import React, { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { useWeb3 } from '@/context/Web3Context';
 import { useToast } from '@/hooks/use-toast';
-import { switchToPolygonMumbai } from '@/lib/web3';
+import { getNetworkByChainId } from '@shared/networks';
 import { 
   Card, 
   CardContent, 
@@ -28,7 +28,7 @@ const WalletConnect: React.FC<WalletConnectProps> = ({
   showNetworkInfo = false,
   className = '',
 }) => {
-  const { isConnected, account, chainId, connectWallet, disconnectWallet } = useWeb3();
+  const { isConnected, account, chainId, network, isSupportedChain, connectWallet, disconnectWallet, switchNetwork } = useWeb3();
   const { toast } = useToast();
   const [isConnecting, setIsConnecting] = useState(false);
   const [isNetworkSwitching, setIsNetworkSwitching] = useState(false);
@@ -36,7 +36,7 @@ const WalletConnect: React.FC<WalletConnectProps> = ({
   const handleConnect = async () => {
     setIsConnecting(true);
     try {
-      await connectWallet('metamask');
+      await connectWallet('injected');
       if (onConnect) {
         onConnect();
       }
@@ -56,18 +56,19 @@ const WalletConnect: React.FC<WalletConnectProps> = ({
   };
 
   const handleSwitchNetwork = async () => {
+    if (!network) return;
     setIsNetworkSwitching(true);
     try {
-      const success = await switchToPolygonMumbai();
+      const success = await switchNetwork();
       if (success) {
         toast({
           title: 'Network Switched',
-          description: 'Successfully switched to Polygon Mumbai Testnet',
+          description: `Successfully switched to ${network.name}`,
         });
       } else {
         toast({
           title: 'Network Switch Failed',
-          description: 'Failed to switch to Polygon Mumbai Testnet',
+          description: `Failed to switch to ${network.name}`,
           variant: 'destructive',
         });
       }
@@ -82,9 +83,6 @@ const WalletConnect: React.FC<WalletConnectProps> = ({
     }
   };
 
-  // Check if connected to Polygon Mumbai (chainId 80001)
-  const isOnPolygonMumbai = chainId === 80001;
-
   if (!isConnected) {
     return (
       <Button
@@ -108,20 +106,20 @@ const WalletConnect: React.FC<WalletConnectProps> = ({
     );
   }
 
-  if (showNetworkInfo && !isOnPolygonMumbai) {
+  if (showNetworkInfo && network && !isSupportedChain) {
     return (
       <Card className={className}>
         <CardHeader className="py-4">
           <CardTitle className="text-md">Wrong Network</CardTitle>
           <CardDescription>
-            Please switch to Polygon Mumbai Testnet
+            Please switch to {network.name}
           </CardDescription>
         </CardHeader>
         <CardContent className="py-2">
           <div className="flex items-center space-x-2">
             <span className="material-icons text-yellow-500">warning</span>
             <span className="text-sm text-yellow-600 dark:text-yellow-400">
-              Current network: {chainId ? `Chain ID ${chainId}` : 'Unknown'}
+              Current network: {chainId ? getNetworkByChainId(chainId)?.name ?? `Chain ID ${chainId}` : 'Unknown'}
             </span>
           </div>
         </CardContent>
@@ -138,7 +136,7 @@ const WalletConnect: React.FC<WalletConnectProps> = ({
                 Switching...
               </>
             ) : (
-              'Switch to Polygon Mumbai'
+              `Switch to ${network.name}`
             )}
           </Button>
         </CardFooter>
@@ -1,15 +1,30 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
 import { ethers } from 'ethers';
+import { useQuery } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
+import {
+  WALLET_CONNECTORS, getLastConnector, setLastConnector,
+  type WalletProvider, type WalletType
+} from "@/lib/connectors";
+import { fetchSessionUser, signInWithEthereum, signOut, switchToNetwork } from "@/lib/web3";
+import { getNetworkByChainId, type NetworkConfig } from "@shared/networks";
+import type { PublicUser } from "@shared/schema";
 
 interface Web3ContextType {
   provider: ethers.BrowserProvider | null;
   signer: ethers.Signer | null;
   account: string | null;
   chainId: number | null;
+  network: NetworkConfig | null; // The network the platform runs on
+  isSupportedChain: boolean; // False while the wallet is connected to another chain
+  walletType: WalletType | null; // The connector the wallet is connected with
   isConnected: boolean;
-  connectWallet: (walletType: 'metamask' | 'walletconnect' | 'coinbase') => Promise<void>;
+  user: PublicUser | null;
+  isAuthenticated: boolean;
+  connectWallet: (walletType: WalletType) => Promise<void>;
   disconnectWallet: () => void;
+  switchNetwork: () => Promise<boolean>; // Ask the wallet to switch to the platform's network
+  setUser: (user: PublicUser) => void; // Replace the signed-in user after a profile update
 }
 
 const Web3Context = createContext<Web3ContextType>({
@@ -17,9 +32,16 @@ const Web3Context = createContext<Web3ContextType>({
   signer: null,
   account: null,
   chainId: null,
+  network: null,
+  isSupportedChain: true,
+  walletType: null,
   isConnected: false,
+  user: null,
+  isAuthenticated: false,
   connectWallet: async () => {},
   disconnectWallet: () => {},
+  switchNetwork: async () => false,
+  setUser: () => {},
 });
 
 export const useWeb3 = () => useContext(Web3Context);
@@ -29,107 +51,156 @@ interface Web3ProviderProps {
 }
 
 export const Web3Provider: React.FC<Web3ProviderProps> = ({ children }) => {
+  const [walletProvider, setWalletProvider] = useState<WalletProvider | null>(null);
+  const [walletType, setWalletType] = useState<WalletType | null>(null);
   const [provider, setProvider] = useState<ethers.BrowserProvider | null>(null);
   const [signer, setSigner] = useState<ethers.Signer | null>(null);
   const [account, setAccount] = useState<string | null>(null);
   const [chainId, setChainId] = useState<number | null>(null);
   const [isConnected, setIsConnected] = useState<boolean>(false);
+  const [user, setUser] = useState<PublicUser | null>(null);
   const { toast } = useToast();
 
-  // Check if previously connected
+  const { data: network = null } = useQuery<NetworkConfig>({
+    queryKey: ["/api/network"],
+  });
+
+  // Reconnect with the wallet used last once the network is known. Only
+  // accounts the wallet has already approved are used, so this never prompts.
+  const hasReconnected = useRef(false);
   useEffect(() => {
-    const checkConnection = async () => {
-      if (window.ethereum && localStorage.getItem('isWalletConnected') === 'true') {
-        try {
-          await connectWallet('metamask');
-        } catch (error) {
-          console.error("Failed to reconnect wallet:", error);
-          localStorage.removeItem('isWalletConnected');
-        }
-      }
-    };
-    
-    checkConnection();
-  }, []);
+    if (!network || hasReconnected.current) return;
+    hasReconnected.current = true;
+
+    const lastConnector = getLastConnector();
+    if (lastConnector) {
+      connect(lastConnector, false);
+    }
+  }, [network]);
 
-  // Subscribe to account changes
+  // Subscribe to account, chain and session changes of the connected wallet
   useEffect(() => {
-    if (window.ethereum) {
-      const handleAccountsChanged = (accounts: string[]) => {
-        if (accounts.length === 0) {
-          disconnectWallet();
-        } else if (accounts[0] !== account) {
-          setAccount(accounts[0]);
-          toast({
-            title: "Account Changed",
-            description: `Connected to ${accounts[0].slice(0, 6)}...${accounts[0].slice(-4)}`,
-          });
-        }
-      };
+    if (!walletProvider || !walletType) return;
 
-      const handleChainChanged = (chainIdHex: string) => {
-        const newChainId = parseInt(chainIdHex, 16);
-        setChainId(newChainId);
+    const handleAccountsChanged = (accounts: string[]) => {
+      if (accounts.length === 0) {
+        disconnectWallet();
+      } else if (accounts[0].toLowerCase() !== account?.toLowerCase()) {
+        // The session belongs to the previous account, so sign in again
+        setUser(null);
+        signOut()
+          .catch((error) => console.error("Failed to end previous session:", error))
+          .finally(() => connect(walletType, false));
         toast({
-          title: "Network Changed",
-          description: `Connected to network ${newChainId}`,
+          title: "Account Changed",
+          description: `Connected to ${accounts[0].slice(0, 6)}...${accounts[0].slice(-4)}`,
         });
-      };
+      }
+    };
 
-      window.ethereum.on('accountsChanged', handleAccountsChanged);
-      window.ethereum.on('chainChanged', handleChainChanged);
+    const handleChainChanged = (chainIdHex: string) => {
+      const newChainId = parseInt(chainIdHex, 16);
+      setChainId(newChainId);
 
-      return () => {
-        window.ethereum.removeListener('accountsChanged', handleAccountsChanged);
-        window.ethereum.removeListener('chainChanged', handleChainChanged);
-      };
-    }
-  }, [account, toast]);
+      // An ethers provider is bound to the chain it was created on
+      const browserProvider = new ethers.BrowserProvider(walletProvider);
+      setProvider(browserProvider);
+      browserProvider
+        .getSigner()
+        .then(setSigner)
+        .catch((error) => console.error("Failed to get signer after network change:", error));
+
+      toast({
+        title: "Network Changed",
+        description: `Connected to ${getNetworkByChainId(newChainId)?.name ?? `network ${newChainId}`}`,
+      });
+    };
 
-  const connectWallet = async (walletType: 'metamask' | 'walletconnect' | 'coinbase') => {
+    // The wallet ended the session, e.g. a WalletConnect pairing was removed
+    const handleDisconnect = () => disconnectWallet();
+
+    walletProvider.on('accountsChanged', handleAccountsChanged);
+    walletProvider.on('chainChanged', handleChainChanged);
+    walletProvider.on('disconnect', handleDisconnect);
+
+    return () => {
+      walletProvider.removeListener('accountsChanged', handleAccountsChanged);
+      walletProvider.removeListener('chainChanged', handleChainChanged);
+      walletProvider.removeListener('disconnect', handleDisconnect);
+    };
+  }, [walletProvider, walletType, account, toast]);
+
+  /**
+   * Connect a wallet and sign in with it
+   * @param type The connector to use
+   * @param prompt Whether the wallet may ask the user to approve the
+   *   connection; otherwise only already-approved accounts are used
+   */
+  const connect = async (type: WalletType, prompt: boolean) => {
+    const connector = WALLET_CONNECTORS[type];
     try {
-      if (!window.ethereum && walletType === 'metamask') {
-        toast({
-          title: "MetaMask not found",
-          description: "Please install MetaMask extension and refresh the page",
-          variant: "destructive",
-        });
+      if (!network) {
+        throw new Error("The network configuration has not loaded yet");
+      }
+
+      const connectorProvider = await connector.getProvider(network);
+      if (!connectorProvider) {
+        if (prompt) {
+          toast({
+            title: `${connector.name} not available`,
+            description: type === 'injected'
+              ? "Please install MetaMask extension and refresh the page"
+              : `${connector.name} is not configured for this site`,
+            variant: "destructive",
+          });
+        } else {
+          setLastConnector(null);
+        }
         return;
       }
 
-      // Currently only supporting MetaMask for initial implementation
-      if (walletType === 'metamask') {
-        const browserProvider = new ethers.BrowserProvider(window.ethereum);
-        const accounts = await browserProvider.send("eth_requestAccounts", []);
-        
-        if (accounts.length === 0) {
-          throw new Error("No accounts returned from wallet");
+      const accounts = prompt
+        ? await connector.requestAccounts(connectorProvider)
+        : (await connectorProvider.request({ method: 'eth_accounts' })) as string[];
+      if (accounts.length === 0) {
+        if (!prompt) {
+          setLastConnector(null);
+          return;
         }
-        
-        const walletSigner = await browserProvider.getSigner();
-        const network = await browserProvider.getNetwork();
-        
-        setProvider(browserProvider);
-        setSigner(walletSigner);
-        setAccount(accounts[0]);
-        setChainId(Number(network.chainId));
-        setIsConnected(true);
-        
-        localStorage.setItem('isWalletConnected', 'true');
-        
-        toast({
-          title: "Wallet Connected",
-          description: `Connected to ${accounts[0].slice(0, 6)}...${accounts[0].slice(-4)}`,
-        });
-      } else {
-        // For future implementation
-        toast({
-          title: "Coming Soon",
-          description: `Support for ${walletType} will be available soon`,
-        });
+        throw new Error("No accounts returned from wallet");
       }
+
+      const browserProvider = new ethers.BrowserProvider(connectorProvider);
+      const walletSigner = await browserProvider.getSigner(accounts[0]);
+      const walletNetwork = await browserProvider.getNetwork();
+
+      // Reuse the existing session if it belongs to this wallet, otherwise
+      // ask the wallet to sign in before treating it as connected
+      const sessionUser = await fetchSessionUser();
+      const signedInUser = sessionUser && sessionUser.walletAddress?.toLowerCase() === accounts[0].toLowerCase()
+        ? sessionUser
+        : await signInWithEthereum(walletSigner, Number(walletNetwork.chainId));
+
+      setWalletProvider(connectorProvider);
+      setWalletType(type);
+      setProvider(browserProvider);
+      setSigner(walletSigner);
+      setAccount(accounts[0]);
+      setChainId(Number(walletNetwork.chainId));
+      setIsConnected(true);
+      setUser(signedInUser);
+
+      setLastConnector(type);
+
+      toast({
+        title: "Wallet Connected",
+        description: `Connected to ${accounts[0].slice(0, 6)}...${accounts[0].slice(-4)}`,
+      });
     } catch (error: any) {
       console.error("Failed to connect wallet:", error);
+      if (!prompt) {
+        setLastConnector(null);
+      }
       toast({
         title: "Connection Failed",
         description: error.message || "Could not connect to wallet",
@@ -138,13 +209,25 @@ export const Web3Provider: React.FC<Web3ProviderProps> = ({ children }) => {
     }
   };
 
+  const connectWallet = (type: WalletType) => connect(type, true);
+
   const disconnectWallet = () => {
+    if (walletProvider && walletType) {
+      WALLET_CONNECTORS[walletType]
+        .disconnect(walletProvider)
+        .catch((error) => console.error("Failed to end wallet session:", error));
+    }
+
+    setWalletProvider(null);
+    setWalletType(null);
     setProvider(null);
     setSigner(null);
     setAccount(null);
     setChainId(null);
     setIsConnected(false);
-    localStorage.removeItem('isWalletConnected');
+    setUser(null);
+    setLastConnector(null);
+    signOut().catch((error) => console.error("Failed to sign out:", error));
     
     toast({
       title: "Wallet Disconnected",
@@ -152,6 +235,9 @@ export const Web3Provider: React.FC<Web3ProviderProps> = ({ children }) => {
     });
   };
 
+  const switchNetwork = async () =>
+    walletProvider && network ? await switchToNetwork(walletProvider, network) : false;
+
   return (
     <Web3Context.Provider
       value={{
@@ -159,9 +245,16 @@ export const Web3Provider: React.FC<Web3ProviderProps> = ({ children }) => {
         signer,
         account,
         chainId,
+        network,
+        isSupportedChain: !isConnected || !network || chainId === network.chainId,
+        walletType,
         isConnected,
+        user,
+        isAuthenticated: user !== null,
         connectWallet,
         disconnectWallet,
+        switchNetwork,
+        setUser,
       }}
     >
       {children}
@@ -0,0 +1,47 @@
+import type { PaperAuthorWithUser, PaperWithAuthor } from '@shared/schema';
+
+/**
+ * Get the ordered author list of a paper, falling back to the submitting
+ * author for papers loaded without one
+ * @param paper The paper with its authors
+ * @returns The authors in order
+ */
+export const getPaperAuthors = (paper: PaperWithAuthor): Pick<PaperAuthorWithUser, 'user' | 'confirmed' | 'isCorresponding' | 'roles'>[] => {
+  if (paper.authors && paper.authors.length > 0) {
+    return paper.authors;
+  }
+  return [{ user: paper.author, confirmed: true, isCorresponding: true, roles: [] }];
+};
+
+/**
+ * Pick the authors shown in a short byline, e.g. "Ada, Grace and Alan" or
+ * "Ada, Grace et al."
+ * @param authors The authors in order
+ * @param max How many authors to show before abbreviating
+ * @returns The authors to show and whether the list was abbreviated
+ */
+export const getBylineAuthors = <T>(authors: T[], max = 3): { shown: T[]; etAl: boolean } => {
+  if (authors.length > max) {
+    return { shown: authors.slice(0, max - 1), etAl: true };
+  }
+  return { shown: authors, etAl: false };
+};
+
+/**
+ * Get the text that follows an author's name in a byline
+ * @param index The author's position among the shown authors
+ * @param shownCount How many authors are shown
+ * @param etAl Whether the byline was abbreviated
+ */
+export const getBylineSeparator = (index: number, shownCount: number, etAl: boolean): string => {
+  if (index === shownCount - 1) {
+    return etAl ? ' et al.' : '';
+  }
+  return index === shownCount - 2 && !etAl ? ' and ' : ', ';
+};
+
+/**
+ * Get the profile page path of a researcher
+ * @param userId The researcher's user ID
+ */
+export const getProfilePath = (userId: number): string => `/researchers/${userId}`;
@@ -0,0 +1,143 @@
+import type { NetworkConfig } from '@shared/networks';
+
+// Wallets the platform can connect to. Each connector hands Web3Context a
+// standard EIP-1193 provider, so connecting, signing and reacting to account
+// and chain changes work the same whichever wallet is used.
+
+export const WALLET_TYPES = ['injected', 'walletconnect', 'coinbase'] as const;
+
+export type WalletType = (typeof WALLET_TYPES)[number];
+
+// The parts of an EIP-1193 provider the platform uses
+export interface WalletProvider {
+  request(args: { method: string; params?: readonly unknown[] | object }): Promise<unknown>;
+  on(event: string, listener: (...args: any[]) => void): unknown;
+  removeListener(event: string, listener: (...args: any[]) => void): unknown;
+}
+
+export interface WalletConnector {
+  type: WalletType;
+  name: string;
+  /**
+   * Get the wallet's provider, set up for a network
+   * @returns The provider, or null if the wallet is not available
+   */
+  getProvider: (network: NetworkConfig) => Promise<WalletProvider | null>;
+  /**
+   * Ask the wallet for its accounts, prompting the user to approve the
+   * connection if needed
+   */
+  requestAccounts: (provider: WalletProvider) => Promise<string[]>;
+  /**
+   * End the wallet's session, for wallets that keep one
+   */
+  disconnect: (provider: WalletProvider) => Promise<void>;
+}
+
+// Shown to the user by wallets that display the app they connect to
+const APP_NAME = 'DeSci Hub';
+const APP_DESCRIPTION = 'Decentralized science publishing and peer review';
+
+// localStorage key holding the connector used last, to reconnect with
+const LAST_CONNECTOR_KEY = 'walletConnector';
+
+const requestAccounts = async (provider: WalletProvider): Promise<string[]> =>
+  (await provider.request({ method: 'eth_requestAccounts' })) as string[];
+
+// A browser extension such as MetaMask, which injects window.ethereum
+const injectedConnector: WalletConnector = {
+  type: 'injected',
+  name: 'Browser wallet',
+  getProvider: async () => (window as Window & { ethereum?: WalletProvider }).ethereum ?? null,
+  requestAccounts,
+  // Extensions can't be disconnected by the page; forgetting the session is enough
+  disconnect: async () => {},
+};
+
+// Mobile and desktop wallets paired over the WalletConnect v2 relay with a QR
+// code. The provider is created once per page, since it restores the last
+// session from storage when initialised.
+let walletConnectProvider: Promise<WalletProvider> | null = null;
+
+const walletConnectConnector: WalletConnector = {
+  type: 'walletconnect',
+  name: 'WalletConnect',
+  getProvider: async (network) => {
+    const projectId = import.meta.env.VITE_WALLETCONNECT_PROJECT_ID;
+    if (!projectId) {
+      console.error('WalletConnect is not configured: set VITE_WALLETCONNECT_PROJECT_ID');
+      return null;
+    }
+
+    walletConnectProvider ??= import('@walletconnect/ethereum-provider').then(({ EthereumProvider }) =>
+      EthereumProvider.init({
+        projectId,
+        optionalChains: [network.chainId],
+        rpcMap: { [network.chainId]: network.rpcUrl },
+        showQrModal: true,
+        metadata: {
+          name: APP_NAME,
+          description: APP_DESCRIPTION,
+          url: window.location.origin,
+          icons: [],
+        },
+      })
+    );
+    return await walletConnectProvider;
+  },
+  // Shows the pairing QR code unless a session is already open
+  requestAccounts: async (provider) =>
+    await (provider as WalletProvider & { enable: () => Promise<string[]> }).enable(),
+  disconnect: async (provider) => {
+    await (provider as WalletProvider & { disconnect: () => Promise<void> }).disconnect();
+  },
+};
+
+// Coinbase Wallet, as the browser extension or the Smart Wallet popup
+let coinbaseProvider: WalletProvider | null = null;
+
+const coinbaseConnector: WalletConnector = {
+  type: 'coinbase',
+  name: 'Coinbase Wallet',
+  getProvider: async (network) => {
+    if (!coinbaseProvider) {
+      const { createCoinbaseWalletSDK } = await import('@coinbase/wallet-sdk');
+      coinbaseProvider = createCoinbaseWalletSDK({
+        appName: APP_NAME,
+        appChainIds: [network.chainId],
+      }).getProvider();
+    }
+    return coinbaseProvider;
+  },
+  requestAccounts,
+  disconnect: async (provider) => {
+    await (provider as WalletProvider & { disconnect: () => Promise<void> }).disconnect();
+  },
+};
+
+export const WALLET_CONNECTORS: Record<WalletType, WalletConnector> = {
+  injected: injectedConnector,
+  walletconnect: walletConnectConnector,
+  coinbase: coinbaseConnector,
+};
+
+/**
+ * Get the connector the user connected with last
+ * @returns The connector's type, or null if the user disconnected
+ */
+export const getLastConnector = (): WalletType | null => {
+  const type = localStorage.getItem(LAST_CONNECTOR_KEY);
+  return WALLET_TYPES.find((walletType) => walletType === type) ?? null;
+};
+
+/**
+ * Remember the connector to reconnect with, or forget it
+ * @param type The connector's type, or null to forget it
+ */
+export const setLastConnector = (type: WalletType | null): void => {
+  if (type) {
+    localStorage.setItem(LAST_CONNECTOR_KEY, type);
+  } else {
+    localStorage.removeItem(LAST_CONNECTOR_KEY);
+  }
+};
@@ -1,7 +1,7 @@
 import { apiRequest } from './queryClient';
 
 // For our frontend, we'll delegate IPFS operations to our backend API
-// which will handle the actual interaction with Pinata/IPFS
+// which will handle the actual interaction with Pinata, Kubo or the local store
 
 /**
  * Upload a file to IPFS through our backend API
@@ -54,8 +54,8 @@ export const uploadMetadataToIPFS = async (metadata: any): Promise<string> => {
  * @returns The URL to access the file
  */
 export const getIPFSUrl = (cid: string): string => {
-  // Use a gateway that's reliable and fast
-  return `https://gateway.pinata.cloud/ipfs/${cid}`;
+  // The server serves content from whichever IPFS provider it is configured with
+  return `/api/ipfs/content/${cid}`;
 };
 
 /**
@@ -0,0 +1,46 @@
+import type { PaperSearchResult, PaperSearchSort } from '@shared/search';
+import { apiRequest } from './queryClient';
+
+export interface PaperSearchFilters {
+  q: string;
+  status: string[];
+  tag: string[];
+  institution?: string;
+  from?: string; // yyyy-mm-dd
+  to?: string; // yyyy-mm-dd
+  aiVerified?: boolean;
+  sort: PaperSearchSort;
+}
+
+export const emptySearchFilters: PaperSearchFilters = {
+  q: '',
+  status: [],
+  tag: [],
+  sort: 'recent',
+};
+
+/**
+ * Fetch one page of search results from the backend
+ * @param filters The search query and filters
+ * @param cursor The cursor returned with the previous page, if any
+ * @returns The page of papers with totals and facet counts
+ */
+export const searchPapers = async (
+  filters: PaperSearchFilters,
+  cursor?: string | null
+): Promise<PaperSearchResult> => {
+  const params = new URLSearchParams();
+  if (filters.q.trim()) params.set('q', filters.q.trim());
+  filters.status.forEach(status => params.append('status', status));
+  filters.tag.forEach(tag => params.append('tag', tag));
+  if (filters.institution) params.set('institution', filters.institution);
+  if (filters.from) params.set('from', new Date(`${filters.from}T00:00:00`).toISOString());
+  // The end date is inclusive of the whole day
+  if (filters.to) params.set('to', new Date(`${filters.to}T23:59:59.999`).toISOString());
+  if (filters.aiVerified !== undefined) params.set('aiVerified', String(filters.aiVerified));
+  params.set('sort', filters.sort);
+  if (cursor) params.set('cursor', cursor);
+
+  const response = await apiRequest('GET', `/api/papers/search?${params.toString()}`);
+  return await response.json();
+};
@@ -0,0 +1,41 @@
+import { PAPER_STATUS_LABELS, type PaperStatus } from '@shared/lifecycle';
+import { INVITATION_STATUS_LABELS, isInvitationOverdue, type InvitationStatus } from '@shared/editorial';
+
+const STATUS_CLASS_NAMES: Record<PaperStatus, string> = {
+  draft: 'bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300',
+  submitted: 'bg-yellow-100 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200',
+  under_review: 'bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200',
+  revisions_requested: 'bg-orange-100 dark:bg-orange-900 text-orange-800 dark:text-orange-200',
+  accepted: 'bg-emerald-100 dark:bg-emerald-900 text-emerald-800 dark:text-emerald-200',
+  verified: 'bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200',
+  rejected: 'bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200',
+  withdrawn: 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400',
+  retracted: 'bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200',
+};
+
+/**
+ * Get the label and colours a paper status is shown with
+ * @param status The paper's status
+ */
+export const getStatusBadge = (status: PaperStatus): { label: string; className: string } => ({
+  label: PAPER_STATUS_LABELS[status],
+  className: STATUS_CLASS_NAMES[status],
+});
+
+const INVITATION_CLASS_NAMES: Record<InvitationStatus, string> = {
+  pending: 'bg-yellow-100 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200',
+  accepted: 'bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200',
+  declined: 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400',
+  completed: 'bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200',
+  cancelled: 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400',
+};
+
+/**
+ * Get the label and colours a review invitation is shown with; open
+ * invitations past their deadline are shown as overdue
+ * @param invitation The invitation's status and deadline
+ */
+export const getInvitationBadge = (invitation: { status: InvitationStatus; dueAt: Date | string }): { label: string; className: string } =>
+  isInvitationOverdue(invitation)
+    ? { label: `${INVITATION_STATUS_LABELS[invitation.status]} · Overdue`, className: 'bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200' }
+    : { label: INVITATION_STATUS_LABELS[invitation.status], className: INVITATION_CLASS_NAMES[invitation.status] };
@@ -0,0 +1,31 @@
+import type { PaperVersion } from '@shared/schema';
+
+export type VersionChange =
+  | { field: 'title' | 'abstract' | 'ipfsCid' | 'metadataHash'; before: string | null; after: string | null }
+  | { field: 'tags'; added: string[]; removed: string[] };
+
+/**
+ * List the metadata differences between two versions of a paper
+ * @param previous The earlier version
+ * @param current The later version
+ * @returns One entry per field that changed
+ */
+export const diffVersions = (previous: PaperVersion, current: PaperVersion): VersionChange[] => {
+  const changes: VersionChange[] = [];
+
+  for (const field of ['title', 'abstract', 'ipfsCid', 'metadataHash'] as const) {
+    if (previous[field] !== current[field]) {
+      changes.push({ field, before: previous[field], after: current[field] });
+    }
+  }
+
+  const previousTags = previous.tags || [];
+  const currentTags = current.tags || [];
+  const added = currentTags.filter(tag => !previousTags.includes(tag));
+  const removed = previousTags.filter(tag => !currentTags.includes(tag));
+  if (added.length > 0 || removed.length > 0) {
+    changes.push({ field: 'tags', added, removed });
+  }
+
+  return changes;
+};
@@ -1,47 +1,50 @@
 import { ethers } from 'ethers';
+import { createSiweMessage, SIWE_STATEMENT } from '@shared/siwe';
+import { SIGNATURE_TTL_SECONDS, type SignedPayload } from '@shared/eip712';
+import type { NetworkConfig } from '@shared/networks';
+import type { PublicUser } from '@shared/schema';
+import type { WalletProvider } from './connectors';
+import { apiRequest } from './queryClient';
 
-// Polygon Mumbai Testnet configuration
-export const CHAIN_CONFIG = {
-  chainId: '0x13881', // 80001 in decimal
-  chainName: 'Polygon Mumbai Testnet',
-  nativeCurrency: {
-    name: 'MATIC',
-    symbol: 'MATIC',
-    decimals: 18
-  },
-  rpcUrls: ['https://rpc-mumbai.maticvigil.com/'],
-  blockExplorerUrls: ['https://mumbai.polygonscan.com/']
-};
-
-// Helper to ensure we're on the right network
-export const switchToPolygonMumbai = async (): Promise<boolean> => {
-  if (!window.ethereum) {
-    console.error('MetaMask is not installed');
-    return false;
-  }
-
+/**
+ * Ask the wallet to switch to a network, adding it first (EIP-3085) if the
+ * wallet does not know it yet
+ * @param walletProvider The connected wallet's provider
+ * @param network The network to switch to
+ * @returns Whether the wallet is now on the network
+ */
+export const switchToNetwork = async (
+  walletProvider: WalletProvider,
+  network: NetworkConfig
+): Promise<boolean> => {
+  const chainId = ethers.toQuantity(network.chainId);
   try {
-    // Try to switch to Polygon Mumbai
-    await window.ethereum.request({
+    await walletProvider.request({
       method: 'wallet_switchEthereumChain',
-      params: [{ chainId: CHAIN_CONFIG.chainId }]
+      params: [{ chainId }]
     });
     return true;
   } catch (switchError: any) {
-    // This error code indicates that the chain has not been added to MetaMask
+    // This error code indicates that the chain has not been added to the wallet
     if (switchError.code === 4902) {
       try {
-        await window.ethereum.request({
+        await walletProvider.request({
           method: 'wallet_addEthereumChain',
-          params: [CHAIN_CONFIG]
+          params: [{
+            chainId,
+            chainName: network.name,
+            nativeCurrency: network.nativeCurrency,
+            rpcUrls: [network.rpcUrl],
+            blockExplorerUrls: network.explorerUrl ? [network.explorerUrl] : undefined
+          }]
         });
         return true;
       } catch (addError) {
-        console.error('Failed to add Polygon Mumbai network:', addError);
+        console.error(`Failed to add ${network.name}:`, addError);
         return false;
       }
     }
-    console.error('Failed to switch to Polygon Mumbai network:', switchError);
+    console.error(`Failed to switch to ${network.name}:`, switchError);
     return false;
   }
 };
@@ -59,6 +62,30 @@ export const signMessage = async (
   }
 };
 
+/**
+ * Get the nonce and deadline for the next EIP-712 signed submission
+ * @returns The signed-in wallet's next nonce and a deadline a few minutes out
+ */
+export const prepareTypedSubmission = async (): Promise<{ nonce: number; deadline: number }> => {
+  const response = await apiRequest('GET', '/api/signatures/nonce');
+  const { nonce } = await response.json();
+  const deadline = Math.floor(Date.now() / 1000) + SIGNATURE_TTL_SECONDS;
+  return { nonce, deadline };
+};
+
+// Function to sign EIP-712 typed data using the connected wallet
+export const signTypedData = async (
+  signer: ethers.Signer,
+  payload: SignedPayload<any>
+): Promise<string> => {
+  try {
+    return await signer.signTypedData(payload.domain, payload.types, payload.message);
+  } catch (error) {
+    console.error('Error signing typed data:', error);
+    throw new Error('Failed to sign submission with wallet');
+  }
+};
+
 // Function to verify a signed message
 export const verifySignature = (
   message: string,
@@ -73,3 +100,56 @@ export const verifySignature = (
     return false;
   }
 };
+
+/**
+ * Sign in to the platform with the connected wallet (EIP-4361). The server
+ * issues a nonce, the wallet signs the sign-in message, and the server starts
+ * a cookie session for the wallet.
+ * @param signer The connected wallet signer
+ * @param chainId The chain the wallet is connected to
+ * @returns The signed-in platform user
+ */
+export const signInWithEthereum = async (
+  signer: ethers.Signer,
+  chainId: number
+): Promise<PublicUser> => {
+  const nonceResponse = await apiRequest('GET', '/api/auth/nonce');
+  const { nonce } = await nonceResponse.json();
+
+  const message = createSiweMessage({
+    domain: window.location.host,
+    address: await signer.getAddress(),
+    statement: SIWE_STATEMENT,
+    uri: window.location.origin,
+    version: '1',
+    chainId,
+    nonce,
+    issuedAt: new Date().toISOString(),
+  });
+
+  const signature = await signMessage(signer, message);
+  const verifyResponse = await apiRequest('POST', '/api/auth/verify', { message, signature });
+  return await verifyResponse.json();
+};
+
+/**
+ * Get the user for the current session
+ * @returns The signed-in user, or null if there is no session
+ */
+export const fetchSessionUser = async (): Promise<PublicUser | null> => {
+  const response = await fetch('/api/auth/session', { credentials: 'include' });
+  if (response.status === 401) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`${response.status}: ${await response.text()}`);
+  }
+  return await response.json();
+};
+
+/**
+ * End the current session
+ */
+export const signOut = async (): Promise<void> => {
+  await apiRequest('POST', '/api/auth/logout');
+};
@@ -0,0 +1,189 @@
+import React from "react";
+import { Link } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
+import { EditorialQueueItem } from "@shared/schema";
+import { DECISION_LABELS, OPEN_INVITATION_STATUSES, isInvitationOverdue } from "@shared/editorial";
+import { useWeb3 } from "@/context/Web3Context";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { getInvitationBadge, getStatusBadge } from "@/lib/status";
+import InviteReviewerDialog from "@/components/editor/InviteReviewerDialog";
+import EditorialDecisionDialog from "@/components/editor/EditorialDecisionDialog";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2 } from "lucide-react";
+
+// The editorial dashboard: papers waiting on editors, oldest first, with the
+// reviewers invited to each and the tools to invite more and decide
+const Editor: React.FC = () => {
+  const { user, isAuthenticated } = useWeb3();
+  const { toast } = useToast();
+  const isEditor = isAuthenticated && !!user?.isEditor;
+
+  const { data: queue, isLoading } = useQuery<EditorialQueueItem[]>({
+    queryKey: ["/api/editor/queue"],
+    enabled: isEditor,
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (invitationId: number) => {
+      const response = await apiRequest("POST", `/api/invitations/${invitationId}/cancel`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/editor/queue"] });
+      toast({ title: "Invitation cancelled" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Cancellation failed",
+        description: error.message || "There was an error cancelling the invitation. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!isEditor) {
+    return (
+      <div className="max-w-4xl mx-auto px-4 py-12">
+        <Card>
+          <CardContent className="pt-6">
+            <div className="text-center py-12">
+              <div className="material-icons text-4xl text-gray-400 mb-4">lock</div>
+              <h3 className="text-xl font-medium text-gray-800 dark:text-gray-200 mb-2">Editors Only</h3>
+              <p className="text-gray-600 dark:text-gray-400 mb-6">
+                {isAuthenticated
+                  ? "Your account does not have the editor role. Ask an administrator to grant it."
+                  : "Connect the wallet of an editor account to see the editorial queue."}
+              </p>
+              <Link href="/">
+                <Button>Return to Home</Button>
+              </Link>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center min-h-[50vh]">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const items = queue ?? [];
+  const overdueCount = items.reduce(
+    (count, item) => count + item.invitations.filter(invitation => isInvitationOverdue(invitation)).length,
+    0
+  );
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 py-12">
+      <div className="mb-8">
+        <h1 className="text-2xl md:text-3xl font-bold text-gray-900 dark:text-white">Editorial Queue</h1>
+        <p className="text-gray-500 dark:text-gray-400">
+          {items.length} {items.length === 1 ? "paper" : "papers"} in review
+          {overdueCount > 0 && ` · ${overdueCount} overdue ${overdueCount === 1 ? "invitation" : "invitations"}`}
+        </p>
+      </div>
+
+      {items.length === 0 ? (
+        <p className="text-center text-gray-500 dark:text-gray-400 py-12">No papers are waiting on an editor.</p>
+      ) : (
+        <div className="space-y-6">
+          {items.map(({ paper, invitations, latestDecision }) => {
+            const statusBadge = getStatusBadge(paper.status);
+            const openInvitations = invitations.filter(invitation => OPEN_INVITATION_STATUSES.includes(invitation.status));
+            return (
+              <Card key={paper.id}>
+                <CardHeader className="pb-2">
+                  <div className="flex flex-wrap items-start justify-between gap-2">
+                    <div>
+                      <CardTitle className="text-lg">
+                        <Link href={`/papers/${paper.id}`}>
+                          <a className="hover:text-primary dark:hover:text-primary-light transition-colors">
+                            {paper.title}
+                          </a>
+                        </Link>
+                      </CardTitle>
+                      <p className="text-sm text-gray-500 dark:text-gray-400">
+                        Submitted {formatDistanceToNow(new Date(paper.createdAt), { addSuffix: true })}
+                        {" · "}{paper.reviewCount} {paper.reviewCount === 1 ? "review" : "reviews"}
+                        {" · "}{openInvitations.length} open {openInvitations.length === 1 ? "invitation" : "invitations"}
+                      </p>
+                    </div>
+                    <Badge className={statusBadge.className}>{statusBadge.label}</Badge>
+                  </div>
+                  {latestDecision && (
+                    <p className="text-sm text-gray-600 dark:text-gray-400 mt-2">
+                      Last decision: <span className="font-medium">{DECISION_LABELS[latestDecision.decision]}</span>,{" "}
+                      {formatDistanceToNow(new Date(latestDecision.createdAt), { addSuffix: true })}
+                    </p>
+                  )}
+                </CardHeader>
+                <CardContent>
+                  {invitations.length > 0 ? (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Reviewer</TableHead>
+                          <TableHead>Status</TableHead>
+                          <TableHead>Due</TableHead>
+                          <TableHead className="text-right"></TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {invitations.map(invitation => {
+                          const invitationBadge = getInvitationBadge(invitation);
+                          return (
+                            <TableRow key={invitation.id}>
+                              <TableCell>{invitation.reviewer.username}</TableCell>
+                              <TableCell>
+                                <Badge className={invitationBadge.className}>{invitationBadge.label}</Badge>
+                              </TableCell>
+                              <TableCell className="text-sm text-gray-500 dark:text-gray-400">
+                                {format(new Date(invitation.dueAt), "PP")}
+                              </TableCell>
+                              <TableCell className="text-right">
+                                {OPEN_INVITATION_STATUSES.includes(invitation.status) && (
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    disabled={cancelMutation.isPending}
+                                    onClick={() => cancelMutation.mutate(invitation.id)}
+                                  >
+                                    Cancel
+                                  </Button>
+                                )}
+                              </TableCell>
+                            </TableRow>
+                          );
+                        })}
+                      </TableBody>
+                    </Table>
+                  ) : (
+                    <p className="text-sm text-gray-500 dark:text-gray-400">No reviewers invited yet.</p>
+                  )}
+
+                  <div className="flex flex-wrap gap-2 mt-4">
+                    <InviteReviewerDialog paper={paper} />
+                    <EditorialDecisionDialog paper={paper} />
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Editor;
@@ -1,25 +1,67 @@
-import { useState } from "react";
-import { Link, useLocation } from "wouter";
-import { useQuery } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
+import { useLocation } from "wouter";
+import { useInfiniteQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
 import { useWeb3 } from "@/context/Web3Context";
 import ResearchPaperCard from "@/components/papers/ResearchPaperCard";
 import FeatureCard from "@/components/papers/FeatureCard";
 import PapersTable from "@/components/papers/PapersTable";
-import { PaperWithAuthor } from "@shared/schema";
+import PaperSearchSidebar from "@/components/papers/PaperSearchSidebar";
+import { emptySearchFilters, PaperSearchFilters, searchPapers } from "@/lib/search";
+import { PaperSearchSort } from "@shared/search";
+
+const sortLabels: Record<PaperSearchSort, string> = {
+  recent: "Most recent",
+  views: "Most viewed",
+  tokens: "Most tokens",
+  rating: "Highest rated",
+};
 
 const Home = () => {
   const [, setLocation] = useLocation();
   const { isConnected, connectWallet } = useWeb3();
 
-  // Fetch latest papers
-  const { data: papers, isLoading } = useQuery<PaperWithAuthor[]>({
-    queryKey: ['/api/papers'],
+  const [filters, setFilters] = useState<PaperSearchFilters>(emptySearchFilters);
+  const [searchText, setSearchText] = useState("");
+
+  // Wait for typing to pause before searching
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setFilters(current => (current.q === searchText ? current : { ...current, q: searchText }));
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [searchText]);
+
+  // Search papers; keyed under /api/papers so new uploads refresh the results
+  const {
+    data,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ['/api/papers', 'search', filters],
+    queryFn: ({ pageParam }) => searchPapers(filters, pageParam),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
   });
 
+  const papers = data?.pages.flatMap(page => page.papers);
+  const total = data?.pages[0]?.total ?? 0;
+  const facets = data?.pages[0]?.facets;
+  const isFiltered = JSON.stringify(filters) !== JSON.stringify({ ...emptySearchFilters, sort: filters.sort });
+
   const handleConnectWalletClick = async () => {
     if (!isConnected) {
-      await connectWallet('metamask');
+      await connectWallet('injected');
     }
   };
 
@@ -27,7 +69,7 @@ const Home = () => {
     if (isConnected) {
       setLocation('/upload');
     } else {
-      connectWallet('metamask').then(() => {
+      connectWallet('injected').then(() => {
         setLocation('/upload');
       });
     }
@@ -143,42 +185,97 @@ const Home = () => {
                 <span className="material-icons text-sm">add</span>
                 Upload Paper
               </Button>
-              <Link href="/">
-                <a className="text-primary hover:text-primary-dark font-medium flex items-center">
-                  View All
-                  <span className="material-icons text-sm ml-1">arrow_forward</span>
-                </a>
-              </Link>
             </div>
           </div>
           
-          {/* Table view of research papers */}
-          {papers && papers.length > 0 ? (
-            <PapersTable papers={papers} isLoading={isLoading} />
-          ) : isLoading ? (
-            <div className="space-y-3">
-              <div className="h-8 bg-gray-200 dark:bg-gray-700 rounded w-full animate-pulse"/>
-              <div className="h-8 bg-gray-200 dark:bg-gray-700 rounded w-full animate-pulse"/>
-              <div className="h-8 bg-gray-200 dark:bg-gray-700 rounded w-full animate-pulse"/>
+          {/* Search bar and sort order */}
+          <div className="flex flex-col sm:flex-row gap-4 mb-6">
+            <div className="relative flex-1">
+              <span className="material-icons absolute left-3 top-1/2 -translate-y-1/2 text-gray-400 text-sm">search</span>
+              <Input
+                placeholder="Search titles, abstracts and tags..."
+                value={searchText}
+                onChange={(e) => setSearchText(e.target.value)}
+                className="pl-9"
+              />
             </div>
-          ) : (
-            <div className="text-center py-16 bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700">
-              <div className="material-icons text-6xl text-gray-300 dark:text-gray-600 mb-4">science</div>
-              <h3 className="text-xl font-medium text-gray-800 dark:text-gray-200 mb-2">No Research Papers Yet</h3>
-              <p className="text-gray-600 dark:text-gray-400 mb-6 max-w-md mx-auto">Be the first to publish your research on our decentralized platform and start earning tokens.</p>
-              <Button onClick={handleUploadClick} size="lg" className="gap-2">
-                <span className="material-icons">upload_file</span>
-                Upload Research Paper
-              </Button>
+            <Select
+              value={filters.sort}
+              onValueChange={(value) => setFilters({ ...filters, sort: value as PaperSearchSort })}
+            >
+              <SelectTrigger className="w-full sm:w-[180px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(sortLabels) as PaperSearchSort[]).map((sort) => (
+                  <SelectItem key={sort} value={sort}>{sortLabels[sort]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          
+          <div className="grid lg:grid-cols-4 gap-8">
+            <div className="lg:col-span-1">
+              <PaperSearchSidebar filters={filters} facets={facets} onChange={setFilters} />
             </div>
-          )}
+            
+            <div className="lg:col-span-3">
+              {/* Table view of research papers */}
+              {papers && papers.length > 0 ? (
+                <>
+                  <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+                    {total} {total === 1 ? "paper" : "papers"}
+                  </p>
+                  <PapersTable papers={papers} isLoading={isLoading} />
+                  {hasNextPage && (
+                    <div className="flex justify-center mt-6">
+                      <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                        {isFetchingNextPage ? "Loading..." : "Load More"}
+                      </Button>
+                    </div>
+                  )}
+                </>
+              ) : isLoading ? (
+                <div className="space-y-3">
+                  <div className="h-8 bg-gray-200 dark:bg-gray-700 rounded w-full animate-pulse"/>
+                  <div className="h-8 bg-gray-200 dark:bg-gray-700 rounded w-full animate-pulse"/>
+                  <div className="h-8 bg-gray-200 dark:bg-gray-700 rounded w-full animate-pulse"/>
+                </div>
+              ) : isFiltered ? (
+                <div className="text-center py-16 bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700">
+                  <div className="material-icons text-6xl text-gray-300 dark:text-gray-600 mb-4">search_off</div>
+                  <h3 className="text-xl font-medium text-gray-800 dark:text-gray-200 mb-2">No Matching Papers</h3>
+                  <p className="text-gray-600 dark:text-gray-400 mb-6 max-w-md mx-auto">Try a different search or clear some filters.</p>
+                  <Button
+                    variant="outline"
+                    onClick={() => {
+                      setSearchText("");
+                      setFilters({ ...emptySearchFilters, sort: filters.sort });
+                    }}
+                  >
+                    Clear Search
+                  </Button>
+                </div>
+              ) : (
+                <div className="text-center py-16 bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700">
+                  <div className="material-icons text-6xl text-gray-300 dark:text-gray-600 mb-4">science</div>
+                  <h3 className="text-xl font-medium text-gray-800 dark:text-gray-200 mb-2">No Research Papers Yet</h3>
+                  <p className="text-gray-600 dark:text-gray-400 mb-6 max-w-md mx-auto">Be the first to publish your research on our decentralized platform and start earning tokens.</p>
+                  <Button onClick={handleUploadClick} size="lg" className="gap-2">
+                    <span className="material-icons">upload_file</span>
+                    Upload Research Paper
+                  </Button>
+                </div>
+              )}
           
-          {/* Card view (alternative display, commented out for now) */}
-          {/* <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-8">
-            {papers && papers.length > 0 && papers.map((paper) => (
-              <ResearchPaperCard key={paper.id} paper={paper} />
-            ))}
-          </div> */}
+              {/* Card view (alternative display, commented out for now) */}
+              {/* <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-8">
+                {papers && papers.length > 0 && papers.map((paper) => (
+                  <ResearchPaperCard key={paper.id} paper={paper} />
+                ))}
+              </div> */}
+            </div>
+          </div>
         </div>
       </section>
 
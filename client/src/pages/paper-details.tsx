@@ -4,10 +4,21 @@ import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient } from "@/lib/queryClient";
 import { apiRequest } from "@/lib/queryClient";
 import { getIPFSUrl } from "@/lib/ipfs";
+import { prepareTypedSubmission, signTypedData } from "@/lib/web3";
+import { buildAuthorshipConfirmationPayload, buildReviewPayload } from "@shared/eip712";
+import { CREDIT_ROLE_LABELS, CreditRole } from "@shared/credit";
 import { useWeb3 } from "@/context/Web3Context";
 import { useToast } from "@/hooks/use-toast";
 import { formatDistanceToNow } from "date-fns";
-import { PaperWithAuthor, ReviewWithReviewer } from "@shared/schema";
+import { diffVersions } from "@/lib/versions";
+import { getPaperAuthors, getProfilePath } from "@/lib/authors";
+import { getStatusBadge } from "@/lib/status";
+import { PaperVersion, PaperWithAuthor, ReviewWithReviewer } from "@shared/schema";
+import SubmitRevisionDialog from "@/components/papers/SubmitRevisionDialog";
+import AnchorProof from "@/components/papers/AnchorProof";
+import AnalysisJobStatus from "@/components/papers/AnalysisJobStatus";
+import AnalysisHistory from "@/components/papers/AnalysisHistory";
+import StatusHistory from "@/components/papers/StatusHistory";
 
 import { 
   Card, 
@@ -40,6 +51,13 @@ import {
 } from "@/components/ui/form";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Separator } from "@/components/ui/separator";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
 import { 
   Avatar, 
   AvatarFallback 
@@ -57,23 +75,12 @@ const reviewSchema = z.object({
 
 type ReviewFormValues = z.infer<typeof reviewSchema>;
 
-const getStatusBadge = (status: string) => {
-  switch (status) {
-    case "verified":
-      return { label: "Verified by AI", className: "bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200" };
-    case "reviewed":
-      return { label: "Peer Reviewed", className: "bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200" };
-    case "submitted":
-    default:
-      return { label: "Under Review", className: "bg-yellow-100 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200" };
-  }
-};
-
 const PaperDetails = () => {
   const [, params] = useRoute<{ id: string }>("/papers/:id");
-  const { isConnected, account } = useWeb3();
+  const { isConnected, isAuthenticated, user, account, signer, chainId } = useWeb3();
   const { toast } = useToast();
   const [reviewRating, setReviewRating] = useState<number>(0);
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
   
   // Fetch paper details
   const { data: paper, isLoading: isPaperLoading } = useQuery<PaperWithAuthor>({
@@ -87,7 +94,13 @@ const PaperDetails = () => {
     enabled: !!params?.id,
   });
 
-  // Mutation for manually triggering AI analysis
+  // Fetch the version history of this paper
+  const { data: versions } = useQuery<PaperVersion[]>({
+    queryKey: [`/api/papers/${params?.id}/versions`],
+    enabled: !!params?.id,
+  });
+
+  // Mutation for manually queueing AI analysis
   const triggerAIAnalysisMutation = useMutation({
     mutationFn: async () => {
       return await apiRequest(
@@ -96,16 +109,62 @@ const PaperDetails = () => {
       );
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: [`/api/papers/${params?.id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/papers/${params?.id}/analysis/jobs`] });
       toast({
-        title: "AI Analysis Triggered",
-        description: "The AI analysis process has been started. Please check back in a few minutes.",
+        title: "AI Analysis Queued",
+        description: "The paper has been queued for AI analysis. Progress is shown below.",
       });
     },
     onError: (error: any) => {
       toast({
         title: "AI Analysis Failed",
-        description: error.message || "There was an error triggering the AI analysis. Please try again.",
+        description: error.message || "There was an error queueing the AI analysis. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Mutation for a co-author confirming their authorship with their wallet
+  const confirmAuthorshipMutation = useMutation({
+    mutationFn: async () => {
+      if (!signer || !account || !chainId || !paper) {
+        throw new Error("Wallet not connected");
+      }
+      
+      const entry = paper.authors.find(author => author.userId === user?.id);
+      if (!entry) {
+        throw new Error("You are not listed as an author of this paper");
+      }
+      
+      const { nonce, deadline } = await prepareTypedSubmission();
+      const payload = buildAuthorshipConfirmationPayload(chainId, {
+        author: account,
+        paperId: paper.id,
+        position: entry.position,
+        roles: entry.roles,
+        corresponding: entry.isCorresponding,
+        nonce,
+        deadline,
+      });
+      const signature = await signTypedData(signer, payload);
+      
+      return await apiRequest(
+        "POST",
+        `/api/papers/${paper.id}/authors/confirm`,
+        { signature, nonce, deadline, chainId }
+      );
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/papers/${params?.id}`] });
+      toast({
+        title: "Authorship confirmed",
+        description: "You are now a confirmed author of this paper.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Confirmation failed",
+        description: error.message || "There was an error confirming your authorship. Please try again.",
         variant: "destructive",
       });
     },
@@ -121,17 +180,38 @@ const PaperDetails = () => {
 
   const submitReviewMutation = useMutation({
     mutationFn: async (data: ReviewFormValues) => {
+      if (!signer || !account || !chainId || !paper) {
+        throw new Error("Wallet not connected");
+      }
+      
+      // Sign the review with replay-protected EIP-712 typed data. Reviews
+      // always apply to the current version of the paper.
+      const version = paper.currentVersion;
+      const { nonce, deadline } = await prepareTypedSubmission();
+      const payload = buildReviewPayload(chainId, {
+        reviewer: account,
+        paperId: Number(params?.id),
+        version,
+        content: data.content,
+        rating: data.rating,
+        nonce,
+        deadline,
+      });
+      const signature = await signTypedData(signer, payload);
+      
       return await apiRequest(
         "POST", 
         `/api/papers/${params?.id}/reviews`, 
-        { ...data, walletAddress: account }
+        { ...data, version, signature, nonce, deadline, chainId }
       );
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: [`/api/papers/${params?.id}/reviews`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/papers/${params?.id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/papers/${params?.id}/history`] });
       toast({
         title: "Review submitted!",
-        description: "Your review has been successfully submitted and recorded on the blockchain.",
+        description: "Your review has been submitted and will be anchored on the blockchain shortly.",
       });
       form.reset();
     },
@@ -145,7 +225,7 @@ const PaperDetails = () => {
   });
 
   const onSubmitReview = (data: ReviewFormValues) => {
-    if (!isConnected) {
+    if (!isConnected || !isAuthenticated) {
       toast({
         title: "Wallet not connected",
         description: "Please connect your wallet to submit a review",
@@ -196,7 +276,17 @@ const PaperDetails = () => {
   const statusBadge = getStatusBadge(paper.status);
   const createdAtDate = new Date(paper.createdAt);
   const formattedDate = formatDistanceToNow(createdAtDate, { addSuffix: true });
-  const pdfUrl = getIPFSUrl(paper.ipfsCid);
+  
+  // Show the selected version, falling back to the current one
+  const viewedVersionNumber = selectedVersion ?? paper.currentVersion;
+  const viewedVersion = versions?.find(version => version.version === viewedVersionNumber);
+  const previousVersion = versions?.find(version => version.version === viewedVersionNumber - 1);
+  const versionChanges = viewedVersion && previousVersion ? diffVersions(previousVersion, viewedVersion) : [];
+  const versionNumbers = new Map(versions?.map(version => [version.id, version.version]));
+  const pdfUrl = getIPFSUrl(viewedVersion?.ipfsCid ?? paper.ipfsCid);
+  const isOwner = isAuthenticated && user?.id === paper.authorId;
+  const authors = getPaperAuthors(paper);
+  const isPendingAuthor = isAuthenticated && paper.authors.some(author => author.userId === user?.id && !author.confirmed);
   
   return (
     <div className="max-w-4xl mx-auto px-4 py-12">
@@ -209,31 +299,74 @@ const PaperDetails = () => {
             <span className="text-sm text-gray-500 dark:text-gray-400">{formattedDate}</span>
           </div>
           
-          <h1 className="text-2xl md:text-3xl font-bold text-gray-900 dark:text-white mb-4">
+          <h1 className="text-2xl md:text-3xl font-bold text-gray-900 dark:text-white mb-2">
             {paper.title}
           </h1>
           
-          <div className="flex items-center mb-8">
-            <Avatar className="w-10 h-10 mr-3">
-              {paper.author.profileImage ? (
-                <img 
-                  src={paper.author.profileImage} 
-                  alt={`${paper.author.username} avatar`} 
-                />
-              ) : (
-                <AvatarFallback>
-                  {getInitials(paper.author.username)}
-                </AvatarFallback>
-              )}
-            </Avatar>
-            <div>
-              <p className="font-medium text-gray-900 dark:text-white">
-                {paper.author.username}
-              </p>
-              <p className="text-sm text-gray-500 dark:text-gray-400">
-                {paper.author.institution || "Independent Researcher"}
-              </p>
-            </div>
+          <div className="mb-4">
+            <AnchorProof type="paper" id={paper.id} />
+          </div>
+          
+          <div className="space-y-4 mb-8">
+            {authors.map((author, index) => (
+              <div key={index} className="flex items-start">
+                <Avatar className="w-10 h-10 mr-3">
+                  {author.user.profileImage ? (
+                    <img 
+                      src={author.user.profileImage} 
+                      alt={`${author.user.username} avatar`} 
+                    />
+                  ) : (
+                    <AvatarFallback>
+                      {getInitials(author.user.username)}
+                    </AvatarFallback>
+                  )}
+                </Avatar>
+                <div>
+                  <p className="font-medium text-gray-900 dark:text-white flex items-center gap-2">
+                    <Link href={getProfilePath(author.user.id)}>
+                      <a className="hover:text-primary dark:hover:text-primary-light transition-colors">
+                        {author.user.username}
+                      </a>
+                    </Link>
+                    {author.isCorresponding && (
+                      <span className="material-icons text-sm text-gray-500" title="Corresponding author">mail</span>
+                    )}
+                    {!author.confirmed && (
+                      <Badge variant="outline" className="text-xs">Pending confirmation</Badge>
+                    )}
+                  </p>
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    {author.user.institution || "Independent Researcher"}
+                  </p>
+                  {author.roles.length > 0 && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      {author.roles.map(role => CREDIT_ROLE_LABELS[role as CreditRole] || role).join(", ")}
+                    </p>
+                  )}
+                </div>
+              </div>
+            ))}
+            
+            {isPendingAuthor && (
+              <Button
+                variant="outline"
+                onClick={() => confirmAuthorshipMutation.mutate()}
+                disabled={confirmAuthorshipMutation.isPending}
+              >
+                {confirmAuthorshipMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Confirming...
+                  </>
+                ) : (
+                  <>
+                    <span className="material-icons mr-2 text-sm">how_to_reg</span>
+                    Confirm My Authorship
+                  </>
+                )}
+              </Button>
+            )}
           </div>
           
           {/* Paper Tags */}
@@ -252,6 +385,88 @@ const PaperDetails = () => {
             <p>{paper.abstract}</p>
           </div>
           
+          {/* Version History */}
+          {versions && versions.length > 0 && (
+            <div className="border border-gray-200 dark:border-gray-700 rounded-lg p-4 mb-8">
+              <div className="flex flex-wrap items-center justify-between gap-4 mb-3">
+                <h2 className="text-lg font-semibold">Version History</h2>
+                <Select
+                  value={String(viewedVersionNumber)}
+                  onValueChange={(value) => setSelectedVersion(Number(value))}
+                >
+                  <SelectTrigger className="w-[200px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {versions.map((version) => (
+                      <SelectItem key={version.id} value={String(version.version)}>
+                        Version {version.version}
+                        {version.version === paper.currentVersion ? " (current)" : ""}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              
+              {viewedVersion && (
+                <div className="space-y-3 text-sm">
+                  <p className="text-gray-500 dark:text-gray-400">
+                    Published {formatDistanceToNow(new Date(viewedVersion.createdAt), { addSuffix: true })}
+                  </p>
+                  
+                  {viewedVersion.changeLog && (
+                    <div>
+                      <h4 className="font-medium mb-1">Change Log</h4>
+                      <p className="text-gray-700 dark:text-gray-300 whitespace-pre-line">{viewedVersion.changeLog}</p>
+                    </div>
+                  )}
+                  
+                  {previousVersion && (
+                    <div>
+                      <h4 className="font-medium mb-1">Changes from Version {previousVersion.version}</h4>
+                      {versionChanges.length === 0 ? (
+                        <p className="text-gray-500 dark:text-gray-400">No metadata changes.</p>
+                      ) : (
+                        <ul className="space-y-2">
+                          {versionChanges.map((change) => (
+                            <li key={change.field} className="text-gray-700 dark:text-gray-300">
+                              {change.field === "tags" ? (
+                                <div className="flex flex-wrap items-center gap-1">
+                                  <span className="font-medium mr-1">Tags:</span>
+                                  {change.added.map((tag) => (
+                                    <Badge key={`+${tag}`} variant="outline" className="text-xs text-green-700 dark:text-green-400">
+                                      +{tag}
+                                    </Badge>
+                                  ))}
+                                  {change.removed.map((tag) => (
+                                    <Badge key={`-${tag}`} variant="outline" className="text-xs text-red-700 dark:text-red-400 line-through">
+                                      {tag}
+                                    </Badge>
+                                  ))}
+                                </div>
+                              ) : change.field === "title" || change.field === "abstract" ? (
+                                <div>
+                                  <span className="font-medium">{change.field === "title" ? "Title" : "Abstract"}:</span>
+                                  <p className="text-red-700 dark:text-red-400 line-through">{change.before}</p>
+                                  <p className="text-green-700 dark:text-green-400">{change.after}</p>
+                                </div>
+                              ) : (
+                                <div>
+                                  <span className="font-medium">{change.field === "ipfsCid" ? "Manuscript" : "Metadata"}:</span>
+                                  <span className="font-mono text-xs break-all ml-1">{change.after}</span>
+                                </div>
+                              )}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+          
           <div className="flex flex-wrap gap-4 mb-8">
             <a 
               href={pdfUrl} 
@@ -260,9 +475,11 @@ const PaperDetails = () => {
               className="inline-flex items-center justify-center rounded-md text-sm font-medium transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:opacity-50 disabled:pointer-events-none bg-primary text-primary-foreground hover:bg-primary/90 h-10 py-2 px-4"
             >
               <span className="material-icons mr-2 text-sm">description</span>
-              View Full Paper
+              View Full Paper{viewedVersionNumber !== paper.currentVersion ? ` (v${viewedVersionNumber})` : ""}
             </a>
             
+            {isOwner && <SubmitRevisionDialog paper={paper} />}
+            
             <Dialog>
               <DialogTrigger asChild>
                 <Button variant="outline">
@@ -274,7 +491,7 @@ const PaperDetails = () => {
                 <DialogHeader>
                   <DialogTitle>Blockchain & IPFS Details</DialogTitle>
                   <DialogDescription>
-                    This research paper is stored on IPFS and verified on the blockchain.
+                    This research paper is stored on IPFS and anchored in the on-chain paper registry.
                   </DialogDescription>
                 </DialogHeader>
                 
@@ -294,6 +511,15 @@ const PaperDetails = () => {
                       </p>
                     </div>
                   )}
+
+                  {paper.signature && (
+                    <div>
+                      <h4 className="font-medium mb-1">Author Signature (EIP-712)</h4>
+                      <p className="text-sm font-mono text-gray-600 dark:text-gray-400 break-all">
+                        {paper.signature}
+                      </p>
+                    </div>
+                  )}
                 </div>
               </DialogContent>
             </Dialog>
@@ -318,11 +544,12 @@ const PaperDetails = () => {
         </div>
       </div>
       
-      {/* Reviews and AI Analysis Tabs */}
+      {/* Reviews, AI Analysis and History Tabs */}
       <Tabs defaultValue="reviews" className="w-full">
-        <TabsList className="grid w-full grid-cols-2">
+        <TabsList className="grid w-full grid-cols-3">
           <TabsTrigger value="reviews">Peer Reviews</TabsTrigger>
           <TabsTrigger value="ai-analysis">AI Analysis</TabsTrigger>
+          <TabsTrigger value="history">History</TabsTrigger>
         </TabsList>
         
         <TabsContent value="reviews" className="mt-6">
@@ -368,6 +595,10 @@ const PaperDetails = () => {
                             </p>
                             <p className="text-xs text-gray-500 dark:text-gray-400">
                               {formatDistanceToNow(new Date(review.createdAt), { addSuffix: true })}
+                              {review.versionId && versionNumbers.has(review.versionId) && (
+                                <> · reviewed version {versionNumbers.get(review.versionId)}</>
+                              )}
+                              {review.invited && <> · invited by the editor</>}
                             </p>
                           </div>
                         </div>
@@ -388,22 +619,9 @@ const PaperDetails = () => {
                       </div>
                       <p className="text-gray-700 dark:text-gray-300">{review.content}</p>
                       
-                      {review.txHash && (
-                        <div className="mt-2 pt-2 border-t border-gray-100 dark:border-gray-800">
-                          <p className="text-xs text-gray-500 dark:text-gray-400 flex items-center">
-                            <span className="material-icons text-xs mr-1">verified</span>
-                            Verified on blockchain: 
-                            <a 
-                              href={`https://mumbai.polygonscan.com/tx/${review.txHash}`}
-                              target="_blank"
-                              rel="noreferrer"
-                              className="ml-1 text-primary hover:underline"
-                            >
-                              {review.txHash.slice(0, 6)}...{review.txHash.slice(-4)}
-                            </a>
-                          </p>
-                        </div>
-                      )}
+                      <div className="mt-2 pt-2 border-t border-gray-100 dark:border-gray-800">
+                        <AnchorProof type="review" id={review.id} />
+                      </div>
                     </div>
                   ))}
                 </div>
@@ -514,22 +732,13 @@ const PaperDetails = () => {
                 AI Analysis & Verification
               </CardTitle>
               <CardDescription>
-                Automated analysis of the paper's content, references, and potential impact using OpenAI.
+                Automated analysis of the paper's content, references, and potential impact using a language model.
               </CardDescription>
             </CardHeader>
             <CardContent>
               {!paper.aiVerified ? (
                 <div className="text-center py-8">
-                  <div className="inline-flex items-center justify-center w-16 h-16 rounded-full bg-yellow-100 dark:bg-yellow-900/30 mb-4">
-                    <span className="material-icons text-4xl text-yellow-500">pending</span>
-                  </div>
-                  <h3 className="text-lg font-medium text-gray-800 dark:text-gray-200 mb-1">AI Analysis In Progress</h3>
-                  <p className="text-gray-600 dark:text-gray-400 max-w-md mx-auto mb-4">
-                    Our AI system powered by OpenAI's GPT-4o is analyzing this paper. This can take 5-10 minutes depending on paper length.
-                  </p>
-                  <div className="w-24 h-1.5 bg-gray-200 dark:bg-gray-700 rounded-full mx-auto overflow-hidden relative mb-6">
-                    <div className="h-full bg-primary absolute left-0 animate-progress"></div>
-                  </div>
+                  <AnalysisJobStatus paperId={paper.id} />
                   
                   <Button 
                     variant="outline"
@@ -540,12 +749,12 @@ const PaperDetails = () => {
                     {triggerAIAnalysisMutation.isPending ? (
                       <>
                         <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                        Triggering Analysis...
+                        Queueing Analysis...
                       </>
                     ) : (
                       <>
                         <span className="material-icons mr-2 text-sm">refresh</span>
-                        Trigger Manual Analysis
+                        Queue Manual Analysis
                       </>
                     )}
                   </Button>
@@ -561,7 +770,7 @@ const PaperDetails = () => {
                           </div>
                           <div>
                             <h3 className="font-medium text-green-800 dark:text-green-400">Verified by AI</h3>
-                            <p className="text-sm text-green-700 dark:text-green-500">Analysis performed by OpenAI GPT-4o</p>
+                            <p className="text-sm text-green-700 dark:text-green-500">Analysis performed by a language model</p>
                           </div>
                         </div>
                         <p className="text-green-700 dark:text-green-400">
@@ -637,28 +846,14 @@ const PaperDetails = () => {
                           </div>
                         </div>
                         <div className="p-4">
-                          <div className="flex items-center mb-4">
-                            <div className="flex-1 mr-4">
-                              <div className="text-xs text-gray-500 dark:text-gray-400 mb-1">Methodology</div>
-                              <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-1.5">
-                                <div className="bg-primary h-1.5 rounded-full" style={{width: '85%'}}></div>
-                              </div>
-                            </div>
-                            <div className="flex-1 mr-4">
-                              <div className="text-xs text-gray-500 dark:text-gray-400 mb-1">Originality</div>
-                              <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-1.5">
-                                <div className="bg-primary h-1.5 rounded-full" style={{width: '90%'}}></div>
-                              </div>
-                            </div>
-                            <div className="flex-1">
-                              <div className="text-xs text-gray-500 dark:text-gray-400 mb-1">Impact</div>
-                              <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-1.5">
-                                <div className="bg-primary h-1.5 rounded-full" style={{width: '75%'}}></div>
-                              </div>
+                          <div className="flex items-center mb-3">
+                            <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2.5 mr-3">
+                              <div className="bg-primary h-2.5 rounded-full" style={{width: `${paper.aiAnalysis.qualityRating * 10}%`}}></div>
                             </div>
+                            <span className="text-sm font-medium text-gray-700 dark:text-gray-300 whitespace-nowrap">{paper.aiAnalysis.qualityRating}/10 quality</span>
                           </div>
                           <p className="text-gray-700 dark:text-gray-300">
-                            {paper.aiAnalysis.overallAssessment || "This paper presents a significant contribution to the field, demonstrating sound methodology and novel insights. The research is well-structured, with clearly defined objectives and results that support the conclusions drawn."}
+                            The paper was rated {paper.aiAnalysis.qualityRating} out of 10 for overall quality.
                           </p>
                         </div>
                       </div>
@@ -676,6 +871,21 @@ const PaperDetails = () => {
                   )}
                 </div>
               )}
+              <AnalysisHistory paperId={paper.id} />
+            </CardContent>
+          </Card>
+        </TabsContent>
+        
+        <TabsContent value="history" className="mt-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Status History</CardTitle>
+              <CardDescription>
+                How this paper has moved through submission, review and verification
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <StatusHistory paperId={paper.id} />
             </CardContent>
           </Card>
         </TabsContent>
@@ -0,0 +1,237 @@
+import React from "react";
+import { useRoute, Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { ResearcherProfile } from "@shared/schema";
+import { useWeb3 } from "@/context/Web3Context";
+import ResearchPaperCard from "@/components/papers/ResearchPaperCard";
+import EditProfileDialog from "@/components/researchers/EditProfileDialog";
+import ReviewInvitations from "@/components/researchers/ReviewInvitations";
+import TransactionStatusBadge from "@/components/web3/TransactionStatusBadge";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2 } from "lucide-react";
+
+// Render star rating
+const StarRating = ({ rating }: { rating: number }) => {
+  return (
+    <div className="flex text-yellow-400">
+      {[...Array(5)].map((_, i) => (
+        <span key={i} className="material-icons text-sm">
+          {i < rating ? "star" : "star_border"}
+        </span>
+      ))}
+    </div>
+  );
+};
+
+const Researcher: React.FC = () => {
+  const [, params] = useRoute("/researchers/:id");
+  const researcherId = params?.id;
+  const { user: currentUser, isAuthenticated } = useWeb3();
+
+  const { data: profile, isLoading } = useQuery<ResearcherProfile>({
+    queryKey: [`/api/users/${researcherId}`],
+    enabled: !!researcherId,
+  });
+
+  // Get author initials for avatar fallback
+  const getInitials = (name: string) => {
+    return name
+      .split(' ')
+      .map(part => part.charAt(0))
+      .join('')
+      .toUpperCase();
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center min-h-[50vh]">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!profile) {
+    return (
+      <div className="max-w-4xl mx-auto px-4 py-12">
+        <Card>
+          <CardContent className="pt-6">
+            <div className="text-center py-12">
+              <div className="material-icons text-4xl text-gray-400 mb-4">person_off</div>
+              <h3 className="text-xl font-medium text-gray-800 dark:text-gray-200 mb-2">Researcher Not Found</h3>
+              <p className="text-gray-600 dark:text-gray-400 mb-6">The researcher you're looking for doesn't exist.</p>
+              <Link href="/">
+                <Button>Return to Home</Button>
+              </Link>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const { user, papers, reviews, tokens, reputation } = profile;
+  const isOwnProfile = isAuthenticated && currentUser?.id === user.id;
+
+  const stats = [
+    { label: "Reputation", value: reputation.score, icon: "workspace_premium" },
+    { label: "Publications", value: reputation.publications, icon: "article" },
+    { label: "AI Verified", value: reputation.verifiedPublications, icon: "verified" },
+    { label: "Reviews Written", value: reputation.reviewsWritten, icon: "rate_review" },
+    {
+      label: "Avg. Rating Received",
+      value: reputation.averageRatingReceived !== null ? reputation.averageRatingReceived.toFixed(1) : "—",
+      icon: "star",
+    },
+    { label: "Tokens Earned", value: reputation.tokensEarned, icon: "token" },
+  ];
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 py-12">
+      <div className="bg-white dark:bg-gray-800 rounded-xl overflow-hidden shadow-lg mb-8">
+        <div className="p-6">
+          <div className="flex flex-wrap items-start justify-between gap-4">
+            <div className="flex items-start">
+              <Avatar className="w-16 h-16 mr-4">
+                {user.profileImage ? (
+                  <img src={user.profileImage} alt={`${user.username} avatar`} />
+                ) : (
+                  <AvatarFallback className="text-lg">
+                    {getInitials(user.username)}
+                  </AvatarFallback>
+                )}
+              </Avatar>
+              <div>
+                <h1 className="text-2xl font-bold text-gray-900 dark:text-white">{user.username}</h1>
+                <p className="text-gray-500 dark:text-gray-400">
+                  {user.institution || "Independent Researcher"}
+                </p>
+                <p className="text-xs font-mono text-gray-400 dark:text-gray-500 mt-1 break-all">
+                  {user.walletAddress}
+                </p>
+              </div>
+            </div>
+            {isOwnProfile && <EditProfileDialog user={user} />}
+          </div>
+
+          {user.bio && (
+            <p className="text-gray-700 dark:text-gray-300 mt-6 whitespace-pre-line">{user.bio}</p>
+          )}
+
+          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4 mt-6">
+            {stats.map(stat => (
+              <div key={stat.label} className="bg-gray-50 dark:bg-gray-900 rounded-lg p-4 text-center">
+                <span className="material-icons text-primary">{stat.icon}</span>
+                <div className="text-xl font-bold text-gray-900 dark:text-white">{stat.value}</div>
+                <div className="text-xs text-gray-500 dark:text-gray-400">{stat.label}</div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <Tabs defaultValue="papers">
+        <TabsList className="mb-6">
+          <TabsTrigger value="papers">Papers ({papers.length})</TabsTrigger>
+          <TabsTrigger value="reviews">Reviews ({reviews.length})</TabsTrigger>
+          <TabsTrigger value="tokens">Token History ({tokens.length})</TabsTrigger>
+          {isOwnProfile && <TabsTrigger value="invitations">Review Invitations</TabsTrigger>}
+        </TabsList>
+
+        <TabsContent value="papers">
+          {papers.length > 0 ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              {papers.map(paper => (
+                <ResearchPaperCard key={paper.id} paper={paper} />
+              ))}
+            </div>
+          ) : (
+            <p className="text-center text-gray-500 dark:text-gray-400 py-12">No papers yet.</p>
+          )}
+        </TabsContent>
+
+        <TabsContent value="reviews">
+          {reviews.length > 0 ? (
+            <div className="space-y-4">
+              {reviews.map(review => (
+                <Card key={review.id}>
+                  <CardHeader className="pb-2">
+                    <div className="flex items-center justify-between">
+                      <CardTitle className="text-base">
+                        <Link href={`/papers/${review.paper.id}`}>
+                          <a className="hover:text-primary dark:hover:text-primary-light transition-colors">
+                            {review.paper.title}
+                          </a>
+                        </Link>
+                      </CardTitle>
+                      <StarRating rating={review.rating} />
+                    </div>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {formatDistanceToNow(new Date(review.createdAt), { addSuffix: true })}
+                    </p>
+                  </CardHeader>
+                  <CardContent>
+                    <p className="text-sm text-gray-700 dark:text-gray-300 line-clamp-3">{review.content}</p>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          ) : (
+            <p className="text-center text-gray-500 dark:text-gray-400 py-12">No reviews yet.</p>
+          )}
+        </TabsContent>
+
+        <TabsContent value="tokens">
+          {tokens.length > 0 ? (
+            <Card>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Reason</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead>Transaction</TableHead>
+                    <TableHead>Date</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {tokens.map(token => (
+                    <TableRow key={token.id}>
+                      <TableCell>{token.reason}</TableCell>
+                      <TableCell className="text-right font-medium">+{token.amount}</TableCell>
+                      <TableCell>
+                        {token.txHash ? (
+                          <TransactionStatusBadge txHash={token.txHash} />
+                        ) : (
+                          <Badge variant="outline" className="text-xs">Pending settlement</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-500 dark:text-gray-400">
+                        {formatDistanceToNow(new Date(token.createdAt), { addSuffix: true })}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </Card>
+          ) : (
+            <p className="text-center text-gray-500 dark:text-gray-400 py-12">No tokens earned yet.</p>
+          )}
+        </TabsContent>
+
+        {isOwnProfile && (
+          <TabsContent value="invitations">
+            <ReviewInvitations />
+          </TabsContent>
+        )}
+      </Tabs>
+    </div>
+  );
+};
+
+export default Researcher;
@@ -7,9 +7,12 @@ import { z } from "zod";
 import { insertPaperSchema } from "@shared/schema";
 import { useWeb3 } from "@/context/Web3Context";
 import { uploadFileToIPFS, uploadMetadataToIPFS } from "@/lib/ipfs";
+import { prepareTypedSubmission, signTypedData } from "@/lib/web3";
+import { buildPaperSubmissionPayload } from "@shared/eip712";
 import { queryClient } from "@/lib/queryClient";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import AuthorListEditor, { AuthorEntry } from "@/components/papers/AuthorListEditor";
 
 import {
   Card,
@@ -50,10 +53,18 @@ type PaperUploadFormValues = z.infer<typeof paperUploadSchema>;
 
 const Upload = () => {
   const [, setLocation] = useLocation();
-  const { isConnected, account, signer } = useWeb3();
+  const { isConnected, account, signer, chainId } = useWeb3();
   const { toast } = useToast();
   const [uploadProgress, setUploadProgress] = useState(0);
   const [isVerifying, setIsVerifying] = useState(false);
+  const [authors, setAuthors] = useState<AuthorEntry[]>([]);
+
+  // The submitting wallet starts out as the sole, corresponding author
+  React.useEffect(() => {
+    if (account) {
+      setAuthors([{ walletAddress: account, roles: [], isCorresponding: true }]);
+    }
+  }, [account]);
 
   // Redirect if not connected
   React.useEffect(() => {
@@ -98,7 +109,7 @@ const Upload = () => {
   });
 
   const onSubmit = async (data: PaperUploadFormValues) => {
-    if (!isConnected || !account) {
+    if (!isConnected || !account || !signer || !chainId) {
       toast({
         title: "Wallet not connected",
         description: "Please connect your wallet to upload research papers",
@@ -107,6 +118,15 @@ const Upload = () => {
       return;
     }
 
+    if (authors.some(author => !/^0x[0-9a-fA-F]{40}$/.test(author.walletAddress))) {
+      toast({
+        title: "Invalid author list",
+        description: "Every co-author needs a valid wallet address.",
+        variant: "destructive",
+      });
+      return;
+    }
+
     try {
       setUploadProgress(10);
       
@@ -168,13 +188,22 @@ const Upload = () => {
       
       setUploadProgress(80);
       
-      // Sign the submission with the wallet to verify ownership
+      // Sign the submission with the wallet to verify ownership. The typed
+      // data carries a nonce, deadline and chain id so it can't be replayed.
       let signature = "";
+      let nonce = 0;
+      let deadline = 0;
       try {
-        if (signer) {
-          const message = `I am submitting my research paper "${data.title}" with IPFS CID ${ipfsCid}`;
-          signature = await signer.signMessage(message);
-        }
+        ({ nonce, deadline } = await prepareTypedSubmission());
+        const payload = buildPaperSubmissionPayload(chainId, {
+          author: account,
+          title: data.title,
+          ipfsCid,
+          metadataHash: metadataCid,
+          nonce,
+          deadline,
+        });
+        signature = await signTypedData(signer, payload);
       } catch (signError: any) {
         console.error("Signature error:", signError);
         toast({
@@ -197,7 +226,10 @@ const Upload = () => {
           ipfsCid,
           metadataHash: metadataCid,
           signature,
-          walletAddress: account,
+          nonce,
+          deadline,
+          chainId,
+          authors,
         });
         
         setUploadProgress(100);
@@ -292,6 +324,18 @@ const Upload = () => {
                   )}
                 />
                 
+                <div className="space-y-2">
+                  <Label>Authors</Label>
+                  <AuthorListEditor
+                    authors={authors}
+                    onChange={setAuthors}
+                    submitterAddress={account || ""}
+                  />
+                  <p className="text-sm text-muted-foreground">
+                    List authors in order and credit their contributions. Co-authors confirm by signing with their own wallet.
+                  </p>
+                </div>
+                
                 <FormField
                   control={form.control}
                   name="pdfFile"
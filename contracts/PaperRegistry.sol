@@ -0,0 +1,116 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {AccessControl} from "@openzeppelin/contracts/access/AccessControl.sol";
+import {MerkleProof} from "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+
+/**
+ * @title PaperRegistry
+ * @notice Public record of the papers and peer reviews submitted to the
+ * platform. Registrations are submitted by the platform server, which holds
+ * REGISTRAR_ROLE, on behalf of the wallets that signed the submissions.
+ * Submissions can be registered one by one, or in batches by anchoring the
+ * root of a Merkle tree whose leaves the server publishes with their proofs.
+ */
+contract PaperRegistry is AccessControl {
+    bytes32 public constant REGISTRAR_ROLE = keccak256("REGISTRAR_ROLE");
+
+    struct Paper {
+        string ipfsCid;
+        string metadataHash; // CID of the paper's metadata on IPFS
+        address author;
+        uint64 registeredAt;
+    }
+
+    struct Review {
+        uint256 paperId;
+        bytes32 contentHash; // keccak256 of the review text
+        address reviewer;
+        uint64 registeredAt;
+    }
+
+    mapping(uint256 paperId => Paper) public papers;
+    mapping(uint256 reviewId => Review) public reviews;
+    mapping(bytes32 root => uint64 anchoredAt) public roots;
+
+    event PaperRegistered(uint256 indexed paperId, address indexed author, string ipfsCid, string metadataHash);
+    event ReviewRegistered(uint256 indexed reviewId, uint256 indexed paperId, address indexed reviewer, bytes32 contentHash);
+    event RootAnchored(bytes32 indexed root, uint256 leafCount);
+
+    error AlreadyRegistered();
+    error UnknownPaper();
+
+    constructor(address admin, address registrar) {
+        _grantRole(DEFAULT_ADMIN_ROLE, admin);
+        _grantRole(REGISTRAR_ROLE, registrar);
+    }
+
+    /**
+     * @notice Record a paper's content and author
+     * @param paperId The platform's paper ID
+     * @param ipfsCid The CID of the paper's PDF
+     * @param metadataHash The CID of the paper's metadata
+     * @param author The wallet that submitted the paper
+     */
+    function registerPaper(
+        uint256 paperId,
+        string calldata ipfsCid,
+        string calldata metadataHash,
+        address author
+    ) external onlyRole(REGISTRAR_ROLE) {
+        if (papers[paperId].registeredAt != 0) {
+            revert AlreadyRegistered();
+        }
+
+        papers[paperId] = Paper(ipfsCid, metadataHash, author, uint64(block.timestamp));
+        emit PaperRegistered(paperId, author, ipfsCid, metadataHash);
+    }
+
+    /**
+     * @notice Record the hash of a peer review of a registered paper
+     * @param reviewId The platform's review ID
+     * @param paperId The reviewed paper
+     * @param contentHash keccak256 of the review text
+     * @param reviewer The wallet that wrote the review
+     */
+    function registerReview(
+        uint256 reviewId,
+        uint256 paperId,
+        bytes32 contentHash,
+        address reviewer
+    ) external onlyRole(REGISTRAR_ROLE) {
+        if (reviews[reviewId].registeredAt != 0) {
+            revert AlreadyRegistered();
+        }
+        if (papers[paperId].registeredAt == 0) {
+            revert UnknownPaper();
+        }
+
+        reviews[reviewId] = Review(paperId, contentHash, reviewer, uint64(block.timestamp));
+        emit ReviewRegistered(reviewId, paperId, reviewer, contentHash);
+    }
+
+    /**
+     * @notice Record the root of a Merkle tree of paper and review leaves
+     * @param root The tree's root
+     * @param leafCount How many submissions the tree covers
+     */
+    function anchorRoot(bytes32 root, uint256 leafCount) external onlyRole(REGISTRAR_ROLE) {
+        if (roots[root] != 0) {
+            revert AlreadyRegistered();
+        }
+
+        roots[root] = uint64(block.timestamp);
+        emit RootAnchored(root, leafCount);
+    }
+
+    /**
+     * @notice Check that a leaf is included in an anchored Merkle tree
+     * @param root The anchored root
+     * @param leaf The leaf hash
+     * @param proof The sibling hashes from the leaf up to the root
+     */
+    function verifyLeaf(bytes32 root, bytes32 leaf, bytes32[] calldata proof) external view returns (bool) {
+        return roots[root] != 0 && MerkleProof.verifyCalldata(proof, root, leaf);
+    }
+}
@@ -0,0 +1,53 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import {AccessControl} from "@openzeppelin/contracts/access/AccessControl.sol";
+
+/**
+ * @title ResearchToken
+ * @notice ERC-20 token paid to researchers for papers, reviews and AI
+ * verification. Rewards are earned off-chain and minted in batches by the
+ * platform's settlement worker, which holds MINTER_ROLE.
+ */
+contract ResearchToken is ERC20, AccessControl {
+    bytes32 public constant MINTER_ROLE = keccak256("MINTER_ROLE");
+
+    /// @notice Off-chain reward IDs that have already been minted
+    mapping(uint256 rewardId => bool) public settled;
+
+    event RewardSettled(uint256 indexed rewardId, address indexed recipient, uint256 amount);
+
+    error LengthMismatch();
+
+    constructor(address admin, address minter) ERC20("DeSci Research Token", "DSCI") {
+        _grantRole(DEFAULT_ADMIN_ROLE, admin);
+        _grantRole(MINTER_ROLE, minter);
+    }
+
+    /**
+     * @notice Mint a batch of rewards. Rewards that were already settled are
+     * skipped, so a batch resent after a lost receipt can't pay twice.
+     * @param rewardIds The off-chain reward IDs
+     * @param recipients The wallet each reward is paid to
+     * @param amounts The amount of each reward, in token base units
+     */
+    function mintRewards(
+        uint256[] calldata rewardIds,
+        address[] calldata recipients,
+        uint256[] calldata amounts
+    ) external onlyRole(MINTER_ROLE) {
+        if (rewardIds.length != recipients.length || rewardIds.length != amounts.length) {
+            revert LengthMismatch();
+        }
+
+        for (uint256 i = 0; i < rewardIds.length; i++) {
+            if (settled[rewardIds[i]]) {
+                continue;
+            }
+            settled[rewardIds[i]] = true;
+            _mint(recipients[i], amounts[i]);
+            emit RewardSettled(rewardIds[i], recipients[i], amounts[i]);
+        }
+    }
+}
@@ -0,0 +1,48 @@
+CREATE TABLE "papers" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"title" text NOT NULL,
+	"abstract" text NOT NULL,
+	"author_id" integer NOT NULL,
+	"ipfs_cid" text NOT NULL,
+	"metadata_hash" text,
+	"status" text DEFAULT 'submitted' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"tags" text[],
+	"view_count" integer DEFAULT 0,
+	"token_count" integer DEFAULT 0,
+	"ai_verified" boolean DEFAULT false,
+	"ai_analysis" json
+);
+--> statement-breakpoint
+CREATE TABLE "reviews" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"paper_id" integer NOT NULL,
+	"reviewer_id" integer NOT NULL,
+	"content" text NOT NULL,
+	"rating" integer NOT NULL,
+	"ipfs_cid" text,
+	"tx_hash" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "tokens" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"amount" integer NOT NULL,
+	"reason" text NOT NULL,
+	"tx_hash" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	"wallet_address" text,
+	"institution" text,
+	"bio" text,
+	"profile_image" text,
+	"token_balance" integer DEFAULT 0,
+	CONSTRAINT "users_username_unique" UNIQUE("username"),
+	CONSTRAINT "users_wallet_address_unique" UNIQUE("wallet_address")
+);
@@ -0,0 +1,9 @@
+CREATE TABLE "signature_nonces" (
+	"wallet_address" text PRIMARY KEY NOT NULL,
+	"next_nonce" integer DEFAULT 0 NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "papers" ADD COLUMN "signed_payload" json;--> statement-breakpoint
+ALTER TABLE "papers" ADD COLUMN "signature" text;--> statement-breakpoint
+ALTER TABLE "reviews" ADD COLUMN "signed_payload" json;--> statement-breakpoint
+ALTER TABLE "reviews" ADD COLUMN "signature" text;
\ No newline at end of file
@@ -0,0 +1,8 @@
+CREATE TABLE "ipfs_uploads" (
+	"cid" text PRIMARY KEY NOT NULL,
+	"content_cid" text NOT NULL,
+	"size" integer NOT NULL,
+	"kind" text NOT NULL,
+	"uploader_id" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
@@ -0,0 +1,24 @@
+CREATE TABLE "paper_versions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"paper_id" integer NOT NULL,
+	"version" integer NOT NULL,
+	"title" text NOT NULL,
+	"abstract" text NOT NULL,
+	"tags" text[],
+	"ipfs_cid" text NOT NULL,
+	"metadata_hash" text,
+	"change_log" text,
+	"signed_payload" json,
+	"signature" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "paper_versions_paper_id_version_unique" UNIQUE("paper_id","version")
+);
+--> statement-breakpoint
+ALTER TABLE "papers" ADD COLUMN "current_version" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "reviews" ADD COLUMN "version_id" integer;--> statement-breakpoint
+-- Existing papers become version 1 of their own history
+INSERT INTO "paper_versions" ("paper_id", "version", "title", "abstract", "tags", "ipfs_cid", "metadata_hash", "signed_payload", "signature", "created_at")
+SELECT "id", 1, "title", "abstract", "tags", "ipfs_cid", "metadata_hash", "signed_payload", "signature", "created_at" FROM "papers";--> statement-breakpoint
+UPDATE "reviews" SET "version_id" = "paper_versions"."id"
+FROM "paper_versions"
+WHERE "paper_versions"."paper_id" = "reviews"."paper_id" AND "paper_versions"."version" = 1;
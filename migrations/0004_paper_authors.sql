@@ -0,0 +1,19 @@
+CREATE TABLE "paper_authors" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"paper_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"position" integer NOT NULL,
+	"is_corresponding" boolean DEFAULT false NOT NULL,
+	"roles" text[] DEFAULT '{}' NOT NULL,
+	"confirmed" boolean DEFAULT false NOT NULL,
+	"signed_payload" json,
+	"signature" text,
+	"confirmed_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "paper_authors_paper_id_user_id_unique" UNIQUE("paper_id","user_id"),
+	CONSTRAINT "paper_authors_paper_id_position_unique" UNIQUE("paper_id","position")
+);
+--> statement-breakpoint
+-- Existing papers have a single author, who submitted and confirmed them
+INSERT INTO "paper_authors" ("paper_id", "user_id", "position", "is_corresponding", "confirmed", "signed_payload", "signature", "confirmed_at", "created_at")
+SELECT "id", "author_id", 1, true, true, "signed_payload", "signature", "created_at", "created_at" FROM "papers";
@@ -0,0 +1,2 @@
+CREATE INDEX "papers_search_idx" ON "papers" USING gin ((setweight(to_tsvector('english', coalesce("title", '')), 'A') || setweight(to_tsvector('english', coalesce("abstract", '')), 'B')));--> statement-breakpoint
+CREATE INDEX "papers_tags_idx" ON "papers" USING gin ("tags");
\ No newline at end of file
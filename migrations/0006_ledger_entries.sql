@@ -0,0 +1,27 @@
+CREATE TABLE "ledger_entries" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"debit_account" text NOT NULL,
+	"credit_account" text NOT NULL,
+	"amount" integer NOT NULL,
+	"reason" text NOT NULL,
+	"paper_id" integer,
+	"review_id" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "ledger_entries_amount_positive" CHECK ("ledger_entries"."amount" > 0),
+	CONSTRAINT "ledger_entries_distinct_accounts" CHECK ("ledger_entries"."debit_account" <> "ledger_entries"."credit_account")
+);
+--> statement-breakpoint
+CREATE INDEX "ledger_entries_debit_account_idx" ON "ledger_entries" USING btree ("debit_account");--> statement-breakpoint
+CREATE INDEX "ledger_entries_credit_account_idx" ON "ledger_entries" USING btree ("credit_account");--> statement-breakpoint
+-- Earlier awards recorded no paper or review, so they are posted straight from
+-- the treasury to the user. Paper token counts those awards were guessed into
+-- show up as drift in /api/admin/ledger/verify.
+INSERT INTO "ledger_entries" ("debit_account", "credit_account", "amount", "reason", "created_at")
+SELECT 'treasury', 'user:' || "user_id", "amount",
+  CASE
+    WHEN "reason" = 'Paper submission' THEN 'paper_submission'
+    WHEN "reason" ILIKE '%verified by AI%' THEN 'ai_verification'
+    ELSE 'peer_review'
+  END,
+  "created_at"
+FROM "tokens" WHERE "amount" > 0;
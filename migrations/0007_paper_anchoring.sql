@@ -0,0 +1,3 @@
+ALTER TABLE "papers" ADD COLUMN "tx_hash" text;--> statement-breakpoint
+-- Reviews used to be stored with an empty placeholder instead of a transaction
+UPDATE "reviews" SET "tx_hash" = NULL WHERE "tx_hash" = '';
@@ -0,0 +1,22 @@
+CREATE TABLE "anchor_batches" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"root" text NOT NULL,
+	"leaf_count" integer NOT NULL,
+	"tx_hash" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "anchor_batches_root_unique" UNIQUE("root")
+);
+--> statement-breakpoint
+CREATE TABLE "anchor_leaves" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"batch_id" integer NOT NULL,
+	"item_type" text NOT NULL,
+	"item_id" integer NOT NULL,
+	"data" json NOT NULL,
+	"leaf" text NOT NULL,
+	"proof" text[] NOT NULL,
+	CONSTRAINT "anchor_leaves_item_unique" UNIQUE("item_type","item_id")
+);
+--> statement-breakpoint
+ALTER TABLE "anchor_leaves" ADD CONSTRAINT "anchor_leaves_batch_id_anchor_batches_id_fk" FOREIGN KEY ("batch_id") REFERENCES "public"."anchor_batches"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "anchor_leaves_batch_id_idx" ON "anchor_leaves" USING btree ("batch_id");
\ No newline at end of file
@@ -0,0 +1,36 @@
+CREATE TABLE "chain_events" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"chain_id" integer NOT NULL,
+	"contract_address" text NOT NULL,
+	"event_name" text NOT NULL,
+	"block_number" integer NOT NULL,
+	"block_hash" text NOT NULL,
+	"tx_hash" text NOT NULL,
+	"log_index" integer NOT NULL,
+	"args" json NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "chain_events_log_unique" UNIQUE("chain_id","block_number","log_index")
+);
+--> statement-breakpoint
+CREATE TABLE "indexer_cursors" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"chain_id" integer NOT NULL,
+	"contract_address" text NOT NULL,
+	"block_number" integer NOT NULL,
+	"block_hash" text,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "indexer_cursors_contract_unique" UNIQUE("chain_id","contract_address")
+);
+--> statement-breakpoint
+CREATE TABLE "token_holdings" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"chain_id" integer NOT NULL,
+	"token_address" text NOT NULL,
+	"wallet_address" text NOT NULL,
+	"balance" text NOT NULL,
+	"block_number" integer NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "token_holdings_wallet_unique" UNIQUE("chain_id","token_address","wallet_address")
+);
+--> statement-breakpoint
+CREATE INDEX "chain_events_contract_block_idx" ON "chain_events" USING btree ("chain_id","contract_address","block_number");
\ No newline at end of file
@@ -0,0 +1,22 @@
+CREATE TABLE "transactions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"tx_hash" text NOT NULL,
+	"kind" text NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"confirmations" integer DEFAULT 0 NOT NULL,
+	"block_number" integer,
+	"from_address" text NOT NULL,
+	"to_address" text NOT NULL,
+	"nonce" integer NOT NULL,
+	"data" text NOT NULL,
+	"gas_limit" text NOT NULL,
+	"gas_price" text NOT NULL,
+	"replaced_by" text,
+	"error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "transactions_tx_hash_unique" UNIQUE("tx_hash")
+);
+--> statement-breakpoint
+CREATE INDEX "transactions_status_idx" ON "transactions" USING btree ("status");--> statement-breakpoint
+CREATE INDEX "transactions_sender_nonce_idx" ON "transactions" USING btree ("from_address","nonce");
\ No newline at end of file
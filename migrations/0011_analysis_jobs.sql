@@ -0,0 +1,20 @@
+CREATE TABLE "analysis_jobs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"paper_id" integer NOT NULL,
+	"trigger" text NOT NULL,
+	"requested_by" integer,
+	"status" text DEFAULT 'queued' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"max_attempts" integer NOT NULL,
+	"run_at" timestamp DEFAULT now() NOT NULL,
+	"started_at" timestamp,
+	"finished_at" timestamp,
+	"error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "analysis_jobs" ADD CONSTRAINT "analysis_jobs_paper_id_papers_id_fk" FOREIGN KEY ("paper_id") REFERENCES "public"."papers"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "analysis_jobs" ADD CONSTRAINT "analysis_jobs_requested_by_users_id_fk" FOREIGN KEY ("requested_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "analysis_jobs_status_run_at_idx" ON "analysis_jobs" USING btree ("status","run_at");--> statement-breakpoint
+CREATE INDEX "analysis_jobs_paper_idx" ON "analysis_jobs" USING btree ("paper_id");
\ No newline at end of file
@@ -0,0 +1,9 @@
+CREATE TABLE "paper_documents" (
+	"cid" text PRIMARY KEY NOT NULL,
+	"format" text NOT NULL,
+	"text" text NOT NULL,
+	"sections" json NOT NULL,
+	"page_count" integer,
+	"extractor_version" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
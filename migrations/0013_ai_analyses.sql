@@ -0,0 +1,19 @@
+CREATE TABLE "ai_analyses" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"paper_id" integer NOT NULL,
+	"job_id" integer,
+	"ipfs_cid" text NOT NULL,
+	"provider" text NOT NULL,
+	"model" text NOT NULL,
+	"prompt_version" integer NOT NULL,
+	"excerpt" boolean DEFAULT false NOT NULL,
+	"result" json NOT NULL,
+	"prompt_tokens" integer,
+	"completion_tokens" integer,
+	"total_tokens" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "ai_analyses" ADD CONSTRAINT "ai_analyses_paper_id_papers_id_fk" FOREIGN KEY ("paper_id") REFERENCES "public"."papers"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ai_analyses" ADD CONSTRAINT "ai_analyses_job_id_analysis_jobs_id_fk" FOREIGN KEY ("job_id") REFERENCES "public"."analysis_jobs"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "ai_analyses_paper_idx" ON "ai_analyses" USING btree ("paper_id");
\ No newline at end of file
@@ -0,0 +1,9 @@
+CREATE TABLE "paper_rewards" (
+	"paper_id" integer NOT NULL,
+	"reason" text NOT NULL,
+	"amount" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "paper_rewards_paper_id_reason_pk" PRIMARY KEY("paper_id","reason")
+);
+--> statement-breakpoint
+ALTER TABLE "paper_rewards" ADD CONSTRAINT "paper_rewards_paper_id_papers_id_fk" FOREIGN KEY ("paper_id") REFERENCES "public"."papers"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,19 @@
+CREATE TABLE "paper_status_history" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"paper_id" integer NOT NULL,
+	"from_status" text,
+	"to_status" text NOT NULL,
+	"source" text NOT NULL,
+	"changed_by" integer,
+	"note" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "paper_status_history" ADD CONSTRAINT "paper_status_history_paper_id_papers_id_fk" FOREIGN KEY ("paper_id") REFERENCES "public"."papers"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "paper_status_history" ADD CONSTRAINT "paper_status_history_changed_by_users_id_fk" FOREIGN KEY ("changed_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "paper_status_history_paper_idx" ON "paper_status_history" USING btree ("paper_id");--> statement-breakpoint
+-- Papers with peer reviews used to be marked "reviewed"
+UPDATE "papers" SET "status" = 'under_review' WHERE "status" = 'reviewed';--> statement-breakpoint
+-- Existing papers start their history in the status they are in now
+INSERT INTO "paper_status_history" ("paper_id", "from_status", "to_status", "source", "created_at")
+SELECT "id", NULL, "status", 'system', "created_at" FROM "papers";
@@ -0,0 +1,33 @@
+CREATE TABLE "editorial_decisions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"paper_id" integer NOT NULL,
+	"editor_id" integer NOT NULL,
+	"decision" text NOT NULL,
+	"rationale" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "review_invitations" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"paper_id" integer NOT NULL,
+	"reviewer_id" integer NOT NULL,
+	"invited_by" integer NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"message" text,
+	"due_at" timestamp NOT NULL,
+	"responded_at" timestamp,
+	"review_id" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "is_editor" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "editorial_decisions" ADD CONSTRAINT "editorial_decisions_paper_id_papers_id_fk" FOREIGN KEY ("paper_id") REFERENCES "public"."papers"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "editorial_decisions" ADD CONSTRAINT "editorial_decisions_editor_id_users_id_fk" FOREIGN KEY ("editor_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "review_invitations" ADD CONSTRAINT "review_invitations_paper_id_papers_id_fk" FOREIGN KEY ("paper_id") REFERENCES "public"."papers"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "review_invitations" ADD CONSTRAINT "review_invitations_reviewer_id_users_id_fk" FOREIGN KEY ("reviewer_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "review_invitations" ADD CONSTRAINT "review_invitations_invited_by_users_id_fk" FOREIGN KEY ("invited_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "review_invitations" ADD CONSTRAINT "review_invitations_review_id_reviews_id_fk" FOREIGN KEY ("review_id") REFERENCES "public"."reviews"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "editorial_decisions_paper_idx" ON "editorial_decisions" USING btree ("paper_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "review_invitations_open_idx" ON "review_invitations" USING btree ("paper_id","reviewer_id") WHERE "review_invitations"."status" in ('pending', 'accepted');--> statement-breakpoint
+CREATE INDEX "review_invitations_reviewer_idx" ON "review_invitations" USING btree ("reviewer_id");
\ No newline at end of file
@@ -0,0 +1,5 @@
+-- Revised papers kept the signature of their first version; give every paper
+-- the signature of its current version, which covers its current CID and hash
+UPDATE "papers" SET "signed_payload" = "paper_versions"."signed_payload", "signature" = "paper_versions"."signature"
+FROM "paper_versions"
+WHERE "paper_versions"."paper_id" = "papers"."id" AND "paper_versions"."version" = "papers"."current_version";
@@ -0,0 +1,14 @@
+ALTER TABLE "anchor_leaves" DROP CONSTRAINT "anchor_leaves_item_unique";--> statement-breakpoint
+ALTER TABLE "anchor_leaves" ADD COLUMN "item_version" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "anchor_leaves" ADD CONSTRAINT "anchor_leaves_item_unique" UNIQUE("item_type","item_id","item_version");--> statement-breakpoint
+-- Existing paper leaves were built from whichever version was current when
+-- they were batched; find it by the CID they recorded
+UPDATE "anchor_leaves" SET "item_version" = COALESCE((
+	SELECT max("paper_versions"."version") FROM "paper_versions"
+	WHERE "paper_versions"."paper_id" = "anchor_leaves"."item_id" AND "paper_versions"."ipfs_cid" = "anchor_leaves"."data"->>'ipfsCid'
+), 1)
+WHERE "item_type" = 'paper';--> statement-breakpoint
+-- Papers revised since they were batched are anchored again
+UPDATE "papers" SET "tx_hash" = NULL
+WHERE EXISTS (SELECT 1 FROM "anchor_leaves" WHERE "item_type" = 'paper' AND "item_id" = "papers"."id")
+AND NOT EXISTS (SELECT 1 FROM "anchor_leaves" WHERE "item_type" = 'paper' AND "item_id" = "papers"."id" AND "item_version" = "papers"."current_version");
@@ -0,0 +1,7 @@
+-- The submission reward is now paid at most once per paper; record the papers
+-- already paid it so they are never paid again
+INSERT INTO "paper_rewards" ("paper_id", "reason", "amount", "created_at")
+SELECT "paper_id", 'paper_submission', sum("amount"), min("created_at") FROM "ledger_entries"
+WHERE "reason" = 'paper_submission' AND "paper_id" IS NOT NULL AND "debit_account" = 'treasury'
+GROUP BY "paper_id"
+ON CONFLICT DO NOTHING;
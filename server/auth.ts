@@ -0,0 +1,301 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import { randomBytes } from "crypto";
+import { parseSiweMessage } from "@shared/siwe";
+import type { PaperAuthorWithUser, PaperWithAuthor, PublicUser, ReviewWithReviewer, User } from "@shared/schema";
+import { storage, database } from "./storage";
+import { verifySignature } from "./services/blockchain";
+
+declare module "express-session" {
+  interface SessionData {
+    siweNonce?: string;
+    userId?: number;
+    walletAddress?: string;
+  }
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: User;
+    }
+  }
+}
+
+// How long a signed-in session stays valid
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Reject SIWE messages issued longer ago than this, even if they carry no expiry
+const MAX_MESSAGE_AGE_MS = 10 * 60 * 1000;
+
+/**
+ * Find the platform user for a wallet, creating one on first sign-in
+ * @param walletAddress The wallet address that signed in
+ * @returns The user record for the wallet
+ */
+export async function findOrCreateWalletUser(walletAddress: string): Promise<User> {
+  const address = walletAddress.toLowerCase();
+
+  const existing = await storage.getUserByWalletAddress(address);
+  if (existing) {
+    return existing;
+  }
+
+  const username = await uniqueUsernameFor(address);
+  const user = await storage.createUser({
+    username,
+    password: "wallet_auth", // Placeholder for Web3 auth
+    walletAddress: address,
+  });
+
+  return user;
+}
+
+/**
+ * Read TRUST_PROXY as Express's "trust proxy" setting: `true`, the number of
+ * proxies in front of the server, or a comma-separated list of their addresses
+ */
+function parseTrustProxy(value: string): boolean | number | string {
+  if (value === "true") return true;
+  if (value === "false") return false;
+  if (/^\d+$/.test(value)) return Number(value);
+  return value;
+}
+
+/**
+ * Derive a default username from a wallet address, using more of the address
+ * until the name is free. Researchers can change it on their profile.
+ */
+async function uniqueUsernameFor(address: string): Promise<string> {
+  for (let length = 6; length < 40; length += 2) {
+    const username = `researcher_${address.slice(2, 2 + length)}`;
+    if (!(await storage.getUserByUsername(username))) {
+      return username;
+    }
+  }
+  return `researcher_${address.slice(2)}`;
+}
+
+/**
+ * Strip credentials from a user before sending it to a client
+ */
+export function toPublicUser(user: PublicUser & { password?: string | null }): PublicUser {
+  const { password, ...publicUser } = user;
+  return publicUser;
+}
+
+/**
+ * Strip credentials from a paper's submitting author and author list
+ */
+export function toPublicPaper(paper: PaperWithAuthor): PaperWithAuthor {
+  return { ...paper, author: toPublicUser(paper.author), authors: toPublicAuthors(paper.authors) };
+}
+
+/**
+ * Strip credentials from the users in a paper's author list
+ */
+export function toPublicAuthors(authors: PaperAuthorWithUser[]): PaperAuthorWithUser[] {
+  return authors.map((author) => ({ ...author, user: toPublicUser(author.user) }));
+}
+
+/**
+ * Strip credentials from a review's reviewer
+ */
+export function toPublicReview(review: ReviewWithReviewer): ReviewWithReviewer {
+  return { ...review, reviewer: toPublicUser(review.reviewer) };
+}
+
+/**
+ * Middleware that rejects the request with 401 unless the session belongs to
+ * a signed-in wallet. The signed-in user is available as `req.user`.
+ */
+export async function requireAuth(req: Request, res: Response, next: NextFunction) {
+  try {
+    if (!req.session.userId) {
+      return res.status(401).json({ message: "Sign in with your wallet to continue" });
+    }
+
+    const user = await storage.getUser(req.session.userId);
+    if (!user) {
+      req.session.destroy(() => {});
+      return res.status(401).json({ message: "Session user no longer exists" });
+    }
+
+    req.user = user;
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Middleware that only lets through signed-in wallets listed in the
+ * comma-separated ADMIN_WALLETS environment variable
+ */
+export async function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  await requireAuth(req, res, (error?: unknown) => {
+    if (error) {
+      return next(error);
+    }
+
+    const adminWallets = (process.env.ADMIN_WALLETS || "")
+      .split(",")
+      .map((address) => address.trim().toLowerCase())
+      .filter((address) => address.length > 0);
+    if (!req.user!.walletAddress || !adminWallets.includes(req.user!.walletAddress)) {
+      return res.status(403).json({ message: "Only administrators can do this" });
+    }
+
+    next();
+  });
+}
+
+/**
+ * Middleware that only lets through signed-in users an administrator has
+ * made editors
+ */
+export async function requireEditor(req: Request, res: Response, next: NextFunction) {
+  await requireAuth(req, res, (error?: unknown) => {
+    if (error) {
+      return next(error);
+    }
+
+    if (!req.user!.isEditor) {
+      return res.status(403).json({ message: "Only editors can do this" });
+    }
+
+    next();
+  });
+}
+
+/**
+ * Set up cookie sessions and the Sign-In With Ethereum (EIP-4361) endpoints
+ * @param app The Express application
+ */
+export function setupAuth(app: Express) {
+  const sessionSecret = process.env.SESSION_SECRET;
+  if (!sessionSecret && app.get("env") === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+
+  let store: session.Store;
+  if (database) {
+    const PgStore = connectPg(session);
+    store = new PgStore({
+      conString: process.env.DATABASE_URL,
+      createTableIfMissing: true,
+      ttl: SESSION_TTL_MS / 1000,
+    });
+  } else {
+    const MemoryStore = createMemoryStore(session);
+    store = new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
+  }
+
+  // X-Forwarded-* headers are only believed from proxies that are configured
+  const trustProxy = process.env.TRUST_PROXY;
+  if (trustProxy) {
+    app.set("trust proxy", parseTrustProxy(trustProxy));
+  }
+  app.use(
+    session({
+      secret: sessionSecret || "desci-dev-session-secret",
+      resave: false,
+      saveUninitialized: false,
+      store,
+      cookie: {
+        httpOnly: true,
+        sameSite: "lax",
+        secure: app.get("env") === "production",
+        maxAge: SESSION_TTL_MS,
+      },
+    })
+  );
+
+  // Issue a one-time nonce for the next SIWE message
+  app.get("/api/auth/nonce", (req, res) => {
+    const nonce = randomBytes(16).toString("hex");
+    req.session.siweNonce = nonce;
+    req.session.save((error) => {
+      if (error) {
+        return res.status(500).json({ message: `Error creating nonce: ${error.message}` });
+      }
+      res.json({ nonce });
+    });
+  });
+
+  // Verify a signed SIWE message and start a session for its wallet
+  app.post("/api/auth/verify", async (req, res) => {
+    try {
+      const { message, signature } = req.body;
+      if (typeof message !== "string" || typeof signature !== "string") {
+        return res.status(400).json({ message: "Message and signature are required" });
+      }
+
+      const fields = parseSiweMessage(message);
+      if (!fields) {
+        return res.status(400).json({ message: "Malformed sign-in message" });
+      }
+
+      const expectedNonce = req.session.siweNonce;
+      if (!expectedNonce || fields.nonce !== expectedNonce) {
+        return res.status(401).json({ message: "Invalid or expired nonce" });
+      }
+
+      if (fields.domain !== req.get("host")) {
+        return res.status(401).json({ message: `Message is for ${fields.domain}, not ${req.get("host")}` });
+      }
+
+      const now = Date.now();
+      const issuedAt = Date.parse(fields.issuedAt);
+      if (Number.isNaN(issuedAt) || now - issuedAt > MAX_MESSAGE_AGE_MS || issuedAt - now > MAX_MESSAGE_AGE_MS) {
+        return res.status(401).json({ message: "Sign-in message is too old" });
+      }
+      if (fields.expirationTime && Date.parse(fields.expirationTime) <= now) {
+        return res.status(401).json({ message: "Sign-in message has expired" });
+      }
+
+      if (!verifySignature(message, signature, fields.address)) {
+        return res.status(401).json({ message: "Invalid signature" });
+      }
+
+      const user = await findOrCreateWalletUser(fields.address);
+
+      // Start a fresh session so the nonce can't be reused and the old
+      // session id can't be fixed by an attacker
+      req.session.regenerate((error) => {
+        if (error) {
+          return res.status(500).json({ message: `Error starting session: ${error.message}` });
+        }
+
+        req.session.userId = user.id;
+        req.session.walletAddress = user.walletAddress!;
+        req.session.save((saveError) => {
+          if (saveError) {
+            return res.status(500).json({ message: `Error starting session: ${saveError.message}` });
+          }
+          res.json(toPublicUser(user));
+        });
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: `Error verifying sign-in: ${error.message}` });
+    }
+  });
+
+  // Get the signed-in user for the current session
+  app.get("/api/auth/session", requireAuth, (req, res) => {
+    res.json(toPublicUser(req.user!));
+  });
+
+  // End the current session
+  app.post("/api/auth/logout", (req, res) => {
+    req.session.destroy((error) => {
+      if (error) {
+        return res.status(500).json({ message: `Error signing out: ${error.message}` });
+      }
+      res.clearCookie("connect.sid");
+      res.status(204).end();
+    });
+  });
+}
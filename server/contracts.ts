@@ -0,0 +1,115 @@
+import fs from "fs";
+import path from "path";
+import { createRequire } from "module";
+import { pathToFileURL } from "url";
+import { ethers } from "ethers";
+import { getServerWallet } from "./services/blockchain";
+
+const CONTRACTS_FOLDER = path.resolve(process.cwd(), "contracts");
+
+const require = createRequire(import.meta.url);
+
+export interface CompiledContract {
+  abi: ethers.InterfaceAbi;
+  bytecode: string;
+}
+
+interface Deployment {
+  envVar: string; // Where the server expects the deployed address
+  constructorArgs: (deployer: string) => unknown[];
+}
+
+// Contracts that `npm run contracts:deploy` knows how to deploy
+const DEPLOYMENTS: Record<string, Deployment> = {
+  // The deployer administers the token and, as the server key, mints rewards
+  ResearchToken: {
+    envVar: "REWARD_TOKEN_ADDRESS",
+    constructorArgs: (deployer) => [deployer, deployer],
+  },
+  // The deployer administers the registry and, as the server key, registers submissions
+  PaperRegistry: {
+    envVar: "PAPER_REGISTRY_ADDRESS",
+    constructorArgs: (deployer) => [deployer, deployer],
+  },
+};
+
+/**
+ * Compile a contract from the contracts folder with solc-js. Imports such as
+ * "@openzeppelin/contracts/..." are resolved from node_modules.
+ * @param name The contract name, which must match its file name
+ * @returns The contract's ABI and creation bytecode
+ */
+export async function compileContract(name: string): Promise<CompiledContract> {
+  const { default: solc } = await import("solc");
+  const sourceName = `${name}.sol`;
+
+  const input = {
+    language: "Solidity",
+    sources: {
+      [sourceName]: { content: fs.readFileSync(path.join(CONTRACTS_FOLDER, sourceName), "utf-8") },
+    },
+    settings: {
+      optimizer: { enabled: true, runs: 200 },
+      // Avoid opcodes newer than Paris so the bytecode runs on every network
+      // and development node we deploy to
+      evmVersion: "paris",
+      outputSelection: { "*": { "*": ["abi", "evm.bytecode.object"] } },
+    },
+  };
+
+  const output = JSON.parse(solc.compile(JSON.stringify(input), { import: resolveImport }));
+  const errors = (output.errors || []).filter((error: any) => error.severity === "error");
+  if (errors.length > 0) {
+    throw new Error(`Failed to compile ${sourceName}:\n${errors.map((error: any) => error.formattedMessage).join("\n")}`);
+  }
+
+  const contract = output.contracts[sourceName][name];
+  return { abi: contract.abi, bytecode: `0x${contract.evm.bytecode.object}` };
+}
+
+function resolveImport(importPath: string): { contents: string } | { error: string } {
+  try {
+    return { contents: fs.readFileSync(require.resolve(importPath), "utf-8") };
+  } catch {
+    return { error: `File not found: ${importPath}` };
+  }
+}
+
+/**
+ * Compile and deploy a contract from the server wallet
+ * @param name The contract name, one of DEPLOYMENTS
+ * @returns The deployed contract's address
+ */
+export async function deployContract(name: string): Promise<string> {
+  const deployment = DEPLOYMENTS[name];
+  if (!deployment) {
+    throw new Error(`Unknown contract "${name}", expected one of ${Object.keys(DEPLOYMENTS).join(", ")}`);
+  }
+
+  const wallet = getServerWallet();
+  if (!wallet) {
+    throw new Error("BLOCKCHAIN_PRIVATE_KEY must be set to deploy contracts");
+  }
+
+  const { abi, bytecode } = await compileContract(name);
+  const factory = new ethers.ContractFactory(abi, bytecode, wallet);
+  const contract = await factory.deploy(...deployment.constructorArgs(wallet.address));
+  await contract.waitForDeployment();
+  return await contract.getAddress();
+}
+
+// Allow `npm run contracts:deploy -- <Contract>` to deploy against the
+// configured NETWORK (or BLOCKCHAIN_RPC_URL), e.g. a local Hardhat or Anvil node
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  (async () => {
+    const names = process.argv.length > 2 ? process.argv.slice(2) : Object.keys(DEPLOYMENTS);
+    for (const name of names) {
+      const address = await deployContract(name);
+      console.log(`Deployed ${name} at ${address}`);
+      console.log(`  ${DEPLOYMENTS[name].envVar}=${address}`);
+    }
+  })().catch((error) => {
+    console.error("Deployment failed:", error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,19 @@
+import { Pool, neonConfig } from '@neondatabase/serverless';
+import { drizzle, type NeonDatabase } from 'drizzle-orm/neon-serverless';
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+neonConfig.webSocketConstructor = ws;
+
+export type Database = NeonDatabase<typeof schema>;
+
+/**
+ * Create a Drizzle client bound to the Postgres database at `connectionString`
+ * @param connectionString Postgres connection URL, usually DATABASE_URL
+ * @returns The pool (so callers can close it) and the Drizzle client
+ */
+export function createDatabase(connectionString: string): { pool: Pool; db: Database } {
+  const pool = new Pool({ connectionString });
+  const db = drizzle({ client: pool, schema });
+  return { pool, db };
+}
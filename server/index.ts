@@ -1,6 +1,13 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { database } from "./storage";
+import { prepareDatabase } from "./migrate";
+import { startSettlementWorker } from "./services/settlement";
+import { startAnchoringWorker } from "./services/anchoring";
+import { startIndexerWorker } from "./services/indexer";
+import { startTransactionWatcher } from "./services/transactions";
+import { startAnalysisWorker } from "./services/analysis";
 import dotenv from 'dotenv';
 dotenv.config();
 
@@ -39,6 +46,10 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  if (database) {
+    await prepareDatabase(database);
+  }
+
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -68,4 +79,10 @@ app.use((req, res, next) => {
   }, () => {
     log(`serving on port ${port}`);
   });
+
+  startSettlementWorker();
+  startAnchoringWorker();
+  startIndexerWorker();
+  startTransactionWatcher();
+  startAnalysisWorker();
 })();
@@ -0,0 +1,296 @@
+import fs from "fs";
+import path from "path";
+import { pathToFileURL } from "url";
+import { is, sql } from "drizzle-orm";
+import { getTableConfig, PgTable } from "drizzle-orm/pg-core";
+import { migrate } from "drizzle-orm/neon-serverless/migrator";
+import { readMigrationFiles } from "drizzle-orm/migrator";
+import * as schema from "@shared/schema";
+import { createDatabase, type Database } from "./db";
+
+const MIGRATIONS_FOLDER = path.resolve(process.cwd(), process.env.MIGRATIONS_DIR || "migrations");
+const MIGRATIONS_SCHEMA = "drizzle";
+const MIGRATIONS_TABLE = "__drizzle_migrations";
+
+export interface MigrationStatus {
+  applied: string[];
+  pending: string[];
+}
+
+export interface SchemaDrift {
+  table: string;
+  column?: string;
+  problem: string;
+}
+
+/**
+ * List which checked-in migrations have been applied to the database
+ * @param db The database to inspect
+ * @returns Migration tags split into applied and pending
+ */
+export async function getMigrationStatus(db: Database): Promise<MigrationStatus> {
+  const journal = readJournal();
+  const migrations = readMigrationFiles({ migrationsFolder: MIGRATIONS_FOLDER });
+  const lastApplied = await getLastAppliedMigration(db);
+
+  const status: MigrationStatus = { applied: [], pending: [] };
+  migrations.forEach((migration, index) => {
+    const tag = journal[index];
+    if (lastApplied !== null && migration.folderMillis <= lastApplied) {
+      status.applied.push(tag);
+    } else {
+      status.pending.push(tag);
+    }
+  });
+
+  return status;
+}
+
+/**
+ * Apply every pending migration in ./migrations. Applied migrations are
+ * recorded in drizzle.__drizzle_migrations by the Drizzle migrator.
+ *
+ * Databases created earlier with `drizzle-kit push` already contain the
+ * initial tables but have no migration history, so the initial migration is
+ * recorded as applied instead of being run against them.
+ * @param db The database to migrate
+ * @returns The tags of the migrations that were applied
+ */
+export async function runMigrations(db: Database): Promise<string[]> {
+  await baselinePushedDatabase(db);
+
+  const { pending } = await getMigrationStatus(db);
+  if (pending.length === 0) {
+    return [];
+  }
+
+  await migrate(db, {
+    migrationsFolder: MIGRATIONS_FOLDER,
+    migrationsSchema: MIGRATIONS_SCHEMA,
+    migrationsTable: MIGRATIONS_TABLE,
+  });
+
+  return pending;
+}
+
+/**
+ * Compare the live database against the tables declared in shared/schema.ts
+ * @param db The database to inspect
+ * @returns Every missing table, missing column, or column whose type or
+ * nullability differs. An empty array means the schema matches.
+ */
+export async function checkSchemaDrift(db: Database): Promise<SchemaDrift[]> {
+  const result = await db.execute<{
+    table_name: string;
+    column_name: string;
+    udt_name: string;
+    is_nullable: "YES" | "NO";
+  }>(sql`
+    select table_name, column_name, udt_name, is_nullable
+    from information_schema.columns
+    where table_schema = 'public'
+  `);
+
+  const liveColumns = new Map<string, Map<string, { udtName: string; nullable: boolean }>>();
+  for (const row of result.rows) {
+    if (!liveColumns.has(row.table_name)) {
+      liveColumns.set(row.table_name, new Map());
+    }
+    liveColumns.get(row.table_name)!.set(row.column_name, {
+      udtName: row.udt_name,
+      nullable: row.is_nullable === "YES",
+    });
+  }
+
+  const drift: SchemaDrift[] = [];
+  for (const table of getSchemaTables()) {
+    const config = getTableConfig(table);
+    const live = liveColumns.get(config.name);
+
+    if (!live) {
+      drift.push({ table: config.name, problem: "table is missing" });
+      continue;
+    }
+
+    for (const column of config.columns) {
+      const liveColumn = live.get(column.name);
+      if (!liveColumn) {
+        drift.push({ table: config.name, column: column.name, problem: "column is missing" });
+        continue;
+      }
+
+      const expectedType = toUdtName(column.getSQLType());
+      if (expectedType && expectedType !== liveColumn.udtName) {
+        drift.push({
+          table: config.name,
+          column: column.name,
+          problem: `type is ${liveColumn.udtName}, expected ${expectedType}`,
+        });
+      }
+
+      if (column.notNull === liveColumn.nullable) {
+        drift.push({
+          table: config.name,
+          column: column.name,
+          problem: column.notNull ? "column is nullable, expected NOT NULL" : "column is NOT NULL, expected nullable",
+        });
+      }
+    }
+  }
+
+  return drift;
+}
+
+/**
+ * Startup step for the Postgres backend: apply pending migrations (unless
+ * MIGRATE_ON_START=false) and refuse to continue when migrations are still
+ * pending or the live schema no longer matches shared/schema.ts.
+ * @param db The database the server is about to use
+ */
+export async function prepareDatabase(db: Database): Promise<void> {
+  if (process.env.MIGRATE_ON_START !== "false") {
+    const applied = await runMigrations(db);
+    for (const tag of applied) {
+      console.log(`Applied migration ${tag}`);
+    }
+  }
+
+  const { pending } = await getMigrationStatus(db);
+  if (pending.length > 0) {
+    throw new Error(`Database has pending migrations: ${pending.join(", ")}. Run "npm run db:migrate".`);
+  }
+
+  const drift = await checkSchemaDrift(db);
+  if (drift.length > 0) {
+    const details = drift
+      .map((d) => `  - ${d.table}${d.column ? `.${d.column}` : ""}: ${d.problem}`)
+      .join("\n");
+    throw new Error(
+      `Database schema has drifted from shared/schema.ts:\n${details}\n` +
+      `Generate a migration with "npm run db:generate" and apply it with "npm run db:migrate".`
+    );
+  }
+}
+
+// readMigrationFiles does not expose migration tags, so read them from the
+// journal it is built from; both are in the same order.
+function readJournal(): string[] {
+  const journal: { entries: { tag: string }[] } = JSON.parse(
+    fs.readFileSync(path.join(MIGRATIONS_FOLDER, "meta", "_journal.json"), "utf-8")
+  );
+  return journal.entries.map((entry) => entry.tag);
+}
+
+async function getLastAppliedMigration(db: Database): Promise<number | null> {
+  const exists = await db.execute<{ exists: boolean }>(sql`
+    select exists (
+      select 1 from information_schema.tables
+      where table_schema = ${MIGRATIONS_SCHEMA} and table_name = ${MIGRATIONS_TABLE}
+    ) as "exists"
+  `);
+  if (!exists.rows[0]?.exists) {
+    return null;
+  }
+
+  const result = await db.execute<{ created_at: string | null }>(sql`
+    select created_at from ${sql.identifier(MIGRATIONS_SCHEMA)}.${sql.identifier(MIGRATIONS_TABLE)}
+    order by created_at desc limit 1
+  `);
+  const createdAt = result.rows[0]?.created_at;
+  return createdAt == null ? null : Number(createdAt);
+}
+
+async function baselinePushedDatabase(db: Database): Promise<void> {
+  if ((await getLastAppliedMigration(db)) !== null) {
+    return;
+  }
+
+  const existing = await db.execute<{ exists: boolean }>(sql`
+    select exists (
+      select 1 from information_schema.tables
+      where table_schema = 'public' and table_name = 'papers'
+    ) as "exists"
+  `);
+  if (!existing.rows[0]?.exists) {
+    return;
+  }
+
+  const [initial] = readMigrationFiles({ migrationsFolder: MIGRATIONS_FOLDER });
+  await db.execute(sql`create schema if not exists ${sql.identifier(MIGRATIONS_SCHEMA)}`);
+  await db.execute(sql`
+    create table if not exists ${sql.identifier(MIGRATIONS_SCHEMA)}.${sql.identifier(MIGRATIONS_TABLE)} (
+      id serial primary key,
+      hash text not null,
+      created_at bigint
+    )
+  `);
+  await db.execute(sql`
+    insert into ${sql.identifier(MIGRATIONS_SCHEMA)}.${sql.identifier(MIGRATIONS_TABLE)} ("hash", "created_at")
+    values (${initial.hash}, ${initial.folderMillis})
+  `);
+  console.log("Existing database created by drizzle-kit push, recorded the initial migration as applied");
+}
+
+function getSchemaTables(): PgTable[] {
+  return Object.values(schema as Record<string, unknown>).filter(
+    (value): value is PgTable => is(value, PgTable)
+  );
+}
+
+// Map Drizzle's SQL type names onto Postgres udt names from information_schema
+function toUdtName(sqlType: string): string | null {
+  if (sqlType.endsWith("[]")) {
+    const element = toUdtName(sqlType.slice(0, -2));
+    return element ? `_${element}` : null;
+  }
+
+  switch (sqlType) {
+    case "serial":
+    case "integer":
+      return "int4";
+    case "bigserial":
+    case "bigint":
+      return "int8";
+    case "text":
+      return "text";
+    case "boolean":
+      return "bool";
+    case "timestamp":
+      return "timestamp";
+    case "timestamp with time zone":
+      return "timestamptz";
+    case "json":
+      return "json";
+    case "jsonb":
+      return "jsonb";
+    default:
+      // Parameterised types such as varchar(255) or numeric(10, 2)
+      return sqlType.split("(")[0] || null;
+  }
+}
+
+// Allow `npm run db:migrate` to apply migrations without starting the server
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  (async () => {
+    if (!process.env.DATABASE_URL) {
+      throw new Error("DATABASE_URL, ensure the database is provisioned");
+    }
+
+    const { pool, db } = createDatabase(process.env.DATABASE_URL);
+    try {
+      const applied = await runMigrations(db);
+      console.log(applied.length > 0 ? `Applied ${applied.join(", ")}` : "No pending migrations");
+
+      const drift = await checkSchemaDrift(db);
+      if (drift.length > 0) {
+        console.error("Schema drift detected:", drift);
+        process.exitCode = 1;
+      }
+    } finally {
+      await pool.end();
+    }
+  })().catch((error) => {
+    console.error("Migration failed:", error);
+    process.exit(1);
+  });
+}
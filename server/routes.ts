@@ -2,10 +2,53 @@ import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { z } from "zod";
-import { insertPaperSchema, insertReviewSchema } from "@shared/schema";
-import { verifySignature } from "./services/blockchain";
-import { uploadToIPFS, checkIPFSContent } from "./services/ipfs";
-import { analyzePaperContent } from "./services/openai";
+import {
+  insertPaperSchema,
+  insertReviewSchema,
+  updateUserProfileSchema,
+  type PaperStatusHistoryEntryWithUser,
+  type PublicUser,
+} from "@shared/schema";
+import {
+  buildAuthorshipConfirmationPayload,
+  buildPaperSubmissionPayload,
+  buildPaperRevisionPayload,
+  buildReviewPayload,
+} from "@shared/eip712";
+import { CREDIT_ROLES } from "@shared/credit";
+import { paperSearchQuerySchema } from "@shared/search";
+import { ANCHOR_TYPES, type AnchorType } from "@shared/anchoring";
+import { chainEventQuerySchema } from "@shared/indexer";
+import { AUTHOR_STATUSES, PAPER_STATUSES, PAPER_STATUS_LABELS, isFinalStatus } from "@shared/lifecycle";
+import {
+  DECISION_STATUSES,
+  DEFAULT_REVIEW_DAYS,
+  EDITORIAL_DECISIONS,
+  EDITORIAL_QUEUE_STATUSES,
+  invitationBarsReview,
+  OPEN_INVITATION_STATUSES,
+} from "@shared/editorial";
+import { CHAIN_ID, getNetworkInfo, verifySignedSubmission } from "./services/blockchain";
+import {
+  setupAuth,
+  requireAuth,
+  requireAdmin,
+  requireEditor,
+  findOrCreateWalletUser,
+  toPublicAuthors,
+  toPublicPaper,
+  toPublicReview,
+  toPublicUser,
+} from "./auth";
+import { uploadToIPFS, checkIPFSContent, getIPFSContent } from "./services/ipfs";
+import { enqueuePaperAnalysis } from "./services/analysis";
+import { findReviewer, getEditorialQueue, getLatestInvitation, isPaperAuthor } from "./services/editorial";
+import { getResearcherProfile } from "./services/reputation";
+import { verifyLedger } from "./services/ledger";
+import { getAnchorProof, getMerkleProof } from "./services/anchoring";
+import { getTransactionStatus } from "./services/transactions";
+import { applyLatestAnalysis } from "./services/verification";
+import { ContentVerificationError, recordUpload, verifyPaperContent } from "./services/integrity";
 import multer from "multer";
 
 // Set up multer for file uploads
@@ -16,19 +59,113 @@ const upload = multer({
   },
 });
 
+// One entry of the author list submitted with a paper
+const paperAuthorSchema = z.object({
+  walletAddress: z.string().regex(/^0x[0-9a-fA-F]{40}$/, "Invalid wallet address"),
+  roles: z.array(z.enum(CREDIT_ROLES)).default([]),
+  isCorresponding: z.boolean().default(false),
+});
+
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Sessions and Sign-In With Ethereum
+  setupAuth(app);
+
   // API routes for the DeSci platform
   
+  // Get the nonce the signed-in wallet must use for its next signed submission
+  app.get("/api/signatures/nonce", requireAuth, async (req, res) => {
+    try {
+      const nonce = await storage.getSignatureNonce(req.user!.walletAddress!);
+      res.json({ nonce, chainId: CHAIN_ID });
+    } catch (error: any) {
+      res.status(500).json({ message: `Error fetching signature nonce: ${error.message}` });
+    }
+  });
+  
+  // Update the signed-in researcher's own profile
+  app.patch("/api/users/me", requireAuth, async (req, res) => {
+    try {
+      const validationResult = updateUserProfileSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid profile data", errors: validationResult.error.errors });
+      }
+      
+      const user = req.user!;
+      const updates = validationResult.data;
+      
+      if (updates.username && updates.username !== user.username) {
+        const existing = await storage.getUserByUsername(updates.username);
+        if (existing) {
+          return res.status(409).json({ message: "That username is already taken" });
+        }
+      }
+      
+      const updated = await storage.updateUser(user.id, updates);
+      if (!updated) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      res.json(toPublicUser(updated));
+    } catch (error: any) {
+      res.status(500).json({ message: `Error updating profile: ${error.message}` });
+    }
+  });
+  
+  // Get a researcher's profile by user ID or wallet address
+  app.get("/api/users/:idOrWallet", async (req, res) => {
+    try {
+      const { idOrWallet } = req.params;
+      
+      let user;
+      if (/^0x[0-9a-fA-F]{40}$/.test(idOrWallet)) {
+        user = await storage.getUserByWalletAddress(idOrWallet.toLowerCase());
+      } else if (/^\d+$/.test(idOrWallet)) {
+        user = await storage.getUser(parseInt(idOrWallet));
+      } else {
+        return res.status(400).json({ message: "Expected a user ID or wallet address" });
+      }
+      
+      if (!user) {
+        return res.status(404).json({ message: "Researcher not found" });
+      }
+      
+      const profile = await getResearcherProfile(user);
+      res.json(profile);
+    } catch (error: any) {
+      res.status(500).json({ message: `Error fetching researcher: ${error.message}` });
+    }
+  });
+  
   // Get all papers
   app.get("/api/papers", async (req, res) => {
     try {
       const papers = await storage.getAllPapers();
-      res.json(papers);
+      res.json(papers.map(toPublicPaper));
     } catch (error: any) {
       res.status(500).json({ message: `Error fetching papers: ${error.message}` });
     }
   });
 
+  // Search papers by full text with filters, facet counts and cursor pagination.
+  // Registered before /api/papers/:id so "search" isn't taken for an id.
+  app.get("/api/papers/search", async (req, res) => {
+    try {
+      const validationResult = paperSearchQuerySchema.safeParse(req.query);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid search query", errors: validationResult.error.errors });
+      }
+      
+      const result = await storage.searchPapers(validationResult.data);
+      if (!result) {
+        return res.status(400).json({ message: "Invalid or expired cursor" });
+      }
+      
+      res.json({ ...result, papers: result.papers.map(toPublicPaper) });
+    } catch (error: any) {
+      res.status(500).json({ message: `Error searching papers: ${error.message}` });
+    }
+  });
+  
   // Get a specific paper by ID
   app.get("/api/papers/:id", async (req, res) => {
     try {
@@ -42,19 +179,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Increment view count
       await storage.incrementPaperViews(id);
       
-      res.json(paper);
+      res.json(toPublicPaper(paper));
     } catch (error: any) {
       res.status(500).json({ message: `Error fetching paper: ${error.message}` });
     }
   });
 
   // Upload a research paper
-  app.post("/api/papers", async (req, res) => {
+  app.post("/api/papers", requireAuth, async (req, res) => {
     try {
-      // Create a custom validation schema without authorId which will be derived from walletAddress
-      const paperUploadSchema = insertPaperSchema.omit({ authorId: true }).extend({
-        walletAddress: z.string().min(1, "Wallet address is required")
-      });
+      // The author is always the signed-in wallet, never a client-supplied field
+      const paperUploadSchema = insertPaperSchema
+        .omit({ authorId: true, signedPayload: true, signature: true })
+        .extend({
+          metadataHash: z.string().min(1, "Metadata hash is required"),
+          signature: z.string().min(1, "Signature is required"),
+          nonce: z.number().int().nonnegative(),
+          deadline: z.number().int().positive(),
+          chainId: z.number().int().positive(),
+          // Ordered author list; the submitting wallet must be on it
+          authors: z.array(paperAuthorSchema).min(1).optional(),
+        });
       
       // Validate input
       const validationResult = paperUploadSchema.safeParse(req.body);
@@ -63,86 +208,292 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid paper data", errors: validationResult.error.errors });
       }
       
-      // Get or create user by wallet address
-      const walletAddress = req.body.walletAddress;
-      if (!walletAddress) {
-        return res.status(400).json({ message: "Wallet address is required" });
+      const user = req.user!;
+      const data = validationResult.data;
+      
+      const authorList = data.authors ?? [{ walletAddress: user.walletAddress!, roles: [], isCorresponding: true }];
+      const wallets = authorList.map(author => author.walletAddress.toLowerCase());
+      if (new Set(wallets).size !== wallets.length) {
+        return res.status(400).json({ message: "Each author may only be listed once" });
+      }
+      if (!wallets.includes(user.walletAddress!)) {
+        return res.status(400).json({ message: "The submitting wallet must be one of the authors" });
+      }
+      if (authorList.filter(author => author.isCorresponding).length > 1) {
+        return res.status(400).json({ message: "Only one author can be the corresponding author" });
       }
       
-      // First, try to find the user by wallet address
-      let user = await storage.getUserByWalletAddress(walletAddress);
+      // Check the manuscript and metadata CIDs before anything is stored or
+      // the signature nonce is consumed
+      await verifyPaperContent({
+        ipfsCid: data.ipfsCid,
+        metadataHash: data.metadataHash,
+        title: data.title,
+        abstract: data.abstract,
+        tags: data.tags || [],
+        authorWallet: user.walletAddress!,
+      });
       
-      // If no user exists, create a new one
-      if (!user) {
-        // Create a new user with the wallet address
-        const username = `researcher_${Math.floor(Math.random() * 10000)}`;
-        user = await storage.createUser({
-          username,
-          password: "wallet_auth", // Placeholder for Web3 auth
-          walletAddress
+      // Rebuild the EIP-712 submission from the request so the signature
+      // covers exactly what is stored
+      const signedPayload = buildPaperSubmissionPayload(data.chainId, {
+        author: user.walletAddress!,
+        title: data.title,
+        ipfsCid: data.ipfsCid,
+        metadataHash: data.metadataHash,
+        nonce: data.nonce,
+        deadline: data.deadline,
+      });
+      
+      const signatureError = await verifySignedSubmission(signedPayload, data.signature, user.walletAddress!);
+      if (signatureError) {
+        return res.status(401).json({ message: signatureError });
+      }
+      
+      // Co-authors get an account for their wallet so they can sign in and
+      // confirm; the submitter is the corresponding author unless one is named
+      const hasCorresponding = authorList.some(author => author.isCorresponding);
+      const authors = [];
+      for (const author of authorList) {
+        const authorUser = await findOrCreateWalletUser(author.walletAddress);
+        authors.push({
+          userId: authorUser.id,
+          roles: author.roles,
+          isCorresponding: hasCorresponding ? author.isCorresponding : authorUser.id === user.id,
         });
-        
-        if (!user) {
-          return res.status(500).json({ message: "Failed to create user" });
-        }
-        
-        console.log(`Created new user with ID ${user.id} for wallet ${walletAddress}`);
-      } else {
-        console.log(`Found existing user with ID ${user.id} for wallet ${walletAddress}`);
       }
       
-      // Check if the signature is valid
-      if (req.body.signature) {
-        const message = `I am submitting my research paper "${req.body.title}" with IPFS CID ${req.body.ipfsCid}`;
-        const isValid = verifySignature(message, req.body.signature, walletAddress);
-        
-        if (!isValid) {
-          return res.status(401).json({ message: "Invalid signature" });
-        }
+      const paper = await storage.createPaper({
+        title: data.title,
+        abstract: data.abstract,
+        authorId: user.id,
+        ipfsCid: data.ipfsCid,
+        metadataHash: data.metadataHash,
+        tags: data.tags || [],
+        signedPayload,
+        signature: data.signature,
+      }, authors);
+      
+      // Queue the paper for AI analysis by the analysis worker
+      await enqueuePaperAnalysis(paper.id, "submission", user.id);
+      
+      res.status(201).json(paper);
+    } catch (error: any) {
+      if (error instanceof ContentVerificationError) {
+        return res.status(422).json({ message: "Submitted content could not be verified", errors: error.issues });
       }
+      res.status(500).json({ message: `Error creating paper: ${error.message}` });
+    }
+  });
+  
+  // Get the ordered author list of a paper
+  app.get("/api/papers/:id/authors", async (req, res) => {
+    try {
+      const paperId = parseInt(req.params.id);
+      const paper = await storage.getPaper(paperId);
       
-      // We now have a valid user object with an ID
-      if (!user || !user.id) {
-        return res.status(500).json({ message: "Failed to resolve user ID" });
+      if (!paper) {
+        return res.status(404).json({ message: "Paper not found" });
       }
       
-      // Use the user ID directly from the user object
-      const authorId = user.id;
+      const authors = await storage.getPaperAuthors(paperId);
+      res.json(toPublicAuthors(authors));
+    } catch (error: any) {
+      res.status(500).json({ message: `Error fetching paper authors: ${error.message}` });
+    }
+  });
+  
+  // Confirm authorship of a paper by signing with the co-author's own wallet
+  app.post("/api/papers/:id/authors/confirm", requireAuth, async (req, res) => {
+    try {
+      const paperId = parseInt(req.params.id);
+      const user = req.user!;
       
-      const paper = await storage.createPaper({
-        title: req.body.title,
-        abstract: req.body.abstract,
-        authorId,
-        ipfsCid: req.body.ipfsCid,
-        metadataHash: req.body.metadataHash,
-        tags: req.body.tags || [],
+      const authors = await storage.getPaperAuthors(paperId);
+      const author = authors.find(author => author.userId === user.id);
+      if (!author) {
+        return res.status(404).json({ message: "You are not listed as an author of this paper" });
+      }
+      if (author.confirmed) {
+        return res.status(409).json({ message: "Authorship is already confirmed" });
+      }
+      
+      const confirmationSchema = z.object({
+        signature: z.string().min(1, "Signature is required"),
+        nonce: z.number().int().nonnegative(),
+        deadline: z.number().int().positive(),
+        chainId: z.number().int().positive(),
+      });
+      
+      const validationResult = confirmationSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid confirmation data", errors: validationResult.error.errors });
+      }
+      
+      const data = validationResult.data;
+      
+      // The signature covers the position and roles the author is credited with
+      const signedPayload = buildAuthorshipConfirmationPayload(data.chainId, {
+        author: user.walletAddress!,
+        paperId,
+        position: author.position,
+        roles: author.roles,
+        corresponding: author.isCorresponding,
+        nonce: data.nonce,
+        deadline: data.deadline,
+      });
+      
+      const signatureError = await verifySignedSubmission(signedPayload, data.signature, user.walletAddress!);
+      if (signatureError) {
+        return res.status(401).json({ message: signatureError });
+      }
+      
+      const confirmed = await storage.confirmPaperAuthor(paperId, user.id, signedPayload, data.signature);
+      if (!confirmed) {
+        return res.status(409).json({ message: "Authorship is already confirmed" });
+      }
+      
+      res.json(confirmed);
+    } catch (error: any) {
+      res.status(500).json({ message: `Error confirming authorship: ${error.message}` });
+    }
+  });
+  
+  // Get the version history of a paper, oldest first
+  app.get("/api/papers/:id/versions", async (req, res) => {
+    try {
+      const paperId = parseInt(req.params.id);
+      const paper = await storage.getPaper(paperId);
+      
+      if (!paper) {
+        return res.status(404).json({ message: "Paper not found" });
+      }
+      
+      const versions = await storage.getPaperVersions(paperId);
+      res.json(versions);
+    } catch (error: any) {
+      res.status(500).json({ message: `Error fetching paper versions: ${error.message}` });
+    }
+  });
+  
+  // Submit a revised manuscript as the paper's next version
+  app.post("/api/papers/:id/versions", requireAuth, async (req, res) => {
+    try {
+      const paperId = parseInt(req.params.id);
+      const paper = await storage.getPaper(paperId);
+      
+      if (!paper) {
+        return res.status(404).json({ message: "Paper not found" });
+      }
+      
+      const user = req.user!;
+      
+      // Only the wallet that owns the paper may revise it
+      if (paper.authorId !== user.id) {
+        return res.status(403).json({ message: "Only the author can revise this paper" });
+      }
+      
+      if (isFinalStatus(paper.status)) {
+        return res.status(409).json({ message: `${PAPER_STATUS_LABELS[paper.status]} papers cannot be revised` });
+      }
+      
+      const revisionSchema = z.object({
+        title: z.string().min(1, "Title is required"),
+        abstract: z.string().min(1, "Abstract is required"),
+        tags: z.array(z.string()).default([]),
+        ipfsCid: z.string().min(1, "IPFS CID is required"),
+        metadataHash: z.string().min(1, "Metadata hash is required"),
+        changeLog: z.string().min(1, "Describe what changed in this version"),
+        signature: z.string().min(1, "Signature is required"),
+        nonce: z.number().int().nonnegative(),
+        deadline: z.number().int().positive(),
+        chainId: z.number().int().positive(),
       });
       
-      // Initiate AI analysis in the background
-      analyzePaperContent(paper.id, paper.ipfsCid, paper.title, paper.abstract)
-        .then(async (aiAnalysis) => {
-          if (aiAnalysis) {
-            await storage.updatePaperAIAnalysis(paper.id, aiAnalysis);
-          }
-        })
-        .catch(error => {
-          console.error("AI analysis error:", error);
+      const validationResult = revisionSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid revision data", errors: validationResult.error.errors });
+      }
+      
+      const data = validationResult.data;
+      
+      await verifyPaperContent({
+        ipfsCid: data.ipfsCid,
+        metadataHash: data.metadataHash,
+        title: data.title,
+        abstract: data.abstract,
+        tags: data.tags,
+        authorWallet: user.walletAddress!,
+      });
+      
+      // The signature names the version it creates, so it can't be replayed
+      // as a later revision of the same paper
+      const signedPayload = buildPaperRevisionPayload(data.chainId, {
+        author: user.walletAddress!,
+        paperId,
+        version: paper.currentVersion + 1,
+        title: data.title,
+        ipfsCid: data.ipfsCid,
+        metadataHash: data.metadataHash,
+        changeLog: data.changeLog,
+        nonce: data.nonce,
+        deadline: data.deadline,
+      });
+      
+      const signatureError = await verifySignedSubmission(signedPayload, data.signature, user.walletAddress!);
+      if (signatureError) {
+        return res.status(401).json({ message: signatureError });
+      }
+      
+      const version = await storage.createPaperVersion({
+        paperId,
+        version: signedPayload.message.version,
+        title: data.title,
+        abstract: data.abstract,
+        tags: data.tags,
+        ipfsCid: data.ipfsCid,
+        metadataHash: data.metadataHash,
+        changeLog: data.changeLog,
+        signedPayload,
+        signature: data.signature,
+      });
+      
+      // Another revision landed between the signature check and the insert
+      if (!version) {
+        return res.status(409).json({ message: "The paper was revised in the meantime; sign the revision again" });
+      }
+      
+      // A revision answers a request for one, sending the paper back for review
+      if (paper.status === "revisions_requested") {
+        await storage.changePaperStatus(paperId, {
+          status: "submitted",
+          source: "author",
+          changedBy: user.id,
+          note: `Revised as version ${version.version}`,
         });
+      }
       
-      res.status(201).json(paper);
+      // The new version is a different document, so analyse it again
+      await enqueuePaperAnalysis(paperId, "revision", user.id);
+      
+      res.status(201).json(version);
     } catch (error: any) {
-      res.status(500).json({ message: `Error creating paper: ${error.message}` });
+      if (error instanceof ContentVerificationError) {
+        return res.status(422).json({ message: "Submitted content could not be verified", errors: error.issues });
+      }
+      res.status(500).json({ message: `Error creating paper version: ${error.message}` });
     }
   });
   
   // Upload file to IPFS
-  app.post("/api/ipfs/upload", upload.single('file'), async (req, res) => {
+  app.post("/api/ipfs/upload", requireAuth, upload.single('file'), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ message: "No file provided" });
       }
       
       const cid = await uploadToIPFS(req.file.buffer);
+      await recordUpload(cid, req.file.buffer, "file", req.user!.id);
       res.json({ cid });
     } catch (error: any) {
       res.status(500).json({ message: `Error uploading to IPFS: ${error.message}` });
@@ -150,14 +501,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Upload metadata to IPFS
-  app.post("/api/ipfs/metadata", async (req, res) => {
+  app.post("/api/ipfs/metadata", requireAuth, async (req, res) => {
     try {
       const metadata = req.body;
       if (!metadata) {
         return res.status(400).json({ message: "No metadata provided" });
       }
       
-      const cid = await uploadToIPFS(Buffer.from(JSON.stringify(metadata)));
+      const content = Buffer.from(JSON.stringify(metadata));
+      const cid = await uploadToIPFS(content);
+      await recordUpload(cid, content, "metadata", req.user!.id);
       res.json({ cid });
     } catch (error: any) {
       res.status(500).json({ message: `Error uploading metadata to IPFS: ${error.message}` });
@@ -174,19 +527,132 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Serve IPFS content from whichever provider is configured
+  app.get("/api/ipfs/content/:cid", async (req, res) => {
+    try {
+      const content = await getIPFSContent(req.params.cid);
+      if (!content) {
+        return res.status(404).json({ message: "IPFS content not found" });
+      }
+      
+      // Content behind a CID never changes, so it can be cached forever
+      res.set("Cache-Control", "public, max-age=31536000, immutable");
+      res.type(content.subarray(0, 5).toString() === "%PDF-" ? "application/pdf" : "application/octet-stream");
+      res.send(content);
+    } catch (error: any) {
+      res.status(500).json({ message: `Error fetching IPFS content: ${error.message}` });
+    }
+  });
+  
   // Get reviews for a paper
   app.get("/api/papers/:id/reviews", async (req, res) => {
     try {
       const paperId = parseInt(req.params.id);
       const reviews = await storage.getReviewsForPaper(paperId);
-      res.json(reviews);
+      res.json(reviews.map(toPublicReview));
     } catch (error: any) {
       res.status(500).json({ message: `Error fetching reviews: ${error.message}` });
     }
   });
   
-  // Manually trigger AI analysis for a paper
-  app.post("/api/papers/:id/analyze", async (req, res) => {
+  // List the statuses a paper has moved through, oldest first
+  app.get("/api/papers/:id/history", async (req, res) => {
+    try {
+      const paperId = parseInt(req.params.id);
+      const paper = await storage.getPaper(paperId);
+      
+      if (!paper) {
+        return res.status(404).json({ message: "Paper not found" });
+      }
+      
+      const history = await storage.getPaperStatusHistory(paperId);
+      const users = new Map<number, PublicUser>();
+      for (const userId of Array.from(new Set(history.map(entry => entry.changedBy).filter((id): id is number => id !== null)))) {
+        const user = await storage.getUser(userId);
+        if (user) users.set(userId, toPublicUser(user));
+      }
+      
+      const entries: PaperStatusHistoryEntryWithUser[] = history.map(entry => ({
+        ...entry,
+        user: entry.changedBy !== null ? users.get(entry.changedBy) ?? null : null,
+      }));
+      res.json(entries);
+    } catch (error: any) {
+      res.status(500).json({ message: `Error fetching status history: ${error.message}` });
+    }
+  });
+  
+  // Move a paper to a new status. Authors may submit a draft, withdraw a
+  // paper before a decision or retract one after acceptance.
+  app.post("/api/papers/:id/status", requireAuth, async (req, res) => {
+    try {
+      const paperId = parseInt(req.params.id);
+      const paper = await storage.getPaper(paperId);
+      
+      if (!paper) {
+        return res.status(404).json({ message: "Paper not found" });
+      }
+      
+      const statusSchema = z.object({
+        status: z.enum(PAPER_STATUSES),
+        note: z.string().trim().max(2000).optional(),
+      });
+      
+      const validationResult = statusSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid status change", errors: validationResult.error.errors });
+      }
+      
+      const { status, note } = validationResult.data;
+      const user = req.user!;
+      
+      if (paper.authorId !== user.id || !AUTHOR_STATUSES.includes(status)) {
+        return res.status(403).json({ message: `You cannot mark this paper ${PAPER_STATUS_LABELS[status].toLowerCase()}` });
+      }
+      
+      const updated = await storage.changePaperStatus(paperId, { status, source: "author", changedBy: user.id, note: note || null });
+      if (!updated) {
+        return res.status(409).json({
+          message: `A paper that is ${PAPER_STATUS_LABELS[paper.status].toLowerCase()} cannot be marked ${PAPER_STATUS_LABELS[status].toLowerCase()}`,
+        });
+      }
+      
+      res.json(updated);
+    } catch (error: any) {
+      res.status(500).json({ message: `Error changing paper status: ${error.message}` });
+    }
+  });
+  
+  // List the papers waiting on editors, oldest first
+  app.get("/api/editor/queue", requireEditor, async (req, res) => {
+    try {
+      const queue = await getEditorialQueue();
+      res.json(queue);
+    } catch (error: any) {
+      res.status(500).json({ message: `Error fetching editorial queue: ${error.message}` });
+    }
+  });
+  
+  // List the reviewers invited to a paper, newest first
+  app.get("/api/papers/:id/invitations", requireEditor, async (req, res) => {
+    try {
+      const paperId = parseInt(req.params.id);
+      const paper = await storage.getPaper(paperId);
+      
+      if (!paper) {
+        return res.status(404).json({ message: "Paper not found" });
+      }
+      
+      const invitations = await storage.getReviewInvitationsForPaper(paperId);
+      res.json(invitations);
+    } catch (error: any) {
+      res.status(500).json({ message: `Error fetching review invitations: ${error.message}` });
+    }
+  });
+  
+  // Invite a reviewer, named by wallet address, user ID or username, to
+  // review a paper by a deadline
+  app.post("/api/papers/:id/invitations", requireEditor, async (req, res) => {
     try {
       const paperId = parseInt(req.params.id);
       const paper = await storage.getPaper(paperId);
@@ -195,62 +661,283 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Paper not found" });
       }
       
-      // Trigger AI analysis
-      const aiAnalysis = await analyzePaperContent(
+      const invitationSchema = z.object({
+        reviewer: z.string().trim().min(1),
+        dueAt: z.coerce.date().optional(),
+        message: z.string().trim().max(2000).optional(),
+      });
+      
+      const validationResult = invitationSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid invitation", errors: validationResult.error.errors });
+      }
+      
+      const data = validationResult.data;
+      const editor = req.user!;
+      
+      if (!EDITORIAL_QUEUE_STATUSES.includes(paper.status)) {
+        return res.status(409).json({ message: `${PAPER_STATUS_LABELS[paper.status]} papers are not in editorial review` });
+      }
+      
+      if (await isPaperAuthor(paperId, editor.id)) {
+        return res.status(403).json({ message: "You cannot handle a paper you are an author of" });
+      }
+      
+      const reviewer = await findReviewer(data.reviewer);
+      if (!reviewer) {
+        return res.status(404).json({ message: "Reviewer not found" });
+      }
+      
+      if (await isPaperAuthor(paperId, reviewer.id)) {
+        return res.status(400).json({ message: "Authors cannot be invited to review their own paper" });
+      }
+      
+      const dueAt = data.dueAt ?? new Date(Date.now() + DEFAULT_REVIEW_DAYS * 24 * 60 * 60 * 1000);
+      if (dueAt.getTime() <= Date.now()) {
+        return res.status(400).json({ message: "The review deadline must be in the future" });
+      }
+      
+      const invitation = await storage.createReviewInvitation({
         paperId,
-        paper.ipfsCid,
-        paper.title,
-        paper.abstract
+        reviewerId: reviewer.id,
+        invitedBy: editor.id,
+        message: data.message || null,
+        dueAt,
+      });
+      if (!invitation) {
+        return res.status(409).json({ message: "The reviewer already has an open invitation to this paper" });
+      }
+      
+      res.status(201).json({ ...invitation, reviewer: toPublicUser(reviewer) });
+    } catch (error: any) {
+      res.status(500).json({ message: `Error inviting reviewer: ${error.message}` });
+    }
+  });
+  
+  // Cancel an invitation the reviewer has not yet completed
+  app.post("/api/invitations/:id/cancel", requireEditor, async (req, res) => {
+    try {
+      const invitationId = parseInt(req.params.id);
+      const invitation = await storage.getReviewInvitation(invitationId);
+      
+      if (!invitation) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+      
+      const cancelled = await storage.updateReviewInvitationStatus(invitationId, OPEN_INVITATION_STATUSES, "cancelled");
+      if (!cancelled) {
+        return res.status(409).json({ message: `The invitation is already ${invitation.status}` });
+      }
+      
+      res.json(cancelled);
+    } catch (error: any) {
+      res.status(500).json({ message: `Error cancelling invitation: ${error.message}` });
+    }
+  });
+  
+  // List the signed-in user's review invitations, newest first
+  app.get("/api/invitations", requireAuth, async (req, res) => {
+    try {
+      const invitations = await storage.getReviewInvitationsForReviewer(req.user!.id);
+      res.json(invitations);
+    } catch (error: any) {
+      res.status(500).json({ message: `Error fetching review invitations: ${error.message}` });
+    }
+  });
+  
+  // Accept or decline an invitation to review
+  app.post("/api/invitations/:id/respond", requireAuth, async (req, res) => {
+    try {
+      const invitationId = parseInt(req.params.id);
+      const invitation = await storage.getReviewInvitation(invitationId);
+      
+      if (!invitation || invitation.reviewerId !== req.user!.id) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+      
+      const responseSchema = z.object({ accept: z.boolean() });
+      const validationResult = responseSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid response", errors: validationResult.error.errors });
+      }
+      
+      const updated = await storage.updateReviewInvitationStatus(
+        invitationId,
+        ["pending"],
+        validationResult.data.accept ? "accepted" : "declined"
       );
+      if (!updated) {
+        return res.status(409).json({ message: `The invitation is already ${invitation.status}` });
+      }
+      
+      res.json(updated);
+    } catch (error: any) {
+      res.status(500).json({ message: `Error responding to invitation: ${error.message}` });
+    }
+  });
+  
+  // List the editorial decisions on a paper, newest first
+  app.get("/api/papers/:id/decisions", async (req, res) => {
+    try {
+      const paperId = parseInt(req.params.id);
+      const paper = await storage.getPaper(paperId);
+      
+      if (!paper) {
+        return res.status(404).json({ message: "Paper not found" });
+      }
+      
+      const decisions = await storage.getEditorialDecisionsForPaper(paperId);
+      res.json(decisions);
+    } catch (error: any) {
+      res.status(500).json({ message: `Error fetching editorial decisions: ${error.message}` });
+    }
+  });
+  
+  // Accept a paper, request revisions or reject it, with the editor's rationale
+  app.post("/api/papers/:id/decisions", requireEditor, async (req, res) => {
+    try {
+      const paperId = parseInt(req.params.id);
+      const paper = await storage.getPaper(paperId);
       
-      if (aiAnalysis) {
-        await storage.updatePaperAIAnalysis(paperId, aiAnalysis);
-        return res.status(200).json({ 
-          message: "AI analysis completed successfully", 
-          analysis: aiAnalysis,
-          status: paper.status
+      if (!paper) {
+        return res.status(404).json({ message: "Paper not found" });
+      }
+      
+      const decisionSchema = z.object({
+        decision: z.enum(EDITORIAL_DECISIONS),
+        rationale: z.string().trim().min(20, { message: "Explain the decision in at least 20 characters" }).max(5000),
+      });
+      
+      const validationResult = decisionSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid decision", errors: validationResult.error.errors });
+      }
+      
+      const { decision, rationale } = validationResult.data;
+      const editor = req.user!;
+      
+      if (await isPaperAuthor(paperId, editor.id)) {
+        return res.status(403).json({ message: "You cannot handle a paper you are an author of" });
+      }
+      
+      const recorded = await storage.recordEditorialDecision({ paperId, editorId: editor.id, decision, rationale });
+      if (!recorded) {
+        const status = DECISION_STATUSES[decision];
+        return res.status(409).json({
+          message: `A paper that is ${PAPER_STATUS_LABELS[paper.status].toLowerCase()} cannot be marked ${PAPER_STATUS_LABELS[status].toLowerCase()}`,
         });
-      } else {
-        return res.status(500).json({ message: "AI analysis failed" });
       }
+      
+      // An accepted paper may now be verified by its earlier AI analysis
+      if (decision === "accept") {
+        try {
+          await applyLatestAnalysis(paperId);
+        } catch (error) {
+          console.error(`Error applying the verification policy to paper ${paperId}:`, error);
+        }
+      }
+      
+      res.status(201).json(recorded);
     } catch (error: any) {
-      console.error("Error in AI analysis:", error);
-      res.status(500).json({ message: `Error analyzing paper: ${error.message}` });
+      res.status(500).json({ message: `Error recording decision: ${error.message}` });
     }
   });
   
-  // Submit a review for a paper
-  app.post("/api/papers/:id/reviews", async (req, res) => {
+  // Manually queue AI analysis for a paper; returns the paper's queued or
+  // running job if it already has one
+  app.post("/api/papers/:id/analyze", requireAuth, async (req, res) => {
     try {
       const paperId = parseInt(req.params.id);
+      const paper = await storage.getPaper(paperId);
       
-      // Validate the paper exists
+      if (!paper) {
+        return res.status(404).json({ message: "Paper not found" });
+      }
+      
+      const job = await enqueuePaperAnalysis(paperId, "manual", req.user!.id);
+      res.status(202).json(job);
+    } catch (error: any) {
+      res.status(500).json({ message: `Error queueing analysis: ${error.message}` });
+    }
+  });
+  
+  // List a paper's AI analysis jobs, newest first
+  app.get("/api/papers/:id/analysis/jobs", async (req, res) => {
+    try {
+      const paperId = parseInt(req.params.id);
       const paper = await storage.getPaper(paperId);
+      
       if (!paper) {
         return res.status(404).json({ message: "Paper not found" });
       }
       
-      // Get user from wallet address
-      const walletAddress = req.body.walletAddress;
-      if (!walletAddress) {
-        return res.status(400).json({ message: "Wallet address is required" });
+      const jobs = await storage.getAnalysisJobsForPaper(paperId);
+      res.json(jobs);
+    } catch (error: any) {
+      res.status(500).json({ message: `Error fetching analysis jobs: ${error.message}` });
+    }
+  });
+  
+  // List every AI analysis run of a paper, newest first, for comparing runs
+  app.get("/api/papers/:id/analyses", async (req, res) => {
+    try {
+      const paperId = parseInt(req.params.id);
+      const paper = await storage.getPaper(paperId);
+      
+      if (!paper) {
+        return res.status(404).json({ message: "Paper not found" });
       }
       
-      const user = await storage.getUserByWalletAddress(walletAddress);
-      if (!user) {
-        return res.status(404).json({ message: "User not found" });
+      const analyses = await storage.getAiAnalysesForPaper(paperId);
+      res.json(analyses);
+    } catch (error: any) {
+      res.status(500).json({ message: `Error fetching analyses: ${error.message}` });
+    }
+  });
+  
+  // Submit a review for a paper. Review is open: anyone but the paper's
+  // authors may review it, invited or not, except a reviewer who declined
+  // their invitation to the paper or let its deadline pass.
+  app.post("/api/papers/:id/reviews", requireAuth, async (req, res) => {
+    try {
+      const paperId = parseInt(req.params.id);
+      
+      // Validate the paper exists
+      const paper = await storage.getPaper(paperId);
+      if (!paper) {
+        return res.status(404).json({ message: "Paper not found" });
       }
       
-      // Check that you're not reviewing your own paper
-      if (paper.authorId === user.id) {
+      const user = req.user!;
+      
+      // Check that you're not reviewing your own paper, as submitter or co-author
+      if (await isPaperAuthor(paperId, user.id)) {
         return res.status(400).json({ message: "You cannot review your own paper" });
       }
       
+      const invitation = await getLatestInvitation(paperId, user.id);
+      if (invitation && invitationBarsReview(invitation)) {
+        return res.status(403).json({
+          message: invitation.status === "declined"
+            ? "You declined the invitation to review this paper"
+            : "Your invitation to review this paper has expired",
+        });
+      }
+      
+      if (isFinalStatus(paper.status)) {
+        return res.status(409).json({ message: `${PAPER_STATUS_LABELS[paper.status]} papers are closed to review` });
+      }
+      
       // Validate review data
       const reviewSchema = insertReviewSchema
-        .omit({ paperId: true, reviewerId: true, ipfsCid: true, txHash: true })
+        .omit({ paperId: true, reviewerId: true, versionId: true, ipfsCid: true, txHash: true, signedPayload: true })
         .extend({
-          rating: z.number().min(1).max(5),
+          rating: z.number().int().min(1).max(5),
+          version: z.number().int().positive(),
+          signature: z.string().min(1, "Signature is required"),
+          nonce: z.number().int().nonnegative(),
+          deadline: z.number().int().positive(),
+          chainId: z.number().int().positive(),
         });
       
       const validationResult = reviewSchema.safeParse(req.body);
@@ -258,13 +945,45 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid review data", errors: validationResult.error.errors });
       }
       
+      const data = validationResult.data;
+      
+      // Reviews are only accepted against the version currently on record
+      if (data.version !== paper.currentVersion) {
+        return res.status(409).json({
+          message: `Paper is at version ${paper.currentVersion}, not version ${data.version}`,
+        });
+      }
+      
+      const paperVersion = await storage.getPaperVersion(paperId, data.version);
+      if (!paperVersion) {
+        return res.status(404).json({ message: `Version ${data.version} of this paper was not found` });
+      }
+      
+      const signedPayload = buildReviewPayload(data.chainId, {
+        reviewer: user.walletAddress!,
+        paperId,
+        version: data.version,
+        content: data.content,
+        rating: data.rating,
+        nonce: data.nonce,
+        deadline: data.deadline,
+      });
+      
+      const signatureError = await verifySignedSubmission(signedPayload, data.signature, user.walletAddress!);
+      if (signatureError) {
+        return res.status(401).json({ message: signatureError });
+      }
+      
       // Upload review to IPFS for transparency
       const reviewData = {
         paperId,
+        version: data.version,
         reviewerId: user.id,
-        content: req.body.content,
-        rating: req.body.rating,
+        content: data.content,
+        rating: data.rating,
         timestamp: new Date().toISOString(),
+        signedPayload,
+        signature: data.signature,
       };
       
       const ipfsCid = await uploadToIPFS(Buffer.from(JSON.stringify(reviewData)));
@@ -272,15 +991,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Store the review in our database
       const review = await storage.createReview({
         paperId,
+        versionId: paperVersion.id,
         reviewerId: user.id,
-        content: req.body.content,
-        rating: req.body.rating,
+        content: data.content,
+        rating: data.rating,
         ipfsCid,
-        txHash: "", // In production, this would be the transaction hash from the blockchain
+        txHash: null,
+        signedPayload,
+        signature: data.signature,
       });
       
-      // Award tokens to reviewer (simplified for now)
-      await storage.awardTokens(user.id, 5, "Submitted peer review");
+      // Award tokens to reviewer
+      await storage.awardTokens({
+        userId: user.id,
+        amount: 5,
+        reason: "peer_review",
+        description: "Submitted peer review",
+        paperId,
+        reviewId: review.id,
+      });
       
       res.status(201).json(review);
     } catch (error: any) {
@@ -288,6 +1017,124 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Get where a paper or review was anchored in the paper registry
+  app.get("/api/anchors/:type/:id", async (req, res) => {
+    try {
+      const type = req.params.type as AnchorType;
+      const id = parseInt(req.params.id);
+      if (!ANCHOR_TYPES.includes(type) || isNaN(id)) {
+        return res.status(400).json({ message: "Expected /api/anchors/paper/:id or /api/anchors/review/:id" });
+      }
+      
+      const proof = await getAnchorProof(type, id);
+      if (!proof) {
+        return res.status(404).json({ message: `${type === "paper" ? "Paper" : "Review"} not found` });
+      }
+      
+      res.json(proof);
+    } catch (error: any) {
+      res.status(500).json({ message: `Error fetching anchor proof: ${error.message}` });
+    }
+  });
+
+  // Get the Merkle inclusion proof of a batched paper or review, for offline verification
+  app.get("/api/proofs/:type/:id", async (req, res) => {
+    try {
+      const type = req.params.type as AnchorType;
+      const id = parseInt(req.params.id);
+      if (!ANCHOR_TYPES.includes(type) || isNaN(id)) {
+        return res.status(400).json({ message: "Expected /api/proofs/paper/:id or /api/proofs/review/:id" });
+      }
+      
+      const proof = await getMerkleProof(type, id);
+      if (!proof) {
+        return res.status(404).json({ message: `${type === "paper" ? "Paper" : "Review"} has not been batched for anchoring` });
+      }
+      
+      res.json(proof);
+    } catch (error: any) {
+      res.status(500).json({ message: `Error fetching Merkle proof: ${error.message}` });
+    }
+  });
+
+  // Get the network the platform runs on, for wallets and explorer links
+  app.get("/api/network", async (req, res) => {
+    try {
+      res.json(getNetworkInfo());
+    } catch (error: any) {
+      res.status(500).json({ message: `Error fetching network: ${error.message}` });
+    }
+  });
+  
+  // Get where a transaction sent by the server is in its lifecycle
+  app.get("/api/transactions/:txHash", async (req, res) => {
+    try {
+      const transaction = await getTransactionStatus(req.params.txHash.toLowerCase());
+      if (!transaction) {
+        return res.status(404).json({ message: "Transaction not found" });
+      }
+      
+      res.json(transaction);
+    } catch (error: any) {
+      res.status(500).json({ message: `Error fetching transaction: ${error.message}` });
+    }
+  });
+  
+  // List contract events synced by the chain indexer
+  app.get("/api/chain/events", async (req, res) => {
+    try {
+      const validationResult = chainEventQuerySchema.safeParse(req.query);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid event query", errors: validationResult.error.errors });
+      }
+      
+      const events = await storage.getChainEvents({ ...validationResult.data, chainId: CHAIN_ID });
+      res.json(events);
+    } catch (error: any) {
+      res.status(500).json({ message: `Error fetching chain events: ${error.message}` });
+    }
+  });
+  
+  // Get a wallet's indexed reward token balances
+  app.get("/api/chain/holdings/:walletAddress", async (req, res) => {
+    try {
+      const holdings = await storage.getTokenHoldings(CHAIN_ID, req.params.walletAddress.toLowerCase());
+      res.json(holdings);
+    } catch (error: any) {
+      res.status(500).json({ message: `Error fetching token holdings: ${error.message}` });
+    }
+  });
+  
+  // Reconcile cached token balances against the ledger
+  app.get("/api/admin/ledger/verify", requireAdmin, async (req, res) => {
+    try {
+      const verification = await verifyLedger();
+      res.json(verification);
+    } catch (error: any) {
+      res.status(500).json({ message: `Error verifying ledger: ${error.message}` });
+    }
+  });
+  
+  // Grant or revoke a user's editor role
+  app.put("/api/admin/editors/:userId", requireAdmin, async (req, res) => {
+    try {
+      const editorSchema = z.object({ isEditor: z.boolean() });
+      const validationResult = editorSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ message: "Invalid editor role", errors: validationResult.error.errors });
+      }
+      
+      const user = await storage.setUserEditor(parseInt(req.params.userId), validationResult.data.isEditor);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      res.json(toPublicUser(user));
+    } catch (error: any) {
+      res.status(500).json({ message: `Error updating editor role: ${error.message}` });
+    }
+  });
+
   const httpServer = createServer(app);
 
   return httpServer;
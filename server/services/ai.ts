@@ -0,0 +1,139 @@
+import dotenv from "dotenv";
+import { createAnalysisProvider, type AnalysisProvider, type AnalysisResult, type PlagiarismCheck } from "./analysis-providers";
+import { getPaperDocument } from "./documents";
+dotenv.config();
+
+// The configured analysis backend (OpenAI, a local model or the rule-based
+// stub), or null if none is configured
+export const analysisProvider: AnalysisProvider | null = createAnalysisProvider();
+
+// A finished analysis of a paper, with what produced it
+export interface PaperAnalysisRun extends AnalysisResult {
+  provider: string;
+  model: string;
+  promptVersion: number;
+  excerpt: boolean; // The paper was too large to send whole and was sampled
+}
+
+// Longest excerpt of each section sent when a paper is sampled, in characters
+const MAX_EXCERPT_SIZE = 3000;
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength)}...` : text;
+}
+
+function splitTextIntoChunks(text: string, maxSize: number = 10000): string[] {
+  const chunks: string[] = [];
+  let currentChunk = "";
+  const paragraphs = text.split(/\n\n+/);
+
+  for (const paragraph of paragraphs) {
+    if (currentChunk.length + paragraph.length > maxSize && currentChunk.length > 0) {
+      chunks.push(currentChunk);
+      currentChunk = paragraph;
+    } else {
+      currentChunk += (currentChunk ? "\n\n" : "") + paragraph;
+    }
+  }
+
+  if (currentChunk) {
+    chunks.push(currentChunk);
+  }
+
+  return chunks;
+}
+
+/**
+ * Analyze a paper with the configured provider. Runs in the analysis worker,
+ * which retries the job if this throws and applies the verification policy
+ * to the result.
+ * @returns The analysis, and how it was produced
+ */
+export async function analyzePaperContent(
+  ipfsCid: string,
+  title: string,
+  abstract: string
+): Promise<PaperAnalysisRun> {
+  if (!analysisProvider) {
+    throw new Error("No analysis provider is configured");
+  }
+  const { name: provider, model, promptVersion } = analysisProvider;
+
+  // The abstract alone is not the paper: without its text, the attempt fails
+  // and the job is retried
+  const document = await getPaperDocument(ipfsCid);
+  if (!document) {
+    throw new Error(`Paper file ${ipfsCid} could not be retrieved`);
+  }
+  if (!document.text.trim()) {
+    throw new Error("No text could be extracted from the paper's file");
+  }
+  const content = document.text;
+
+  const MAX_CHUNK_SIZE = 10000;
+  const contentChunks = splitTextIntoChunks(content, MAX_CHUNK_SIZE);
+
+  if (contentChunks.length === 1) {
+    const result = await analysisProvider.analyzePaper({ title, content, excerpt: false });
+    return { ...result, provider, model, promptVersion, excerpt: false };
+  }
+
+  console.log(`Paper is large, sampling ${contentChunks.length} chunks for analysis`);
+
+  // Without recognised headings, the opening and closing text stand in for
+  // the introduction and conclusion
+  const sections = document.sections;
+  const introduction = sections.introduction ?? contentChunks[0];
+  const conclusion = sections.conclusion ?? sections.discussion ?? contentChunks[contentChunks.length - 1];
+
+  const representativeSample = `Title: ${title}
+    
+Abstract: ${sections.abstract ?? abstract}
+
+Introduction excerpt:
+${truncate(introduction, MAX_EXCERPT_SIZE)}
+
+${sections.methods ? "Methods excerpt:\n" + truncate(sections.methods, MAX_EXCERPT_SIZE) : ""}
+
+Conclusion excerpt:
+${truncate(conclusion, MAX_EXCERPT_SIZE)}
+
+Note: This is a sample of a large paper. The full text was too large to analyze in one request.`;
+
+  const result = await analysisProvider.analyzePaper({ title, content: representativeSample, excerpt: true });
+  return { ...result, provider, model, promptVersion, excerpt: true };
+}
+
+export async function checkForPlagiarism(content: string): Promise<PlagiarismCheck> {
+  try {
+    if (!analysisProvider) {
+      return {
+        isPlagiarized: false,
+        confidence: 0,
+        details: "No analysis provider is configured, plagiarism check skipped"
+      };
+    }
+
+    return await analysisProvider.checkPlagiarism(content);
+  } catch (error) {
+    console.error("Error checking for plagiarism:", error);
+    return {
+      isPlagiarized: false,
+      confidence: 0,
+      details: "Error processing plagiarism check"
+    };
+  }
+}
+
+export async function summarizePaper(content: string): Promise<string> {
+  try {
+    if (!analysisProvider) {
+      return "No analysis provider is configured, summary generation skipped";
+    }
+
+    return await analysisProvider.summarize(content);
+  } catch (error) {
+    console.error("Error summarizing paper:", error);
+    return "Error processing paper summary";
+  }
+}
@@ -0,0 +1,56 @@
+import { OpenAICompatibleProvider } from './openai-compatible';
+import { StubProvider } from './stub';
+import type { AnalysisProvider } from './types';
+
+export type { AnalysisProvider, AnalysisResult, PaperAnalysis, PaperAnalysisInput, PlagiarismCheck, TokenUsage } from './types';
+
+// Default model of each provider that runs one
+const DEFAULT_MODELS: Record<string, string> = {
+  openai: 'gpt-4o',
+  local: 'llama3.1',
+};
+
+// Default sampling temperature; low, so repeated analyses of a paper agree
+const DEFAULT_TEMPERATURE = 0.2;
+
+/**
+ * Pick the analysis backend from configuration. ANALYSIS_PROVIDER may be
+ * "openai", "local" (any OpenAI-compatible server at LOCAL_LLM_URL, Ollama's
+ * by default) or "stub"; when unset, OpenAI is used if OPENAI_API_KEY is set.
+ * ANALYSIS_MODEL and ANALYSIS_TEMPERATURE tune the model providers.
+ * @returns The provider, or null if analysis is not configured
+ */
+export function createAnalysisProvider(): AnalysisProvider | null {
+  const providerName = process.env.ANALYSIS_PROVIDER || (process.env.OPENAI_API_KEY ? 'openai' : null);
+  if (!providerName) {
+    return null;
+  }
+
+  const model = process.env.ANALYSIS_MODEL || DEFAULT_MODELS[providerName];
+  const temperature = Number(process.env.ANALYSIS_TEMPERATURE || DEFAULT_TEMPERATURE);
+
+  switch (providerName) {
+    case 'openai':
+      if (!process.env.OPENAI_API_KEY) {
+        throw new Error('ANALYSIS_PROVIDER is "openai" but OPENAI_API_KEY is not set');
+      }
+      return new OpenAICompatibleProvider('openai', {
+        apiKey: process.env.OPENAI_API_KEY,
+        model,
+        temperature,
+        jsonMode: true,
+      });
+    case 'local':
+      return new OpenAICompatibleProvider('local', {
+        apiKey: process.env.LOCAL_LLM_API_KEY || 'local', // Most local servers ignore it
+        baseURL: process.env.LOCAL_LLM_URL || 'http://127.0.0.1:11434/v1',
+        model,
+        temperature,
+        jsonMode: process.env.LOCAL_LLM_JSON_MODE !== 'false',
+      });
+    case 'stub':
+      return new StubProvider();
+    default:
+      throw new Error(`Unknown ANALYSIS_PROVIDER "${providerName}", expected "openai", "local" or "stub"`);
+  }
+}
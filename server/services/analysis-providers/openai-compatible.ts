@@ -0,0 +1,174 @@
+import OpenAI from 'openai';
+import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import type { ZodType, ZodTypeDef } from 'zod';
+import { paperAnalysisSchema, plagiarismCheckSchema } from '@shared/analysis';
+import type { AnalysisProvider, AnalysisResult, PaperAnalysisInput, PlagiarismCheck, TokenUsage } from './types';
+
+export interface ChatProviderOptions {
+  apiKey: string;
+  baseURL?: string; // Defaults to the OpenAI API
+  model: string;
+  temperature: number;
+  jsonMode: boolean; // Whether the server supports `response_format: json_object`
+}
+
+// Version of the prompts below; bump it when they change so stored analyses
+// from different prompts can be told apart
+const PROMPT_VERSION = 1;
+
+// Requests made for one result, including re-prompts after invalid responses
+const MAX_RESPONSE_ATTEMPTS = 2;
+
+const ANALYSIS_INSTRUCTIONS =
+  "Analyze the given research paper and provide the following:\n" +
+  "1. Plagiarism Check: Identify if the content appears original or might contain plagiarized sections\n" +
+  "2. Reference Verification: Evaluate if the paper has proper citations and references\n" +
+  "3. Content Summary: Provide a concise summary of the paper's key findings and contributions\n" +
+  "4. Quality Rating: Rate the overall quality of the paper from 1-10";
+
+const EXCERPT_INSTRUCTIONS =
+  "Analyze the given research paper sample and provide the following:\n" +
+  "1. Plagiarism Check: Identify if the content appears original or might contain plagiarized sections\n" +
+  "2. Reference Verification: Evaluate if the paper has proper citations and references\n" +
+  "3. Content Summary: Provide a concise summary of the paper's key findings and contributions\n" +
+  "4. Quality Rating: Rate the overall quality of the paper from 1-10 based on the sample provided";
+
+/**
+ * Prompts a chat completion model through the OpenAI API or any server that
+ * implements it, such as Ollama, vLLM or LM Studio.
+ */
+export class OpenAICompatibleProvider implements AnalysisProvider {
+  readonly model: string;
+  readonly promptVersion = PROMPT_VERSION;
+
+  private client: OpenAI;
+  private temperature: number;
+  private jsonMode: boolean;
+
+  constructor(readonly name: string, options: ChatProviderOptions) {
+    this.client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL });
+    this.model = options.model;
+    this.temperature = options.temperature;
+    this.jsonMode = options.jsonMode;
+  }
+
+  async analyzePaper(input: PaperAnalysisInput): Promise<AnalysisResult> {
+    const { value, usage } = await this.completeJson(
+      "You are an AI research assistant specialized in analyzing scientific papers. " +
+        (input.excerpt ? EXCERPT_INSTRUCTIONS : ANALYSIS_INSTRUCTIONS) + "\n\n" +
+        "Respond with a JSON object with these keys: plagiarismCheck, referenceVerification, contentSummary (strings), " +
+        "and qualityRating (a number from 1 to 10)",
+      input.excerpt ? input.content : `Title: ${input.title}\n\nContent: ${input.content}`,
+      paperAnalysisSchema
+    );
+    return { analysis: value, usage };
+  }
+
+  async checkPlagiarism(content: string): Promise<PlagiarismCheck> {
+    const { value } = await this.completeJson(
+      "You are an AI plagiarism detection expert. Analyze the given text and determine if it appears to be plagiarized. " +
+        "Look for telltale signs like inconsistent writing style, unusual phrasing, or content that seems copied from common sources. " +
+        "Respond with a JSON object containing: isPlagiarized (boolean), confidence (number between 0-1), and details (string explanation).",
+      content,
+      plagiarismCheckSchema
+    );
+    return value;
+  }
+
+  async summarize(content: string): Promise<string> {
+    const { text } = await this.complete([
+      { role: "system", content: "You are an AI research assistant. Summarize the following research paper in a concise way, highlighting key findings, methodologies, and implications." },
+      { role: "user", content },
+    ], false);
+    if (!text) {
+      throw new Error(`${this.name} returned an empty summary`);
+    }
+    return text;
+  }
+
+  private async complete(
+    messages: ChatCompletionMessageParam[],
+    json: boolean
+  ): Promise<{ text: string | null; usage: TokenUsage }> {
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      temperature: this.temperature,
+      messages,
+      ...(json && this.jsonMode ? { response_format: { type: "json_object" as const } } : {}),
+    });
+    return {
+      text: response.choices[0]?.message.content ?? null,
+      usage: {
+        promptTokens: response.usage?.prompt_tokens ?? 0,
+        completionTokens: response.usage?.completion_tokens ?? 0,
+        totalTokens: response.usage?.total_tokens ?? 0,
+      },
+    };
+  }
+
+  /**
+   * Prompt for a JSON object matching a schema. Servers without a JSON mode
+   * may wrap the object in prose or a code fence, so the outermost braces are
+   * parsed. An invalid response is sent back to the model with what was
+   * wrong, up to MAX_RESPONSE_ATTEMPTS requests in all.
+   * @returns The parsed object, and the tokens used by all requests
+   */
+  private async completeJson<T>(
+    system: string,
+    user: string,
+    schema: ZodType<T, ZodTypeDef, unknown>
+  ): Promise<{ value: T; usage: TokenUsage }> {
+    const messages: ChatCompletionMessageParam[] = [
+      { role: "system", content: system },
+      { role: "user", content: user },
+    ];
+    const usage: TokenUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+
+    for (let attempt = 1; ; attempt++) {
+      const response = await this.complete(messages, true);
+      usage.promptTokens += response.usage.promptTokens;
+      usage.completionTokens += response.usage.completionTokens;
+      usage.totalTokens += response.usage.totalTokens;
+
+      const result = validateJson(response.text, schema);
+      if (result.success) {
+        return { value: result.value, usage };
+      }
+      if (attempt >= MAX_RESPONSE_ATTEMPTS) {
+        throw new Error(`${this.name} returned an invalid response: ${result.error}`);
+      }
+
+      messages.push(
+        { role: "assistant", content: response.text ?? "" },
+        { role: "user", content: `That response was invalid: ${result.error}. Respond again with only the corrected JSON object.` }
+      );
+    }
+  }
+}
+
+function validateJson<T>(
+  text: string | null,
+  schema: ZodType<T, ZodTypeDef, unknown>
+): { success: true; value: T } | { success: false; error: string } {
+  const start = text?.indexOf('{') ?? -1;
+  const end = text?.lastIndexOf('}') ?? -1;
+  if (!text || start === -1 || end < start) {
+    return { success: false, error: "no JSON object found" };
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(text.slice(start, end + 1));
+  } catch {
+    return { success: false, error: "the JSON object could not be parsed" };
+  }
+
+  const parsed = schema.safeParse(json);
+  if (!parsed.success) {
+    return {
+      success: false,
+      error: parsed.error.issues.map((issue) => `${issue.path.join('.') || 'response'}: ${issue.message}`).join('; '),
+    };
+  }
+  return { success: true, value: parsed.data };
+}
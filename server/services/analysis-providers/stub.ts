@@ -0,0 +1,99 @@
+import type { AnalysisProvider, AnalysisResult, PaperAnalysisInput, PlagiarismCheck } from './types';
+
+// Citation styles counted as references: [12], [3-5], (Smith, 2020), (Smith et al. 2020)
+const CITATION_PATTERN = /\[\d+(?:[-–,]\s*\d+)*\]|\([A-Z][A-Za-z-]+(?: et al\.)?,? \d{4}[a-z]?\)/g;
+
+// Section headings that well-structured papers are expected to have
+const EXPECTED_SECTIONS = ['abstract', 'introduction', 'method', 'result', 'discussion', 'conclusion', 'references'];
+
+// Sentences shorter than this are ignored when looking for repeated text
+const MIN_SENTENCE_LENGTH = 40;
+
+// Share of repeated sentences above which text is flagged as possibly copied
+const REPETITION_THRESHOLD = 0.2;
+
+// Longest summary returned, in characters
+const MAX_SUMMARY_LENGTH = 400;
+
+function splitSentences(content: string): string[] {
+  return content
+    .split(/(?<=[.!?])\s+/)
+    .map((sentence) => sentence.replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+}
+
+/**
+ * The share of long sentences that occur more than once, a crude stand-in
+ * for text pasted in from elsewhere
+ */
+function getRepetitionRatio(content: string): number {
+  const sentences = splitSentences(content)
+    .filter((sentence) => sentence.length >= MIN_SENTENCE_LENGTH)
+    .map((sentence) => sentence.toLowerCase());
+  if (sentences.length === 0) {
+    return 0;
+  }
+  return (sentences.length - new Set(sentences).size) / sentences.length;
+}
+
+function summarizeText(content: string): string {
+  let summary = '';
+  for (const sentence of splitSentences(content)) {
+    if (summary && summary.length + sentence.length + 1 > MAX_SUMMARY_LENGTH) break;
+    summary += (summary ? ' ' : '') + sentence;
+  }
+  return summary.length > MAX_SUMMARY_LENGTH ? `${summary.slice(0, MAX_SUMMARY_LENGTH - 3)}...` : summary;
+}
+
+/**
+ * Assesses papers with fixed rules instead of a model: citations are counted,
+ * section headings looked for and repeated sentences flagged. The same input
+ * always gives the same result, which makes it suitable for tests and for
+ * development without network access. Ratings are not meaningful.
+ */
+export class StubProvider implements AnalysisProvider {
+  readonly name = 'stub';
+  readonly model = 'rules-v1';
+  readonly promptVersion = 1;
+
+  async analyzePaper(input: PaperAnalysisInput): Promise<AnalysisResult> {
+    const lower = input.content.toLowerCase();
+    const citations = input.content.match(CITATION_PATTERN)?.length ?? 0;
+    const sections = EXPECTED_SECTIONS.filter((section) => lower.includes(section));
+    const words = input.content.split(/\s+/).filter(Boolean).length;
+    const repetition = getRepetitionRatio(input.content);
+
+    // Up to 3 points for structure, 3 for citations and 2 for length, and 2
+    // unless the text repeats itself
+    const rating =
+      Math.round((sections.length / EXPECTED_SECTIONS.length) * 3) +
+      Math.min(3, Math.floor(citations / 5)) +
+      (words >= 3000 ? 2 : words >= 1000 ? 1 : 0) +
+      (repetition > REPETITION_THRESHOLD ? 0 : 2);
+
+    const analysis = {
+      plagiarismCheck: repetition > REPETITION_THRESHOLD
+        ? `${Math.round(repetition * 100)}% of sentences are repeated, which may indicate copied text.`
+        : 'No repeated passages were found.',
+      referenceVerification: citations > 0
+        ? `Found ${citations} in-text citation${citations === 1 ? '' : 's'}${lower.includes('references') ? ' and a references section' : ''}.`
+        : 'No in-text citations were found.',
+      contentSummary: summarizeText(input.content) || input.title,
+      qualityRating: Math.max(1, Math.min(10, rating)),
+    };
+    return { analysis, usage: null };
+  }
+
+  async checkPlagiarism(content: string): Promise<PlagiarismCheck> {
+    const repetition = getRepetitionRatio(content);
+    return {
+      isPlagiarized: repetition > REPETITION_THRESHOLD,
+      confidence: Math.round(repetition * 100) / 100,
+      details: `${Math.round(repetition * 100)}% of sentences are repeated.`,
+    };
+  }
+
+  async summarize(content: string): Promise<string> {
+    return summarizeText(content);
+  }
+}
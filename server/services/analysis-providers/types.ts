@@ -0,0 +1,40 @@
+import type { PaperAnalysis, PlagiarismCheck, TokenUsage } from '@shared/analysis';
+
+export type { PaperAnalysis, PlagiarismCheck, TokenUsage };
+
+export interface PaperAnalysisInput {
+  title: string;
+  content: string;
+  excerpt: boolean; // The content is a sample of a paper too large to send whole
+}
+
+export interface AnalysisResult {
+  analysis: PaperAnalysis;
+  usage: TokenUsage | null; // Null when no model was run
+}
+
+/**
+ * Assesses paper content. Implementations call OpenAI, an OpenAI-compatible
+ * server such as Ollama or vLLM, or apply fixed rules without a model.
+ */
+export interface AnalysisProvider {
+  readonly name: string;
+  readonly model: string;
+  readonly promptVersion: number; // Changes whenever the prompts or rules do
+
+  /**
+   * Assess a paper's originality, references, findings and quality. Model
+   * output that does not match the analysis schema is rejected.
+   */
+  analyzePaper(input: PaperAnalysisInput): Promise<AnalysisResult>;
+
+  /**
+   * Judge whether text appears to be plagiarized
+   */
+  checkPlagiarism(content: string): Promise<PlagiarismCheck>;
+
+  /**
+   * Summarize a paper's findings, methods and implications
+   */
+  summarize(content: string): Promise<string>;
+}
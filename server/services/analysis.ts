@@ -0,0 +1,185 @@
+import type { AnalysisJob } from '@shared/schema';
+import type { JobTrigger } from '@shared/jobs';
+import { storage } from '../storage';
+import { analysisProvider, analyzePaperContent } from './ai';
+import { applyVerificationPolicy } from './verification';
+
+// Default jobs run at once, runs per job, wait before the first retry (doubled
+// for each retry after it), and how long an attempt may run before it is
+// assumed lost, e.g. to a server restart
+const DEFAULT_CONCURRENCY = 2;
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_BACKOFF_MS = 30 * 1000;
+const DEFAULT_JOB_TIMEOUT_MS = 15 * 60 * 1000;
+
+// Longest wait between attempts, and pause between checks for due jobs
+const MAX_BACKOFF_MS = 30 * 60 * 1000;
+const DEFAULT_INTERVAL_MS = 5 * 1000;
+
+export interface AnalysisQueueOptions {
+  concurrency: number;
+  maxAttempts: number;
+  backoffMs: number;
+  jobTimeoutMs: number;
+}
+
+function getQueueOptions(): AnalysisQueueOptions {
+  return {
+    concurrency: Number(process.env.ANALYSIS_CONCURRENCY || DEFAULT_CONCURRENCY),
+    maxAttempts: Number(process.env.ANALYSIS_MAX_ATTEMPTS || DEFAULT_MAX_ATTEMPTS),
+    backoffMs: Number(process.env.ANALYSIS_BACKOFF_MS || DEFAULT_BACKOFF_MS),
+    jobTimeoutMs: Number(process.env.ANALYSIS_JOB_TIMEOUT_MS || DEFAULT_JOB_TIMEOUT_MS),
+  };
+}
+
+/**
+ * Queue a paper for AI analysis
+ * @param paperId The paper to analyze
+ * @param trigger What asked for the analysis
+ * @param requestedBy The user who asked for it
+ * @returns The new job, or the paper's job that is already queued or running
+ */
+export async function enqueuePaperAnalysis(
+  paperId: number,
+  trigger: JobTrigger,
+  requestedBy: number | null = null
+): Promise<AnalysisJob> {
+  const active = await storage.getActiveAnalysisJob(paperId);
+  if (active) {
+    return active;
+  }
+
+  return storage.createAnalysisJob({ paperId, trigger, requestedBy, maxAttempts: getQueueOptions().maxAttempts });
+}
+
+/**
+ * Get how long to wait before the next attempt of a job
+ * @param attempts The attempts made so far
+ * @param backoffMs The wait after the first attempt
+ */
+function getRetryDelayMs(attempts: number, backoffMs: number): number {
+  return Math.min(backoffMs * 2 ** (attempts - 1), MAX_BACKOFF_MS);
+}
+
+/**
+ * Record a failed attempt: queue the job again after a backoff, or fail it
+ * for good if it has no attempts left
+ */
+async function failAttempt(job: AnalysisJob, error: string, options: AnalysisQueueOptions): Promise<void> {
+  if (job.attempts >= job.maxAttempts) {
+    await storage.updateAnalysisJob(job.id, { status: 'failed', finishedAt: new Date(), error });
+    return;
+  }
+
+  await storage.updateAnalysisJob(job.id, {
+    status: 'queued',
+    runAt: new Date(Date.now() + getRetryDelayMs(job.attempts, options.backoffMs)),
+    error,
+  });
+}
+
+/**
+ * Run one claimed job: analyze the paper, record the run, store the analysis
+ * on the paper and apply the verification policy to it
+ */
+async function runAnalysisJob(job: AnalysisJob, options: AnalysisQueueOptions): Promise<void> {
+  try {
+    const paper = await storage.getPaper(job.paperId);
+    if (!paper) {
+      await storage.updateAnalysisJob(job.id, { status: 'failed', finishedAt: new Date(), error: 'Paper not found' });
+      return;
+    }
+
+    const run = await analyzePaperContent(paper.ipfsCid, paper.title, paper.abstract);
+    await storage.createAiAnalysis({
+      paperId: paper.id,
+      jobId: job.id,
+      ipfsCid: paper.ipfsCid,
+      provider: run.provider,
+      model: run.model,
+      promptVersion: run.promptVersion,
+      excerpt: run.excerpt,
+      result: run.analysis,
+      promptTokens: run.usage?.promptTokens ?? null,
+      completionTokens: run.usage?.completionTokens ?? null,
+      totalTokens: run.usage?.totalTokens ?? null,
+    });
+    await storage.updatePaperAIAnalysis(paper.id, run.analysis);
+    await applyVerificationPolicy(paper.id, run.analysis, run.excerpt);
+    await storage.updateAnalysisJob(job.id, { status: 'succeeded', finishedAt: new Date(), error: null });
+  } catch (error: any) {
+    console.error(`Error in analysis job ${job.id} for paper ${job.paperId}:`, error);
+    await failAttempt(job, error?.message || String(error), options);
+  }
+}
+
+/**
+ * Put back in the queue, or fail, the jobs whose attempt has run longer than
+ * the job timeout, so work lost to a restart is picked up again
+ * @returns How many jobs were recovered
+ */
+async function recoverStaleJobs(options: AnalysisQueueOptions): Promise<number> {
+  const stale = await storage.getStaleAnalysisJobs(new Date(Date.now() - options.jobTimeoutMs));
+  for (const job of stale) {
+    await failAttempt(job, 'Timed out', options);
+  }
+  return stale.length;
+}
+
+/**
+ * Claim and run the jobs that are due, up to the concurrency limit, and wait
+ * for them to finish
+ * @param options Overrides for the ANALYSIS_* settings
+ * @returns How many jobs were run
+ */
+export async function processAnalysisJobs(options: Partial<AnalysisQueueOptions> = {}): Promise<number> {
+  const resolved = { ...getQueueOptions(), ...options };
+  await recoverStaleJobs(resolved);
+
+  const jobs = await storage.claimAnalysisJobs(resolved.concurrency);
+  await Promise.all(jobs.map((job) => runAnalysisJob(job, resolved)));
+  return jobs.length;
+}
+
+/**
+ * Run queued analysis jobs in the background, never more than the
+ * concurrency limit at once. Does nothing unless an analysis provider is
+ * configured.
+ * @returns A function that stops the worker, or null if it was not started
+ */
+export function startAnalysisWorker(): (() => void) | null {
+  if (!analysisProvider) {
+    console.log('Analysis worker disabled: set OPENAI_API_KEY or ANALYSIS_PROVIDER to enable it');
+    return null;
+  }
+
+  const options = getQueueOptions();
+  const intervalMs = Number(process.env.ANALYSIS_INTERVAL_MS || DEFAULT_INTERVAL_MS);
+
+  // Jobs keep running across ticks; each tick only claims as many new jobs
+  // as there are free slots
+  let running = 0;
+  let claiming = false;
+  const timer = setInterval(async () => {
+    if (claiming || running >= options.concurrency) return;
+    claiming = true;
+    try {
+      await recoverStaleJobs(options);
+      const jobs = await storage.claimAnalysisJobs(options.concurrency - running);
+      for (const job of jobs) {
+        running++;
+        runAnalysisJob(job, options)
+          .catch((error) => console.error(`Error recording analysis job ${job.id}:`, error))
+          .finally(() => {
+            running--;
+          });
+      }
+    } catch (error) {
+      console.error('Error claiming analysis jobs:', error);
+    } finally {
+      claiming = false;
+    }
+  }, intervalMs);
+
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,253 @@
+import { ethers } from 'ethers';
+import { reviewContentHash, type AnchorProof, type AnchorType } from '@shared/anchoring';
+import {
+  buildMerkleTree, hashLeaf,
+  type MerkleInclusionProof, type PaperLeafData, type ReviewLeafData
+} from '@shared/merkle';
+import type { AnchorBatch, NewAnchorLeaf, Paper, Review } from '@shared/schema';
+import { storage } from '../storage';
+import { CHAIN_ID, getContractAddress, getServerWallet, getTransactionBlock, isTransactionConfirmed } from './blockchain';
+import { trackTransaction } from './transactions';
+
+// The parts of contracts/PaperRegistry.sol the anchoring worker calls
+const PAPER_REGISTRY_ABI = [
+  'function anchorRoot(bytes32 root, uint256 leafCount)',
+  'function roots(bytes32 root) view returns (uint64 anchoredAt)',
+  'event RootAnchored(bytes32 indexed root, uint256 leafCount)',
+];
+
+// Default most submissions per Merkle batch and pause between batches
+const DEFAULT_BATCH_SIZE = 256;
+const DEFAULT_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * Get the paper registry contract, connected to the server wallet
+ * @returns The contract or null if the registry is not deployed on the network or the server key is not configured
+ */
+function getPaperRegistry(): ethers.Contract | null {
+  const address = getContractAddress('paperRegistry');
+  const wallet = getServerWallet();
+  if (!address || !wallet) {
+    return null;
+  }
+  return new ethers.Contract(address, PAPER_REGISTRY_ABI, wallet);
+}
+
+/**
+ * Describe a paper's current version for its Merkle leaf, recording the wallet
+ * of every listed author who has one
+ * @returns The leaf, or null if the submitting author has no wallet to record
+ */
+async function buildPaperLeaf(paper: Paper): Promise<NewAnchorLeaf | null> {
+  const authors = await storage.getPaperAuthors(paper.id);
+  if (!authors.some(author => author.userId === paper.authorId && author.user.walletAddress)) {
+    return null;
+  }
+
+  const data: PaperLeafData = {
+    paperId: paper.id,
+    version: paper.currentVersion,
+    ipfsCid: paper.ipfsCid,
+    metadataHash: paper.metadataHash || '',
+    authors: authors
+      .filter(author => author.user.walletAddress)
+      .map(author => ethers.getAddress(author.user.walletAddress!)),
+  };
+  return {
+    itemType: 'paper',
+    itemId: paper.id,
+    itemVersion: paper.currentVersion,
+    data,
+    leaf: hashLeaf('paper', data),
+    proof: [],
+  };
+}
+
+/**
+ * Describe a review for its Merkle leaf
+ * @returns The leaf, or null if the reviewer has no wallet to record
+ */
+async function buildReviewLeaf(review: Review): Promise<NewAnchorLeaf | null> {
+  const reviewer = await storage.getUser(review.reviewerId);
+  if (!reviewer?.walletAddress) {
+    return null;
+  }
+
+  const data: ReviewLeafData = {
+    reviewId: review.id,
+    paperId: review.paperId,
+    contentHash: reviewContentHash(review.content),
+    reviewer: ethers.getAddress(reviewer.walletAddress),
+  };
+  return { itemType: 'review', itemId: review.id, itemVersion: 1, data, leaf: hashLeaf('review', data), proof: [] };
+}
+
+/**
+ * Collect papers and reviews that are not in a batch yet into a new Merkle
+ * batch, storing every leaf's inclusion proof. A revised paper is batched
+ * again for its new version.
+ * @param batchSize The most submissions to include
+ * @returns The batch, or null if nothing is waiting to be anchored
+ */
+async function createPendingBatch(batchSize: number): Promise<AnchorBatch | null> {
+  const papers = await storage.getUnanchoredPapers(batchSize);
+  const reviews = await storage.getUnanchoredReviews(batchSize - papers.length);
+
+  const leaves = (await Promise.all([
+    ...papers.map(buildPaperLeaf),
+    ...reviews.map(buildReviewLeaf),
+  ])).filter((leaf): leaf is NewAnchorLeaf => leaf !== null);
+  if (leaves.length === 0) {
+    return null;
+  }
+
+  const { root, proofs } = buildMerkleTree(leaves.map(leaf => leaf.leaf));
+  return storage.createAnchorBatch(root, leaves.map((leaf, index) => ({ ...leaf, proof: proofs[index] })));
+}
+
+/**
+ * Anchor a batch's root in the registry. The transaction hash is stored as
+ * soon as it is sent; the transaction watcher clears it again if the
+ * transaction fails, so the batch is retried on a later run.
+ * @param registry The registry contract
+ * @param batch The batch to anchor
+ * @returns The transaction hash
+ */
+async function commitBatch(registry: ethers.Contract, batch: AnchorBatch): Promise<string> {
+  // The root may have been anchored by a run that stopped before storing its hash
+  if ((await registry.roots(batch.root)) > 0) {
+    const [event] = await registry.queryFilter(registry.filters.RootAnchored(batch.root));
+    if (!event) {
+      throw new Error(`Root ${batch.root} is anchored but its transaction was not found`);
+    }
+    await storage.setAnchorBatchTxHash(batch.id, event.transactionHash);
+    return event.transactionHash;
+  }
+
+  const tx: ethers.ContractTransactionResponse = await registry.anchorRoot(batch.root, batch.leafCount);
+  await storage.setAnchorBatchTxHash(batch.id, tx.hash);
+  await trackTransaction('root_anchor', tx);
+
+  return tx.hash;
+}
+
+/**
+ * Anchor the roots of batches that were not sent or whose transaction failed,
+ * then batch and anchor new papers and reviews
+ * @param batchSize The most submissions per new batch
+ * @returns How many submissions were anchored
+ */
+export async function anchorPendingSubmissions(batchSize = DEFAULT_BATCH_SIZE): Promise<number> {
+  const registry = getPaperRegistry();
+  if (!registry) {
+    throw new Error('PAPER_REGISTRY_ADDRESS and BLOCKCHAIN_PRIVATE_KEY must be set to anchor submissions');
+  }
+
+  const batches = await storage.getUnsentAnchorBatches();
+  const batch = await createPendingBatch(batchSize);
+  if (batch) {
+    batches.push(batch);
+  }
+
+  let anchored = 0;
+  for (const batch of batches) {
+    try {
+      await commitBatch(registry, batch);
+      anchored += batch.leafCount;
+    } catch (error) {
+      console.error(`Error anchoring batch ${batch.id}:`, error);
+    }
+  }
+
+  return anchored;
+}
+
+/**
+ * Periodically batch and anchor new papers and reviews in the background.
+ * Does nothing unless the paper registry and server key are configured.
+ * @returns A function that stops the worker, or null if it was not started
+ */
+export function startAnchoringWorker(): (() => void) | null {
+  if (!getPaperRegistry()) {
+    console.log('Anchoring disabled: set PAPER_REGISTRY_ADDRESS and BLOCKCHAIN_PRIVATE_KEY to enable it');
+    return null;
+  }
+
+  const batchSize = Number(process.env.ANCHOR_BATCH_SIZE || DEFAULT_BATCH_SIZE);
+  const intervalMs = Number(process.env.ANCHOR_INTERVAL_MS || DEFAULT_INTERVAL_MS);
+
+  let running = false;
+  const timer = setInterval(async () => {
+    // Don't start a run while the previous one is still sending
+    if (running) return;
+    running = true;
+    try {
+      const anchored = await anchorPendingSubmissions(batchSize);
+      if (anchored > 0) {
+        console.log(`Anchored ${anchored} submissions`);
+      }
+    } catch (error) {
+      console.error('Error anchoring submissions:', error);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+
+  return () => clearInterval(timer);
+}
+
+/**
+ * Describe where a paper or review was anchored on-chain
+ * @param type Whether `id` is a paper or a review
+ * @param id The paper or review ID
+ * @returns The proof, or undefined if the paper or review does not exist
+ */
+export async function getAnchorProof(type: AnchorType, id: number): Promise<AnchorProof | undefined> {
+  const record = type === 'paper' ? await storage.getPaper(id) : await storage.getReview(id);
+  if (!record) {
+    return undefined;
+  }
+
+  const txHash = record.txHash || null;
+  const [block, confirmed] = txHash
+    ? await Promise.all([getTransactionBlock(txHash), isTransactionConfirmed(txHash)])
+    : [null, false];
+
+  return {
+    type,
+    id,
+    txHash,
+    registryAddress: getContractAddress('paperRegistry'),
+    chainId: CHAIN_ID,
+    blockNumber: block?.blockNumber ?? null,
+    timestamp: block?.timestamp ?? null,
+    confirmed,
+  };
+}
+
+/**
+ * Get the Merkle inclusion proof of a paper or review. For a paper this is
+ * the proof of its latest batched version.
+ * @param type Whether `id` is a paper or a review
+ * @param id The paper or review ID
+ * @returns The proof, or undefined if the submission has not been batched
+ */
+export async function getMerkleProof(type: AnchorType, id: number): Promise<MerkleInclusionProof | undefined> {
+  const leaf = await storage.getAnchorLeaf(type, id);
+  if (!leaf) {
+    return undefined;
+  }
+
+  return {
+    type,
+    id,
+    data: leaf.data,
+    leaf: leaf.leaf,
+    proof: leaf.proof,
+    root: leaf.batch.root,
+    batchId: leaf.batchId,
+    txHash: leaf.batch.txHash,
+    registryAddress: getContractAddress('paperRegistry'),
+    chainId: CHAIN_ID,
+  };
+}
@@ -1,7 +1,27 @@
 import { ethers } from 'ethers';
+import type { SignedPayload } from '@shared/eip712';
+import {
+  DEFAULT_NETWORK, NETWORK_CONTRACTS, NETWORK_KEYS, NETWORKS, isNetworkKey,
+  type NetworkConfig, type NetworkContract
+} from '@shared/networks';
+import { storage } from '../storage';
 
-// Polygon Mumbai Testnet RPC URL
-const POLYGON_MUMBAI_RPC_URL = process.env.POLYGON_MUMBAI_RPC_URL || 'https://rpc-mumbai.maticvigil.com/';
+// The network the server runs on, chosen with NETWORK from the registry in
+// shared/networks.ts
+export const NETWORK: NetworkConfig = resolveNetwork(process.env.NETWORK || DEFAULT_NETWORK);
+
+// JSON-RPC endpoint the server talks to; BLOCKCHAIN_RPC_URL overrides the
+// network's public endpoint, e.g. with a provider URL that carries an API key
+const RPC_URL = process.env.BLOCKCHAIN_RPC_URL || NETWORK.rpcUrl;
+
+// Chain id that EIP-712 signatures must be bound to
+export const CHAIN_ID = NETWORK.chainId;
+
+// Environment variables that override the registry's contract addresses
+const CONTRACT_ADDRESS_ENV_VARS: Record<NetworkContract, string> = {
+  rewardToken: 'REWARD_TOKEN_ADDRESS',
+  paperRegistry: 'PAPER_REGISTRY_ADDRESS',
+};
 
 // Optional private key for server-side operations
 const PRIVATE_KEY = process.env.BLOCKCHAIN_PRIVATE_KEY || '';
@@ -9,11 +29,44 @@ const PRIVATE_KEY = process.env.BLOCKCHAIN_PRIVATE_KEY || '';
 // Create an ethers provider
 let provider: ethers.JsonRpcProvider;
 try {
-  provider = new ethers.JsonRpcProvider(POLYGON_MUMBAI_RPC_URL);
+  provider = new ethers.JsonRpcProvider(RPC_URL);
 } catch (error) {
   console.error('Failed to initialize Ethereum provider:', error);
   // Initialize with a fallback provider to avoid breaking the app
-  provider = new ethers.JsonRpcProvider('https://rpc-mumbai.maticvigil.com/');
+  provider = new ethers.JsonRpcProvider(NETWORK.rpcUrl);
+}
+
+/**
+ * Look up a network in the registry
+ * @param key The network's key, e.g. "polygon-amoy"
+ * @returns The network's configuration
+ */
+function resolveNetwork(key: string): NetworkConfig {
+  if (!isNetworkKey(key)) {
+    throw new Error(`Unknown NETWORK "${key}", expected one of: ${NETWORK_KEYS.join(', ')}`);
+  }
+  return NETWORKS[key];
+}
+
+/**
+ * Get the address of one of the platform's contracts on the active network
+ * @param contract Which contract
+ * @returns The address from the environment or the registry, or null if it is not deployed
+ */
+export function getContractAddress(contract: NetworkContract): string | null {
+  return process.env[CONTRACT_ADDRESS_ENV_VARS[contract]] || NETWORK.contracts[contract];
+}
+
+/**
+ * Describe the active network for clients, with the contract addresses the
+ * server uses
+ * @returns The network's configuration
+ */
+export function getNetworkInfo(): NetworkConfig {
+  const contracts = Object.fromEntries(
+    NETWORK_CONTRACTS.map((contract) => [contract, getContractAddress(contract)])
+  ) as Record<NetworkContract, string | null>;
+  return { ...NETWORK, contracts };
 }
 
 /**
@@ -37,6 +90,88 @@ export function verifySignature(
   }
 }
 
+/**
+ * Verify an EIP-712 typed-data signature against an address
+ * @param payload The typed data (domain, types and message) that was signed
+ * @param signature The signature to verify
+ * @param address The Ethereum address that supposedly signed the data
+ * @returns Boolean indicating if the signature is valid
+ */
+export function verifyTypedSignature(
+  payload: SignedPayload<any>,
+  signature: string,
+  address: string
+): boolean {
+  try {
+    const recoveredAddress = ethers.verifyTypedData(
+      payload.domain,
+      payload.types,
+      payload.message,
+      signature
+    );
+    return recoveredAddress.toLowerCase() === address.toLowerCase();
+  } catch (error) {
+    console.error('Error verifying typed signature:', error);
+    return false;
+  }
+}
+
+/**
+ * Verify a replay-protected EIP-712 submission and consume its nonce. The
+ * message must carry the signer's next nonce and a deadline in the future,
+ * and the domain must be bound to this server's chain id.
+ * @param payload The typed data rebuilt from the request
+ * @param signature The signature sent with the request
+ * @param address The wallet that must have signed the payload
+ * @returns null if the submission is valid, otherwise the reason it was rejected
+ */
+export async function verifySignedSubmission(
+  payload: SignedPayload<{ nonce: number; deadline: number }>,
+  signature: string,
+  address: string
+): Promise<string | null> {
+  if (payload.domain.chainId !== CHAIN_ID) {
+    return `Signature is for chain ${payload.domain.chainId}, expected chain ${CHAIN_ID}`;
+  }
+
+  if (payload.message.deadline * 1000 <= Date.now()) {
+    return 'Signature has expired';
+  }
+
+  if (!verifyTypedSignature(payload, signature, address)) {
+    return 'Invalid signature';
+  }
+
+  // Only consume the nonce once the signature is known to be genuine, so a
+  // forged request can't burn the wallet's nonce
+  const consumed = await storage.consumeSignatureNonce(address, payload.message.nonce);
+  if (!consumed) {
+    return 'Signature nonce has already been used';
+  }
+
+  return null;
+}
+
+/**
+ * Get the provider for the configured RPC endpoint, for services that read
+ * chain state directly
+ */
+export function getProvider(): ethers.JsonRpcProvider {
+  return provider;
+}
+
+/**
+ * Get the wallet for the server's private key, connected to the provider.
+ * The same key holds the reward token's minter role.
+ * @returns The wallet or null if no private key is configured
+ */
+export function getServerWallet(): ethers.Wallet | null {
+  if (!PRIVATE_KEY) {
+    return null;
+  }
+  return new ethers.Wallet(PRIVATE_KEY, provider);
+}
+
 /**
  * Sign a message using the server's private key
  * @param message The message to sign
@@ -44,12 +179,12 @@ export function verifySignature(
  */
 export async function signMessage(message: string): Promise<string | null> {
   try {
-    if (!PRIVATE_KEY) {
+    const wallet = getServerWallet();
+    if (!wallet) {
       console.warn('No private key available for signing');
       return null;
     }
 
-    const wallet = new ethers.Wallet(PRIVATE_KEY, provider);
     return await wallet.signMessage(message);
   } catch (error) {
     console.error('Error signing message:', error);
@@ -96,13 +231,13 @@ export async function getTransactionBlock(
 ): Promise<{ blockNumber: number; timestamp: number } | null> {
   try {
     const tx = await provider.getTransaction(txHash);
-    if (!tx) return null;
+    if (!tx || tx.blockNumber === null) return null; // Unknown or not mined yet
     
-    const block = await provider.getBlock(tx.blockNumber!);
+    const block = await provider.getBlock(tx.blockNumber);
     if (!block) return null;
     
     return {
-      blockNumber: tx.blockNumber!,
+      blockNumber: tx.blockNumber,
       timestamp: block.timestamp,
     };
   } catch (error) {
@@ -119,7 +254,7 @@ export async function getTransactionBlock(
 export async function isTransactionConfirmed(txHash: string): Promise<boolean> {
   try {
     const receipt = await provider.getTransactionReceipt(txHash);
-    return receipt !== null && receipt.confirmations > 0;
+    return receipt !== null && (await receipt.confirmations()) > 0;
   } catch (error) {
     console.error('Error checking transaction confirmation:', error);
     return false;
@@ -0,0 +1,271 @@
+import { getDocument, VerbosityLevel } from "pdfjs-dist/legacy/build/pdf.mjs";
+import type { TextItem } from "pdfjs-dist/types/src/display/api";
+import type { DocumentFormat, PaperSection, PaperSections } from "@shared/documents";
+import type { PaperDocument } from "@shared/schema";
+import { storage } from "../storage";
+import { getIPFSContent } from "./ipfs";
+
+// Bump when extraction or section splitting changes, so cached documents are
+// extracted again with the new rules
+export const EXTRACTOR_VERSION = 1;
+
+// Files starting with this are parsed as PDFs; anything else is read as text
+const PDF_MAGIC = "%PDF-";
+
+// Longest line considered as a section heading, in characters
+const MAX_HEADING_LENGTH = 60;
+
+// A vertical gap this many times the usual line spacing starts a new paragraph
+const PARAGRAPH_GAP_RATIO = 1.5;
+
+// Heading names of each section, as regular expression alternatives
+const SECTION_HEADINGS: Record<PaperSection, string> = {
+  abstract: "abstract",
+  introduction: "introduction|background|motivation",
+  methods: "methods?|methodology|materials and methods|methods and materials|experimental setup|study design",
+  results: "results|results and discussion|experiments|evaluation|findings",
+  discussion: "discussion|general discussion",
+  conclusion: "conclusions?|concluding remarks|conclusions? and future work|summary and conclusions?",
+  references: "references|bibliography|works cited|literature cited",
+};
+
+// Headings that end the current section without starting a recognised one
+const SECTION_TERMINATORS =
+  "keywords|index terms|acknowledge?ments?|appendix|appendices|funding|author contributions|" +
+  "conflicts? of interest|competing interests|data availability|supplementary material";
+
+// Optional numbering before a heading: "2", "2.1", "II." or "A)"
+const HEADING_NUMBER = "(?:(?:\\d+(?:\\.\\d+)*|[IVX]+|[A-Z])[.)]?\\s+)?";
+
+const HEADING_PATTERNS = (Object.entries(SECTION_HEADINGS) as [PaperSection, string][]).map(
+  ([section, names]) => ({
+    section,
+    pattern: new RegExp(`^${HEADING_NUMBER}(?:${names})\\s*[:.]?$`, "i"),
+  })
+);
+
+const TERMINATOR_PATTERN = new RegExp(`^${HEADING_NUMBER}(?:${SECTION_TERMINATORS})\\b`, "i");
+
+// An abstract whose text follows its heading on the same line, as in
+// "Abstract: We study..." or "Abstract—We study..."
+const INLINE_ABSTRACT_PATTERN = /^abstract\s*[:.—–-]\s*(.+)$/i;
+
+export interface ExtractedText {
+  format: DocumentFormat;
+  lines: string[]; // Empty lines separate paragraphs
+  pageCount: number | null;
+}
+
+interface Line {
+  text: string;
+  y: number;
+  lastX: number; // Where the line's last text item ends
+}
+
+/**
+ * Extract the text of a PDF, rebuilding its lines from the positions of the
+ * text items on each page and separating paragraphs at larger vertical gaps.
+ * Scanned PDFs without a text layer give no lines.
+ * @param content The PDF file
+ * @returns The lines of text, with empty lines between paragraphs
+ */
+export async function extractPdfText(content: Buffer): Promise<ExtractedText> {
+  const pdf = await getDocument({
+    data: new Uint8Array(content),
+    isEvalSupported: false,
+    disableFontFace: true,
+    verbosity: VerbosityLevel.ERRORS,
+  }).promise;
+
+  try {
+    const lines: string[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const textContent = await page.getTextContent();
+      const items = textContent.items.filter((item): item is TextItem => "str" in item);
+      lines.push(...layoutPage(items), "");
+      page.cleanup();
+    }
+    return { format: "pdf", lines, pageCount: pdf.numPages };
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+function layoutPage(items: TextItem[]): string[] {
+  const lines: Line[] = [];
+  let current: Line | null = null;
+
+  for (const item of items) {
+    const x = item.transform[4];
+    const y = item.transform[5];
+    const height = item.height || Math.abs(item.transform[3]) || 1;
+
+    if (current && Math.abs(current.y - y) > height / 2) {
+      lines.push(current);
+      current = null;
+    }
+    if (!current) {
+      current = { text: "", y, lastX: x };
+    }
+
+    // Items on a line don't always carry the spaces between words
+    const needsSpace = current.text && !/\s$/.test(current.text) && !/^\s/.test(item.str) &&
+      x - current.lastX > height * 0.15;
+    current.text += (needsSpace ? " " : "") + item.str;
+    current.lastX = x + item.width;
+
+    if (item.hasEOL) {
+      lines.push(current);
+      current = null;
+    }
+  }
+  if (current) {
+    lines.push(current);
+  }
+
+  const textLines = lines.filter((line) => line.text.trim());
+  const gaps = textLines.slice(1).map((line, i) => textLines[i].y - line.y).filter((gap) => gap > 0);
+  const lineSpacing = median(gaps);
+
+  const result: string[] = [];
+  textLines.forEach((line, i) => {
+    const gap = i > 0 ? textLines[i - 1].y - line.y : 0;
+    if (i > 0 && lineSpacing && (gap > lineSpacing * PARAGRAPH_GAP_RATIO || gap < 0)) {
+      result.push(""); // Wider gap, or a jump back up to the next column
+    }
+    result.push(line.text);
+  });
+  return result;
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+/**
+ * Read a file that is not a PDF as UTF-8 text
+ * @param content The file
+ * @returns The lines of text
+ */
+export function extractPlainText(content: Buffer): ExtractedText {
+  return { format: "text", lines: content.toString("utf8").split(/\r?\n/), pageCount: null };
+}
+
+function matchHeading(line: string): { section: PaperSection | null; rest: string } | undefined {
+  const inlineAbstract = line.match(INLINE_ABSTRACT_PATTERN);
+  if (inlineAbstract) {
+    return { section: "abstract", rest: inlineAbstract[1] };
+  }
+  if (line.length > MAX_HEADING_LENGTH) {
+    return undefined;
+  }
+  const heading = HEADING_PATTERNS.find(({ pattern }) => pattern.test(line));
+  if (heading) {
+    return { section: heading.section, rest: "" };
+  }
+  if (TERMINATOR_PATTERN.test(line)) {
+    return { section: null, rest: "" };
+  }
+  return undefined;
+}
+
+/**
+ * Join the lines of a paragraph, rejoining words hyphenated across lines
+ */
+function joinLines(lines: string[]): string {
+  let paragraph = "";
+  for (const line of lines) {
+    if (/[a-z]-$/.test(paragraph) && /^[a-z]/.test(line)) {
+      paragraph = paragraph.slice(0, -1) + line;
+    } else {
+      paragraph += (paragraph ? " " : "") + line;
+    }
+  }
+  return paragraph;
+}
+
+/**
+ * Clean extracted lines into paragraphs and split them into sections by
+ * their headings
+ * @param lines Lines of text, with empty lines between paragraphs
+ * @returns The cleaned text, with paragraphs separated by blank lines, and
+ * the text of each section found
+ */
+export function splitSections(lines: string[]): { text: string; sections: PaperSections } {
+  const paragraphs: string[] = [];
+  const sectionParagraphs: Partial<Record<PaperSection, string[]>> = {};
+  let section: PaperSection | null = null;
+  let pending: string[] = [];
+
+  const flush = () => {
+    const paragraph = joinLines(pending);
+    pending = [];
+    if (!paragraph) return;
+    paragraphs.push(paragraph);
+    if (section) {
+      (sectionParagraphs[section] ??= []).push(paragraph);
+    }
+  };
+
+  for (const rawLine of lines) {
+    const line = rawLine.normalize("NFKC").replace(/[\u0000-\u0008\u000e-\u001f\u00ad]/g, "").replace(/\s+/g, " ").trim();
+
+    // Blank lines end paragraphs; bare page numbers are dropped
+    if (!line || /^\d{1,4}$/.test(line)) {
+      if (!line) flush();
+      continue;
+    }
+
+    const heading = matchHeading(line);
+    if (heading) {
+      flush();
+      paragraphs.push(heading.rest ? line.slice(0, line.length - heading.rest.length).trim() : line);
+      section = heading.section;
+      if (heading.rest) pending.push(heading.rest);
+      continue;
+    }
+    pending.push(line);
+  }
+  flush();
+
+  const sections: PaperSections = {};
+  for (const [name, texts] of Object.entries(sectionParagraphs) as [PaperSection, string[]][]) {
+    sections[name] = texts.join("\n\n");
+  }
+  return { text: paragraphs.join("\n\n"), sections };
+}
+
+/**
+ * Get the text and sections of a paper's file, extracting them on first use
+ * and from the cache afterwards
+ * @param cid The IPFS CID of the file
+ * @returns The document, or null if the file is not found on IPFS
+ */
+export async function getPaperDocument(cid: string): Promise<PaperDocument | null> {
+  const cached = await storage.getPaperDocument(cid);
+  if (cached && cached.extractorVersion === EXTRACTOR_VERSION) {
+    return cached;
+  }
+
+  const content = await getIPFSContent(cid);
+  if (!content) {
+    return null;
+  }
+
+  const extracted = content.subarray(0, PDF_MAGIC.length).toString("latin1") === PDF_MAGIC
+    ? await extractPdfText(content)
+    : extractPlainText(content);
+  const { text, sections } = splitSections(extracted.lines);
+
+  return await storage.savePaperDocument({
+    cid,
+    format: extracted.format,
+    text,
+    sections,
+    pageCount: extracted.pageCount,
+    extractorVersion: EXTRACTOR_VERSION,
+  });
+}
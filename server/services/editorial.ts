@@ -0,0 +1,55 @@
+import { EDITORIAL_QUEUE_STATUSES } from '@shared/editorial';
+import type { EditorialQueueItem, ReviewInvitation, User } from '@shared/schema';
+import { storage } from '../storage';
+import { toPublicPaper } from '../auth';
+
+/**
+ * Gather the papers still in editorial review, oldest first, with their
+ * review invitations and the latest decision on each
+ */
+export async function getEditorialQueue(): Promise<EditorialQueueItem[]> {
+  const papers = await storage.getPapersByStatus(EDITORIAL_QUEUE_STATUSES);
+
+  return Promise.all(
+    papers.map(async (paper) => {
+      const [invitations, decisions] = await Promise.all([
+        storage.getReviewInvitationsForPaper(paper.id),
+        storage.getEditorialDecisionsForPaper(paper.id),
+      ]);
+      return { paper: toPublicPaper(paper), invitations, latestDecision: decisions[0] ?? null };
+    })
+  );
+}
+
+/**
+ * Look up the user an editor named as a reviewer
+ * @param identifier A wallet address, user ID or username
+ */
+export async function findReviewer(identifier: string): Promise<User | undefined> {
+  const value = identifier.trim();
+  if (/^0x[0-9a-fA-F]{40}$/.test(value)) {
+    return storage.getUserByWalletAddress(value.toLowerCase());
+  }
+  if (/^\d+$/.test(value)) {
+    return storage.getUser(parseInt(value));
+  }
+  return storage.getUserByUsername(value);
+}
+
+/**
+ * Whether a user is listed among a paper's authors, confirmed or not, and so
+ * may neither review it on invitation nor decide on it
+ */
+export async function isPaperAuthor(paperId: number, userId: number): Promise<boolean> {
+  const authors = await storage.getPaperAuthors(paperId);
+  return authors.some((author) => author.userId === userId);
+}
+
+/**
+ * Get a reviewer's latest invitation to a paper
+ * @returns The invitation, or undefined if the user was never invited to review the paper
+ */
+export async function getLatestInvitation(paperId: number, reviewerId: number): Promise<ReviewInvitation | undefined> {
+  const invitations = await storage.getReviewInvitationsForPaper(paperId);
+  return invitations.find((invitation) => invitation.reviewerId === reviewerId);
+}
@@ -0,0 +1,268 @@
+import { ethers } from 'ethers';
+import type { NewChainEvent } from '@shared/schema';
+import { storage } from '../storage';
+import type { NetworkContract } from '@shared/networks';
+import { CHAIN_ID, getContractAddress, getProvider } from './blockchain';
+
+interface IndexedContract {
+  name: string;
+  contract: NetworkContract; // Which deployed address to follow
+  abi: string[]; // The events to index, and any views used to sync state
+}
+
+// Contracts the indexer follows, including activity the server did not start
+const INDEXED_CONTRACTS: IndexedContract[] = [
+  {
+    name: 'ResearchToken',
+    contract: 'rewardToken',
+    abi: [
+      'event Transfer(address indexed from, address indexed to, uint256 value)',
+      'event RewardSettled(uint256 indexed rewardId, address indexed recipient, uint256 amount)',
+      'function balanceOf(address account) view returns (uint256)',
+    ],
+  },
+  {
+    name: 'PaperRegistry',
+    contract: 'paperRegistry',
+    abi: [
+      'event PaperRegistered(uint256 indexed paperId, address indexed author, string ipfsCid, string metadataHash)',
+      'event ReviewRegistered(uint256 indexed reviewId, uint256 indexed paperId, address indexed reviewer, bytes32 contentHash)',
+      'event RootAnchored(bytes32 indexed root, uint256 leafCount)',
+    ],
+  },
+];
+
+// Blocks this far behind the head are treated as final, blocks fetched per
+// request, and pause between runs
+const DEFAULT_CONFIRMATIONS = 12;
+const DEFAULT_BLOCK_RANGE = 2000;
+const DEFAULT_INTERVAL_MS = 15 * 1000;
+
+export interface IndexerOptions {
+  confirmations: number;
+  blockRange: number;
+  startBlock: number; // First block to index for a contract without a cursor
+}
+
+export interface IndexResult {
+  contract: string;
+  fromBlock: number;
+  toBlock: number;
+  events: number;
+  rewoundTo: number | null; // Set when a reorg moved the cursor back
+}
+
+type EventHandler = (contract: ethers.Contract, events: NewChainEvent[], blockNumber: number) => Promise<void>;
+
+// How events update the rest of storage. Handlers run before the cursor moves
+// and may see the same events again after a restart or reorg, so they must be
+// idempotent.
+const EVENT_HANDLERS: Record<string, EventHandler> = {
+  // Record the balance of every wallet a transfer touched, as of the indexed block
+  Transfer: refreshHoldings,
+
+  // The minted transaction is authoritative, e.g. when the settlement worker
+  // gave up waiting for a mint that was mined later
+  RewardSettled: async (_contract, events) => {
+    for (const event of events) {
+      await storage.setTokensTxHash([Number(event.args.rewardId)], event.txHash);
+    }
+  },
+
+  // Likewise for anchor batches whose root was anchored by an earlier run
+  RootAnchored: async (_contract, events) => {
+    for (const event of events) {
+      const batch = await storage.getAnchorBatchByRoot(event.args.root);
+      if (batch && batch.txHash !== event.txHash) {
+        await storage.setAnchorBatchTxHash(batch.id, event.txHash);
+      }
+    }
+  },
+};
+
+/**
+ * Store the token balances, as of a block, of the wallets in transfer events
+ */
+async function refreshHoldings(contract: ethers.Contract, events: NewChainEvent[], blockNumber: number): Promise<void> {
+  const wallets = new Set<string>();
+  for (const event of events) {
+    for (const wallet of [event.args.from, event.args.to]) {
+      if (wallet !== ethers.ZeroAddress) {
+        wallets.add(wallet.toLowerCase());
+      }
+    }
+  }
+
+  const tokenAddress = (await contract.getAddress()).toLowerCase();
+  for (const wallet of Array.from(wallets)) {
+    const balance: bigint = await contract.balanceOf(wallet, { blockTag: blockNumber });
+    await storage.upsertTokenHolding({
+      chainId: CHAIN_ID,
+      tokenAddress,
+      walletAddress: wallet,
+      balance: balance.toString(),
+      blockNumber,
+    });
+  }
+}
+
+function getIndexerOptions(): IndexerOptions {
+  return {
+    confirmations: Number(process.env.INDEXER_CONFIRMATIONS || DEFAULT_CONFIRMATIONS),
+    blockRange: Number(process.env.INDEXER_BLOCK_RANGE || DEFAULT_BLOCK_RANGE),
+    startBlock: Number(process.env.INDEXER_START_BLOCK || 0),
+  };
+}
+
+/**
+ * Get the indexed contracts that have a configured address
+ */
+function getConfiguredContracts(): { indexed: IndexedContract; address: string }[] {
+  return INDEXED_CONTRACTS.flatMap((indexed) => {
+    const address = getContractAddress(indexed.contract);
+    return address ? [{ indexed, address: ethers.getAddress(address) }] : [];
+  });
+}
+
+/**
+ * Decode a log's arguments into strings that can be stored as JSON
+ */
+function decodeArgs(parsed: ethers.LogDescription): Record<string, string> {
+  return Object.fromEntries(parsed.fragment.inputs.map((input, index) => [input.name, String(parsed.args[index])]));
+}
+
+/**
+ * Index the next range of confirmed blocks for a contract. If the block the
+ * cursor points at is no longer on the chain, the cursor is first moved back
+ * by the confirmation depth and the events after it are dropped, so they are
+ * indexed again from the new chain. Balances touched by dropped transfers are
+ * refreshed as of the block the cursor moved back to.
+ * @param indexed The contract's description
+ * @param address The contract's address
+ * @param options Confirmation depth, range size and start block
+ * @returns What was indexed, or null if there are no new confirmed blocks
+ */
+async function indexContract(indexed: IndexedContract, address: string, options: IndexerOptions): Promise<IndexResult | null> {
+  const provider = getProvider();
+  const contract = new ethers.Contract(address, indexed.abi, provider);
+  const contractAddress = address.toLowerCase();
+
+  const cursor = await storage.getIndexerCursor(CHAIN_ID, contractAddress);
+  let lastBlock = cursor ? cursor.blockNumber : options.startBlock - 1;
+  let rewoundTo: number | null = null;
+
+  if (cursor?.blockHash) {
+    const block = await provider.getBlock(cursor.blockNumber);
+    if (block?.hash !== cursor.blockHash) {
+      lastBlock = Math.max(cursor.blockNumber - options.confirmations, options.startBlock - 1);
+      const rewindBlock = lastBlock >= 0 ? await provider.getBlock(lastBlock) : null;
+      const dropped = await storage.rewindIndexer({
+        chainId: CHAIN_ID,
+        contractAddress,
+        blockNumber: lastBlock,
+        blockHash: rewindBlock?.hash ?? null,
+      });
+      const droppedTransfers = dropped.filter((event) => event.eventName === 'Transfer');
+      if (droppedTransfers.length > 0) {
+        await refreshHoldings(contract, droppedTransfers, Math.max(lastBlock, 0));
+      }
+      rewoundTo = lastBlock;
+    }
+  }
+
+  const head = await provider.getBlockNumber();
+  const fromBlock = lastBlock + 1;
+  const toBlock = Math.min(head - options.confirmations, fromBlock + options.blockRange - 1);
+  if (toBlock < fromBlock) {
+    return rewoundTo === null ? null : { contract: indexed.name, fromBlock, toBlock: lastBlock, events: 0, rewoundTo };
+  }
+
+  const [logs, block] = await Promise.all([
+    provider.getLogs({ address, fromBlock, toBlock }),
+    provider.getBlock(toBlock),
+  ]);
+  if (!block?.hash) {
+    throw new Error(`Block ${toBlock} not found`);
+  }
+
+  const events: NewChainEvent[] = [];
+  for (const log of logs) {
+    const parsed = contract.interface.parseLog(log);
+    if (!parsed) continue; // An event the indexer does not follow
+
+    events.push({
+      chainId: CHAIN_ID,
+      contractAddress,
+      eventName: parsed.name,
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      txHash: log.transactionHash,
+      logIndex: log.index,
+      args: decodeArgs(parsed),
+    });
+  }
+
+  for (const [eventName, handler] of Object.entries(EVENT_HANDLERS)) {
+    const matching = events.filter((event) => event.eventName === eventName);
+    if (matching.length > 0) {
+      await handler(contract, matching, toBlock);
+    }
+  }
+
+  await storage.saveIndexedEvents({ chainId: CHAIN_ID, contractAddress, blockNumber: toBlock, blockHash: block.hash }, events);
+  return { contract: indexed.name, fromBlock, toBlock, events: events.length, rewoundTo };
+}
+
+/**
+ * Index every configured contract up to the latest confirmed block, resuming
+ * from each contract's stored cursor
+ * @param options Overrides for the INDEXER_* settings
+ * @returns The ranges that were indexed
+ */
+export async function syncChainEvents(options: Partial<IndexerOptions> = {}): Promise<IndexResult[]> {
+  const resolved = { ...getIndexerOptions(), ...options };
+  const results: IndexResult[] = [];
+
+  for (const { indexed, address } of getConfiguredContracts()) {
+    let result: IndexResult | null;
+    while ((result = await indexContract(indexed, address, resolved))) {
+      results.push(result);
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Periodically index contract events in the background. Does nothing unless
+ * at least one indexed contract's address is configured.
+ * @returns A function that stops the worker, or null if it was not started
+ */
+export function startIndexerWorker(): (() => void) | null {
+  if (getConfiguredContracts().length === 0) {
+    console.log('Chain indexer disabled: set REWARD_TOKEN_ADDRESS or PAPER_REGISTRY_ADDRESS to enable it');
+    return null;
+  }
+
+  const intervalMs = Number(process.env.INDEXER_INTERVAL_MS || DEFAULT_INTERVAL_MS);
+
+  let running = false;
+  const timer = setInterval(async () => {
+    // Don't start a run while the previous one is still catching up
+    if (running) return;
+    running = true;
+    try {
+      const results = await syncChainEvents();
+      const events = results.reduce((total, result) => total + result.events, 0);
+      if (events > 0) {
+        console.log(`Indexed ${events} contract events`);
+      }
+    } catch (error) {
+      console.error('Error indexing contract events:', error);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,180 @@
+import { storage } from '../storage';
+import { computeCid, computeRawBlockCid } from './ipfs-providers';
+import { getIPFSContent } from './ipfs';
+
+export interface IntegrityIssue {
+  field: string;
+  code:
+    | 'CID_NOT_UPLOADED'
+    | 'CID_UNAVAILABLE'
+    | 'CID_CONTENT_MISMATCH'
+    | 'METADATA_INVALID'
+    | 'METADATA_MISMATCH';
+  message: string;
+  expected?: unknown;
+  actual?: unknown;
+}
+
+/**
+ * Thrown when submitted IPFS references don't check out. Routes turn it into
+ * a 422 response listing every issue found.
+ */
+export class ContentVerificationError extends Error {
+  status = 422;
+
+  constructor(public issues: IntegrityIssue[]) {
+    super(`Content verification failed: ${issues.map((issue) => issue.message).join('; ')}`);
+    this.name = 'ContentVerificationError';
+  }
+}
+
+export interface PaperContentClaim {
+  ipfsCid: string;
+  metadataHash: string;
+  title: string;
+  abstract: string;
+  tags: string[];
+  authorWallet: string;
+}
+
+/**
+ * Record content received by the server under the CID the IPFS provider
+ * returned, together with the CID the server computed from the bytes itself
+ * @param cid The CID returned by the IPFS provider
+ * @param content The bytes that were uploaded
+ * @param kind What the content is
+ * @param uploaderId The user who uploaded it
+ */
+export async function recordUpload(
+  cid: string,
+  content: Buffer,
+  kind: 'file' | 'metadata',
+  uploaderId: number
+): Promise<void> {
+  await storage.recordIpfsUpload({
+    cid,
+    contentCid: computeCid(content),
+    size: content.length,
+    kind,
+    uploaderId,
+  });
+}
+
+/**
+ * Check that content was uploaded through this server and that what IPFS
+ * returns for it today still hashes to what was uploaded
+ * @param field The request field the CID came from, for error reporting
+ * @param cid The CID to check
+ * @returns The verified content, or the issue that was found
+ */
+export async function verifyUploadedContent(
+  field: string,
+  cid: string
+): Promise<{ content: Buffer } | { issue: IntegrityIssue }> {
+  const upload = await storage.getIpfsUpload(cid);
+  if (!upload) {
+    return {
+      issue: { field, code: 'CID_NOT_UPLOADED', message: `${cid} was never uploaded to this platform` },
+    };
+  }
+
+  const content = await getIPFSContent(cid);
+  if (!content) {
+    return {
+      issue: { field, code: 'CID_UNAVAILABLE', message: `${cid} could not be fetched from IPFS` },
+    };
+  }
+
+  const contentCid = computeCid(content);
+  // Uploads recorded before large files were chunked hold the single-block CID
+  if (contentCid !== upload.contentCid && computeRawBlockCid(content) !== upload.contentCid) {
+    return {
+      issue: {
+        field,
+        code: 'CID_CONTENT_MISMATCH',
+        message: `Content fetched for ${cid} does not match what was uploaded`,
+        expected: upload.contentCid,
+        actual: contentCid,
+      },
+    };
+  }
+
+  return { content };
+}
+
+/**
+ * Verify the CIDs of a paper submission: the manuscript and metadata must
+ * both have been uploaded here and still be retrievable, and the metadata
+ * JSON must describe the submitted title, abstract, tags and author
+ * @param claim What the submitter says the CIDs contain
+ * @throws ContentVerificationError listing every issue found
+ */
+export async function verifyPaperContent(claim: PaperContentClaim): Promise<void> {
+  const issues: IntegrityIssue[] = [];
+
+  const [paperResult, metadataResult] = await Promise.all([
+    verifyUploadedContent('ipfsCid', claim.ipfsCid),
+    verifyUploadedContent('metadataHash', claim.metadataHash),
+  ]);
+
+  if ('issue' in paperResult) {
+    issues.push(paperResult.issue);
+  }
+
+  if ('issue' in metadataResult) {
+    issues.push(metadataResult.issue);
+  } else {
+    issues.push(...compareMetadata(metadataResult.content, claim));
+  }
+
+  if (issues.length > 0) {
+    throw new ContentVerificationError(issues);
+  }
+}
+
+function compareMetadata(content: Buffer, claim: PaperContentClaim): IntegrityIssue[] {
+  let metadata: any;
+  try {
+    metadata = JSON.parse(content.toString('utf-8'));
+  } catch {
+    return [{ field: 'metadataHash', code: 'METADATA_INVALID', message: 'Metadata is not valid JSON' }];
+  }
+
+  if (!metadata || typeof metadata !== 'object') {
+    return [{ field: 'metadataHash', code: 'METADATA_INVALID', message: 'Metadata is not a JSON object' }];
+  }
+
+  const issues: IntegrityIssue[] = [];
+  const mismatch = (field: string, expected: unknown, actual: unknown) => {
+    issues.push({
+      field,
+      code: 'METADATA_MISMATCH',
+      message: `Metadata ${field} does not match the submitted ${field}`,
+      expected,
+      actual,
+    });
+  };
+
+  if (metadata.title !== claim.title) {
+    mismatch('title', claim.title, metadata.title);
+  }
+
+  if (metadata.abstract !== claim.abstract) {
+    mismatch('abstract', claim.abstract, metadata.abstract);
+  }
+
+  const metadataTags: unknown[] = Array.isArray(metadata.tags) ? [...metadata.tags].sort() : [];
+  const claimedTags = [...claim.tags].sort();
+  const sameTags =
+    metadataTags.length === claimedTags.length &&
+    metadataTags.every((tag, i) => tag === claimedTags[i]);
+  if (!sameTags) {
+    mismatch('tags', claim.tags, metadata.tags);
+  }
+
+  if (typeof metadata.author !== 'string' || metadata.author.toLowerCase() !== claim.authorWallet.toLowerCase()) {
+    mismatch('author', claim.authorWallet, metadata.author);
+  }
+
+  return issues;
+}
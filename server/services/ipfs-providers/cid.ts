@@ -0,0 +1,161 @@
+import { createHash } from 'crypto';
+
+// Multiformats codes used in the CIDs we compute
+const CID_VERSION = 0x01;
+const RAW_CODEC = 0x55;
+const DAG_PB_CODEC = 0x70;
+const SHA2_256 = 0x12;
+const SHA2_256_LENGTH = 0x20;
+
+// Kubo's defaults for `ipfs add`: fixed-size chunks and a balanced DAG
+const CHUNK_SIZE = 256 * 1024;
+const MAX_LINKS_PER_NODE = 174;
+
+// UnixFS node type for file contents
+const UNIXFS_FILE = 2;
+
+const BASE32_ALPHABET = 'abcdefghijklmnopqrstuvwxyz234567';
+
+// A block of the file DAG, with the sizes its parent link records
+interface DagNode {
+  cid: Buffer;
+  fileSize: number;
+  treeSize: number;
+}
+
+/**
+ * Compute the CIDv1 Kubo reports for `ipfs add --cid-version=1 --raw-leaves`
+ * with its default chunker and layout. Content that fits in one 256 KiB chunk
+ * is a single raw block; larger content is split into raw leaves under a
+ * balanced tree of UnixFS dag-pb nodes, and the CID is that of the root.
+ * @param content The bytes to hash
+ * @returns The base32 CIDv1 string, e.g. "bafkrei..." or "bafybei..."
+ */
+export function computeCid(content: Buffer): string {
+  if (content.length <= CHUNK_SIZE) {
+    return computeRawBlockCid(content);
+  }
+
+  const leaves: DagNode[] = [];
+  for (let offset = 0; offset < content.length; offset += CHUNK_SIZE) {
+    const chunk = content.subarray(offset, offset + CHUNK_SIZE);
+    leaves.push({ cid: cidBytes(RAW_CODEC, chunk), fileSize: chunk.length, treeSize: chunk.length });
+  }
+
+  // The balanced layout fills each level completely before adding the next
+  let root = leaves[0];
+  let next = 1;
+  for (let depth = 1; next < leaves.length; depth++) {
+    const children = [root];
+    while (children.length < MAX_LINKS_PER_NODE && next < leaves.length) {
+      const [child, used] = fillNode(leaves, next, depth - 1);
+      children.push(child);
+      next += used;
+    }
+    root = fileNode(children);
+  }
+
+  return 'b' + toBase32(root.cid);
+}
+
+/**
+ * Compute the CIDv1 of content stored as a single raw block: raw codec,
+ * sha2-256 multihash, multibase base32. This matches what Kubo reports only
+ * for content of up to 256 KiB; use computeCid for anything else.
+ * @param content The bytes to hash
+ * @returns The base32 CIDv1 string, e.g. "bafkrei..."
+ */
+export function computeRawBlockCid(content: Buffer): string {
+  return 'b' + toBase32(cidBytes(RAW_CODEC, content));
+}
+
+/**
+ * Check that a string looks like a CIDv0 or base32 CIDv1
+ */
+export function isValidCid(cid: string): boolean {
+  return /^Qm[1-9A-HJ-NP-Za-km-z]{44}$/.test(cid) || /^b[a-z2-7]{50,}$/.test(cid);
+}
+
+// RFC 4648 base32, lowercase and unpadded as multibase requires
+function toBase32(bytes: Buffer): string {
+  let output = '';
+  let buffer = 0;
+  let bits = 0;
+
+  for (let i = 0; i < bytes.length; i++) {
+    buffer = (buffer << 8) | bytes[i];
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(buffer >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(buffer << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+// Build a full subtree of the given depth from the leaves starting at `start`,
+// returning it with the number of leaves it used
+function fillNode(leaves: DagNode[], start: number, depth: number): [DagNode, number] {
+  if (depth === 0) return [leaves[start], 1];
+
+  const children: DagNode[] = [];
+  let used = 0;
+  while (children.length < MAX_LINKS_PER_NODE && start + used < leaves.length) {
+    const [child, childUsed] = fillNode(leaves, start + used, depth - 1);
+    children.push(child);
+    used += childUsed;
+  }
+  return [fileNode(children), used];
+}
+
+// Encode a UnixFS file node linking to its children, as go-merkledag does:
+// links first, each with an empty name, then the UnixFS data
+function fileNode(children: DagNode[]): DagNode {
+  const fileSize = children.reduce((sum, child) => sum + child.fileSize, 0);
+
+  const data = [protoVarint(1, UNIXFS_FILE), protoVarint(3, fileSize)];
+  for (const child of children) {
+    data.push(protoVarint(4, child.fileSize));
+  }
+
+  const parts = children.map((child) =>
+    protoBytes(
+      2,
+      Buffer.concat([protoBytes(1, child.cid), protoBytes(2, Buffer.alloc(0)), protoVarint(3, child.treeSize)])
+    )
+  );
+  parts.push(protoBytes(1, Buffer.concat(data)));
+
+  const block = Buffer.concat(parts);
+  const treeSize = children.reduce((sum, child) => sum + child.treeSize, block.length);
+  return { cid: cidBytes(DAG_PB_CODEC, block), fileSize, treeSize };
+}
+
+function cidBytes(codec: number, block: Buffer): Buffer {
+  const digest = createHash('sha256').update(block).digest();
+  return Buffer.concat([Buffer.from([CID_VERSION, codec, SHA2_256, SHA2_256_LENGTH]), digest]);
+}
+
+function protoVarint(field: number, value: number): Buffer {
+  return Buffer.concat([varint(field << 3), varint(value)]);
+}
+
+function protoBytes(field: number, value: Buffer): Buffer {
+  return Buffer.concat([varint((field << 3) | 2), varint(value.length), value]);
+}
+
+// Unsigned LEB128; values stay well below 2^53 so plain arithmetic is safe
+function varint(value: number): Buffer {
+  const bytes: number[] = [];
+  while (value >= 0x80) {
+    bytes.push((value % 0x80) | 0x80);
+    value = Math.floor(value / 0x80);
+  }
+  bytes.push(value);
+  return Buffer.from(bytes);
+}
@@ -0,0 +1,34 @@
+import path from 'path';
+import { KuboProvider } from './kubo';
+import { LocalProvider } from './local';
+import { PinataProvider } from './pinata';
+import type { IpfsProvider } from './types';
+
+export type { IpfsProvider } from './types';
+export { computeCid, computeRawBlockCid, isValidCid } from './cid';
+
+/**
+ * Pick the IPFS backend from configuration. IPFS_PROVIDER may be "pinata",
+ * "kubo" or "local"; when unset, Pinata is used if its keys are configured
+ * and the local on-disk store otherwise.
+ */
+export function createIpfsProvider(): IpfsProvider {
+  const credentials = {
+    apiKey: process.env.PINATA_API_KEY,
+    secretApiKey: process.env.PINATA_SECRET_API_KEY,
+    jwt: process.env.PINATA_JWT,
+  };
+  const hasPinataKeys = !!credentials.jwt || (!!credentials.apiKey && !!credentials.secretApiKey);
+  const providerName = process.env.IPFS_PROVIDER || (hasPinataKeys ? 'pinata' : 'local');
+
+  switch (providerName) {
+    case 'pinata':
+      return new PinataProvider(credentials);
+    case 'kubo':
+      return new KuboProvider(process.env.KUBO_API_URL || 'http://127.0.0.1:5001');
+    case 'local':
+      return new LocalProvider(path.resolve(process.env.IPFS_LOCAL_DIR || '.ipfs-data'));
+    default:
+      throw new Error(`Unknown IPFS_PROVIDER "${providerName}", expected "pinata", "kubo" or "local"`);
+  }
+}
@@ -0,0 +1,61 @@
+import axios from 'axios';
+import FormData from 'form-data';
+import type { IpfsProvider } from './types';
+
+/**
+ * Talks to the HTTP RPC API of a Kubo (go-ipfs) node, e.g. one started with
+ * `ipfs daemon` on the default http://127.0.0.1:5001.
+ */
+export class KuboProvider implements IpfsProvider {
+  readonly name = 'kubo';
+
+  constructor(private apiUrl: string) {
+    this.apiUrl = apiUrl.replace(/\/$/, '');
+  }
+
+  async add(content: Buffer): Promise<string> {
+    const formData = new FormData();
+    formData.append('file', content, { filename: `file-${Date.now()}` });
+
+    const response = await axios.post(`${this.apiUrl}/api/v0/add`, formData, {
+      params: { 'cid-version': 1, 'raw-leaves': true, pin: true },
+      headers: formData.getHeaders(),
+      maxBodyLength: Infinity,
+    });
+    return response.data.Hash;
+  }
+
+  async get(cid: string): Promise<Buffer | null> {
+    try {
+      const response = await axios.post(`${this.apiUrl}/api/v0/cat`, null, {
+        params: { arg: cid },
+        responseType: 'arraybuffer',
+        timeout: 10000, // 10 second timeout
+      });
+      return Buffer.from(response.data);
+    } catch (error) {
+      console.error('Error retrieving from Kubo:', error);
+      return null;
+    }
+  }
+
+  async exists(cid: string): Promise<boolean> {
+    try {
+      await axios.post(`${this.apiUrl}/api/v0/block/stat`, null, {
+        params: { arg: cid },
+        timeout: 5000, // 5 second timeout
+      });
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  async pin(cid: string): Promise<void> {
+    await axios.post(`${this.apiUrl}/api/v0/pin/add`, null, { params: { arg: cid } });
+  }
+
+  async unpin(cid: string): Promise<void> {
+    await axios.post(`${this.apiUrl}/api/v0/pin/rm`, null, { params: { arg: cid } });
+  }
+}
@@ -0,0 +1,72 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { computeCid, isValidCid } from './cid';
+import type { IpfsProvider } from './types';
+
+/**
+ * An in-process store for development and tests. Content is kept on disk as
+ * one file named by its real CIDv1, chunked the way Kubo does, so CIDs match
+ * what a Kubo node would report for the same file. Unpinning deletes the
+ * file, which stands in for garbage collection.
+ */
+export class LocalProvider implements IpfsProvider {
+  readonly name = 'local';
+
+  private blocksDir: string;
+  private pinsDir: string;
+
+  constructor(dataDir: string) {
+    this.blocksDir = path.join(dataDir, 'blocks');
+    this.pinsDir = path.join(dataDir, 'pins');
+  }
+
+  async add(content: Buffer): Promise<string> {
+    const cid = computeCid(content);
+    await fs.mkdir(this.blocksDir, { recursive: true });
+    await fs.writeFile(this.blockPath(cid), content);
+    await this.pin(cid);
+    return cid;
+  }
+
+  async get(cid: string): Promise<Buffer | null> {
+    if (!isValidCid(cid)) return null;
+
+    try {
+      const content = await fs.readFile(this.blockPath(cid));
+      // Never serve a block whose bytes no longer match its name
+      return computeCid(content) === cid ? content : null;
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async exists(cid: string): Promise<boolean> {
+    if (!isValidCid(cid)) return false;
+
+    try {
+      await fs.access(this.blockPath(cid));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async pin(cid: string): Promise<void> {
+    if (!(await this.exists(cid))) {
+      throw new Error(`Cannot pin ${cid}: block not found in local store`);
+    }
+    await fs.mkdir(this.pinsDir, { recursive: true });
+    await fs.writeFile(path.join(this.pinsDir, cid), '');
+  }
+
+  async unpin(cid: string): Promise<void> {
+    if (!isValidCid(cid)) return;
+    await fs.rm(path.join(this.pinsDir, cid), { force: true });
+    await fs.rm(this.blockPath(cid), { force: true });
+  }
+
+  private blockPath(cid: string): string {
+    return path.join(this.blocksDir, cid);
+  }
+}
@@ -0,0 +1,95 @@
+import axios from 'axios';
+import FormData from 'form-data';
+import type { IpfsProvider } from './types';
+
+// Gateway for IPFS content retrieval
+const PINATA_GATEWAY = 'https://gateway.pinata.cloud/ipfs/';
+const PINATA_API = 'https://api.pinata.cloud';
+
+export interface PinataCredentials {
+  apiKey?: string;
+  secretApiKey?: string;
+  jwt?: string;
+}
+
+/**
+ * Stores content with the Pinata pinning service and reads it back through
+ * the Pinata gateway.
+ */
+export class PinataProvider implements IpfsProvider {
+  readonly name = 'pinata';
+
+  constructor(private credentials: PinataCredentials) {
+    if (!credentials.jwt && (!credentials.apiKey || !credentials.secretApiKey)) {
+      throw new Error('Pinata API keys not configured');
+    }
+  }
+
+  async add(content: Buffer): Promise<string> {
+    const formData = new FormData();
+    formData.append('file', content, {
+      filename: `file-${Date.now()}`, // Generate a unique filename
+    });
+
+    const response = await axios.post(`${PINATA_API}/pinning/pinFileToIPFS`, formData, {
+      headers: {
+        'Content-Type': `multipart/form-data; boundary=${formData.getBoundary()}`,
+        ...this.authHeaders(),
+      },
+    });
+
+    if (response.status !== 200) {
+      throw new Error(`Pinata upload failed: ${response.statusText}`);
+    }
+    return response.data.IpfsHash;
+  }
+
+  async get(cid: string): Promise<Buffer | null> {
+    try {
+      const response = await axios.get(`${PINATA_GATEWAY}${cid}`, {
+        responseType: 'arraybuffer',
+        timeout: 10000, // 10 second timeout
+      });
+      return response.status === 200 ? Buffer.from(response.data) : null;
+    } catch (error) {
+      console.error('Error retrieving from Pinata gateway:', error);
+      return null;
+    }
+  }
+
+  async exists(cid: string): Promise<boolean> {
+    try {
+      const response = await axios.head(`${PINATA_GATEWAY}${cid}`, {
+        timeout: 5000, // 5 second timeout
+      });
+      return response.status === 200;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  async pin(cid: string): Promise<void> {
+    await axios.post(
+      `${PINATA_API}/pinning/pinByHash`,
+      { hashToPin: cid },
+      { headers: this.authHeaders() }
+    );
+  }
+
+  async unpin(cid: string): Promise<void> {
+    await axios.delete(`${PINATA_API}/pinning/unpin/${cid}`, {
+      headers: this.authHeaders(),
+    });
+  }
+
+  // Prefer the scoped JWT when one is configured
+  private authHeaders(): Record<string, string> {
+    if (this.credentials.jwt) {
+      return { Authorization: `Bearer ${this.credentials.jwt}` };
+    }
+    return {
+      pinata_api_key: this.credentials.apiKey!,
+      pinata_secret_api_key: this.credentials.secretApiKey!,
+    };
+  }
+}
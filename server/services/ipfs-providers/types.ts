@@ -0,0 +1,35 @@
+/**
+ * A content-addressed store that papers, metadata and reviews are written to.
+ * Implementations talk to Pinata, a Kubo node, or keep blocks on local disk.
+ */
+export interface IpfsProvider {
+  readonly name: string;
+
+  /**
+   * Add content and pin it
+   * @param content The bytes to store
+   * @returns The CID of the stored content
+   */
+  add(content: Buffer): Promise<string>;
+
+  /**
+   * Get content by CID
+   * @returns The content, or null if it can't be found
+   */
+  get(cid: string): Promise<Buffer | null>;
+
+  /**
+   * Check whether content is retrievable
+   */
+  exists(cid: string): Promise<boolean>;
+
+  /**
+   * Pin content that is already on the network so it isn't garbage collected
+   */
+  pin(cid: string): Promise<void>;
+
+  /**
+   * Remove the pin for content, allowing it to be garbage collected
+   */
+  unpin(cid: string): Promise<void>;
+}
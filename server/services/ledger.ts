@@ -0,0 +1,56 @@
+import {
+  TREASURY_ACCOUNT, parseAccount,
+  type LedgerAccountTotals, type LedgerDrift, type LedgerVerification, type RecordedBalance
+} from '@shared/ledger';
+import { storage } from '../storage';
+
+/**
+ * Reconcile the balances cached on users and papers against the ledger
+ * @returns Every cached balance that disagrees with the ledger, and any
+ * ledger accounts that can't be attributed to a treasury, user or paper
+ */
+export async function verifyLedger(): Promise<LedgerVerification> {
+  const [totals, recorded] = await Promise.all([
+    storage.getLedgerAccountTotals(),
+    storage.getRecordedBalances(),
+  ]);
+
+  const totalsByAccount = new Map(totals.map((accountTotals) => [accountTotals.account, accountTotals]));
+  const empty = (account: string): LedgerAccountTotals => ({ account, debits: 0, credits: 0 });
+
+  const drift: LedgerDrift[] = [];
+  for (const balance of recorded) {
+    const expected = expectedValue(balance, totalsByAccount.get(balance.account) || empty(balance.account));
+    if (balance.value !== expected) {
+      drift.push({ ...balance, expected });
+    }
+  }
+
+  const treasury = totalsByAccount.get(TREASURY_ACCOUNT) || empty(TREASURY_ACCOUNT);
+  const unknownAccounts = totals
+    .map((accountTotals) => accountTotals.account)
+    .filter((account) => !parseAccount(account));
+
+  return {
+    ok: drift.length === 0 && unknownAccounts.length === 0,
+    checkedAt: new Date().toISOString(),
+    totalSupply: treasury.debits - treasury.credits,
+    unknownAccounts,
+    drift,
+  };
+}
+
+/**
+ * What the ledger says a cached balance should be. A user's balance is what
+ * they hold now, while their token history and a paper's token count only
+ * ever grow, so they are compared with credits alone.
+ */
+function expectedValue(balance: RecordedBalance, totals: LedgerAccountTotals): number {
+  switch (balance.field) {
+    case 'tokenBalance':
+      return totals.credits - totals.debits;
+    case 'tokenHistory':
+    case 'tokenCount':
+      return totals.credits;
+  }
+}
@@ -0,0 +1,80 @@
+import type { Reputation, ResearcherProfile, User } from '@shared/schema';
+import { storage } from '../storage';
+import { toPublicPaper, toPublicUser } from '../auth';
+
+// Points each contribution adds to a researcher's reputation score
+const PUBLICATION_POINTS = 10;
+const VERIFIED_PUBLICATION_POINTS = 5;
+const REVIEW_POINTS = 3;
+
+/**
+ * Gather everything shown on a researcher's profile page
+ * @param user The researcher
+ * @returns Their papers, reviews, token history and reputation
+ */
+export async function getResearcherProfile(user: User): Promise<ResearcherProfile> {
+  const [papers, reviews, tokens] = await Promise.all([
+    storage.getPapersByAuthor(user.id),
+    storage.getReviewsByReviewer(user.id),
+    storage.getUserTokens(user.id),
+  ]);
+
+  // Only authorship the researcher has confirmed counts towards reputation
+  const publications = papers.filter((paper) =>
+    paper.authors.some((author) => author.userId === user.id && author.confirmed)
+  );
+
+  const ratingsReceived: number[] = [];
+  for (const paper of publications) {
+    const paperReviews = await storage.getReviewsForPaper(paper.id);
+    ratingsReceived.push(...paperReviews.map((review) => review.rating));
+  }
+
+  return {
+    user: toPublicUser(user),
+    papers: papers.map(toPublicPaper),
+    reviews,
+    tokens,
+    reputation: computeReputation({
+      publications: publications.length,
+      verifiedPublications: publications.filter((paper) => paper.aiVerified).length,
+      reviewsWritten: reviews.length,
+      ratingsReceived,
+      tokensEarned: tokens.reduce((sum, token) => sum + token.amount, 0),
+    }),
+  };
+}
+
+/**
+ * Score a researcher's contributions. Reviews their papers received scale the
+ * publication points: an average rating of 3 out of 5 leaves them unchanged.
+ */
+export function computeReputation(contributions: {
+  publications: number;
+  verifiedPublications: number;
+  reviewsWritten: number;
+  ratingsReceived: number[];
+  tokensEarned: number;
+}): Reputation {
+  const { publications, verifiedPublications, reviewsWritten, ratingsReceived, tokensEarned } = contributions;
+
+  const averageRatingReceived = ratingsReceived.length > 0
+    ? ratingsReceived.reduce((sum, rating) => sum + rating, 0) / ratingsReceived.length
+    : null;
+  const ratingFactor = averageRatingReceived === null ? 1 : averageRatingReceived / 3;
+
+  const score = Math.round(
+    publications * PUBLICATION_POINTS * ratingFactor +
+    verifiedPublications * VERIFIED_PUBLICATION_POINTS +
+    reviewsWritten * REVIEW_POINTS
+  );
+
+  return {
+    score,
+    publications,
+    verifiedPublications,
+    reviewsWritten,
+    averageRatingReceived,
+    tokensEarned,
+  };
+}
@@ -0,0 +1,104 @@
+import { ethers } from 'ethers';
+import { storage } from '../storage';
+import { getContractAddress, getServerWallet } from './blockchain';
+import { trackTransaction } from './transactions';
+
+// The parts of contracts/ResearchToken.sol the settlement worker calls
+const REWARD_TOKEN_ABI = [
+  'function mintRewards(uint256[] rewardIds, address[] recipients, uint256[] amounts)',
+  'function settled(uint256 rewardId) view returns (bool)',
+  'function decimals() view returns (uint8)',
+];
+
+// Default rewards minted per transaction and pause between batches
+const DEFAULT_BATCH_SIZE = 50;
+const DEFAULT_INTERVAL_MS = 60 * 1000;
+
+export interface SettlementResult {
+  txHash: string;
+  tokenIds: number[];
+}
+
+/**
+ * Get the reward token contract, connected to the server wallet
+ * @returns The contract or null if the token is not deployed on the network or the server key is not configured
+ */
+function getRewardToken(): ethers.Contract | null {
+  const address = getContractAddress('rewardToken');
+  const wallet = getServerWallet();
+  if (!address || !wallet) {
+    return null;
+  }
+  return new ethers.Contract(address, REWARD_TOKEN_ABI, wallet);
+}
+
+/**
+ * Mint one batch of pending token rewards. The rewards are marked with the
+ * transaction hash as soon as it is sent, so the next batch won't pick them
+ * up again. The transaction watcher follows the mint from there, and unmarks
+ * the rewards if it reverts or is dropped. The contract skips rewards it has
+ * already minted, so resending a batch never pays twice.
+ * @param batchSize The most rewards to mint in the transaction
+ * @returns The transaction and the rewards it settled, or null if nothing was pending
+ */
+export async function settlePendingRewards(batchSize = DEFAULT_BATCH_SIZE): Promise<SettlementResult | null> {
+  const token = getRewardToken();
+  if (!token) {
+    throw new Error('REWARD_TOKEN_ADDRESS and BLOCKCHAIN_PRIVATE_KEY must be set to settle rewards');
+  }
+
+  const pending = await storage.getUnsettledTokens(batchSize);
+  if (pending.length === 0) {
+    return null;
+  }
+
+  const decimals: bigint = await token.decimals();
+  const tokenIds = pending.map((reward) => reward.id);
+  const tx: ethers.ContractTransactionResponse = await token.mintRewards(
+    tokenIds,
+    pending.map((reward) => ethers.getAddress(reward.walletAddress)),
+    pending.map((reward) => ethers.parseUnits(String(reward.amount), decimals)),
+  );
+  await storage.setTokensTxHash(tokenIds, tx.hash);
+  await trackTransaction('reward_settlement', tx);
+
+  return { txHash: tx.hash, tokenIds };
+}
+
+/**
+ * Periodically mint pending token rewards in the background. Does nothing
+ * unless the reward token and server key are configured.
+ * @returns A function that stops the worker, or null if it was not started
+ */
+export function startSettlementWorker(): (() => void) | null {
+  if (!getRewardToken()) {
+    console.log('Reward settlement disabled: set REWARD_TOKEN_ADDRESS and BLOCKCHAIN_PRIVATE_KEY to enable it');
+    return null;
+  }
+
+  const batchSize = Number(process.env.SETTLEMENT_BATCH_SIZE || DEFAULT_BATCH_SIZE);
+  const intervalMs = Number(process.env.SETTLEMENT_INTERVAL_MS || DEFAULT_INTERVAL_MS);
+
+  let running = false;
+  const timer = setInterval(async () => {
+    // Don't start a run while the previous one is still sending
+    if (running) return;
+    running = true;
+    try {
+      // Keep minting full batches until the backlog is cleared
+      let result: SettlementResult | null;
+      do {
+        result = await settlePendingRewards(batchSize);
+        if (result) {
+          console.log(`Settled ${result.tokenIds.length} rewards in ${result.txHash}`);
+        }
+      } while (result && result.tokenIds.length === batchSize);
+    } catch (error) {
+      console.error('Error settling rewards:', error);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+
+  return () => clearInterval(timer);
+}
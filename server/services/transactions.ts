@@ -0,0 +1,225 @@
+import { ethers } from 'ethers';
+import type { Transaction } from '@shared/schema';
+import type { TransactionKind } from '@shared/transactions';
+import { storage } from '../storage';
+import { getCurrentGasPrice, getProvider, getServerWallet } from './blockchain';
+
+// Default pause between checks, confirmations after which a transaction is
+// final, how long a transaction may stay unmined before it is replaced, and
+// how many times one nonce is replaced before the watcher gives up
+const DEFAULT_INTERVAL_MS = 15 * 1000;
+const DEFAULT_FINALITY_CONFIRMATIONS = 12;
+const DEFAULT_STUCK_AFTER_MS = 5 * 60 * 1000;
+const DEFAULT_MAX_REPLACEMENTS = 3;
+
+// Transactions checked per run
+const WATCH_BATCH_SIZE = 100;
+
+// A replacement pays this percentage of the stuck transaction's gas price, or
+// the network's current price if higher; nodes require at least a 10% bump
+const GAS_BUMP_PERCENT = 125;
+
+// Replacements followed when resolving a transaction to its latest copy
+const MAX_REPLACEMENT_CHAIN = 10;
+
+export interface WatcherOptions {
+  finalityConfirmations: number;
+  stuckAfterMs: number;
+  maxReplacements: number;
+}
+
+function getWatcherOptions(): WatcherOptions {
+  return {
+    finalityConfirmations: Number(process.env.TX_FINALITY_CONFIRMATIONS || DEFAULT_FINALITY_CONFIRMATIONS),
+    stuckAfterMs: Number(process.env.TX_STUCK_AFTER_MS || DEFAULT_STUCK_AFTER_MS),
+    maxReplacements: Number(process.env.TX_MAX_REPLACEMENTS || DEFAULT_MAX_REPLACEMENTS),
+  };
+}
+
+/**
+ * Start tracking a transaction the server has sent
+ * @param kind What the transaction does
+ * @param tx The sent transaction
+ * @returns The tracked transaction, pending
+ */
+export async function trackTransaction(kind: TransactionKind, tx: ethers.TransactionResponse): Promise<Transaction> {
+  return storage.createTransaction({
+    txHash: tx.hash,
+    kind,
+    fromAddress: tx.from.toLowerCase(),
+    toAddress: (tx.to || ethers.ZeroAddress).toLowerCase(),
+    nonce: tx.nonce,
+    data: tx.data,
+    gasLimit: tx.gasLimit.toString(),
+    gasPrice: (tx.maxFeePerGas ?? tx.gasPrice).toString(),
+  });
+}
+
+/**
+ * Mark a transaction failed and clear its hash from the records it was sent
+ * for, so the workers that sent it try again
+ */
+async function failTransaction(transaction: Transaction, error: string): Promise<void> {
+  await storage.updateTransaction(transaction.txHash, { status: 'failed', error });
+  await storage.replaceTxHash(transaction.txHash, null);
+}
+
+/**
+ * Handle a transaction whose nonce has been used without it being mined. If
+ * another transaction we sent with the same nonce was mined, e.g. the
+ * original of a replacement, that one takes over; otherwise the transaction
+ * was dropped.
+ */
+async function resolveUsedNonce(transaction: Transaction): Promise<void> {
+  const candidates = await storage.getTransactionsByNonce(transaction.fromAddress, transaction.nonce);
+  for (const candidate of candidates) {
+    if (!(await getProvider().getTransactionReceipt(candidate.txHash))) continue;
+    if (candidate.txHash === transaction.txHash) return; // Mined since it was checked
+
+    await storage.updateTransaction(transaction.txHash, { status: 'replaced', replacedBy: candidate.txHash });
+    await storage.replaceTxHash(transaction.txHash, candidate.txHash);
+    await storage.updateTransaction(candidate.txHash, { status: 'pending', replacedBy: null, error: null });
+    return;
+  }
+
+  await failTransaction(transaction, 'Dropped: its nonce was used by another transaction');
+}
+
+/**
+ * Send a stuck transaction again with the same nonce and a higher gas price,
+ * and move its records over to the replacement
+ */
+async function replaceTransaction(transaction: Transaction, options: WatcherOptions): Promise<void> {
+  const wallet = getServerWallet();
+  if (!wallet || wallet.address.toLowerCase() !== transaction.fromAddress) {
+    return; // Sent from a key the server no longer holds
+  }
+
+  const sent = await storage.getTransactionsByNonce(transaction.fromAddress, transaction.nonce);
+  if (sent.length > options.maxReplacements) {
+    return; // Leave it to be mined or dropped
+  }
+
+  const bumped = BigInt(transaction.gasPrice) * BigInt(GAS_BUMP_PERCENT) / BigInt(100);
+  const current = ethers.parseUnits(await getCurrentGasPrice(), 'gwei');
+  const replacement = await wallet.sendTransaction({
+    to: transaction.toAddress,
+    data: transaction.data,
+    nonce: transaction.nonce,
+    gasLimit: BigInt(transaction.gasLimit),
+    gasPrice: current > bumped ? current : bumped,
+  });
+
+  await trackTransaction(transaction.kind, replacement);
+  await storage.updateTransaction(transaction.txHash, { status: 'replaced', replacedBy: replacement.hash });
+  await storage.replaceTxHash(transaction.txHash, replacement.hash);
+}
+
+/**
+ * Move a transaction along its lifecycle: count the confirmations of a mined
+ * transaction, fail a reverted or dropped one, and replace one that has been
+ * pending too long. A confirmed transaction whose block was reorganised away
+ * goes back to pending. Throws if the node cannot be reached, leaving the
+ * transaction as it was.
+ * @param transaction The transaction to check
+ * @param options Finality depth and replacement settings
+ */
+export async function checkTransaction(transaction: Transaction, options: WatcherOptions = getWatcherOptions()): Promise<void> {
+  // RPC errors propagate, so a failed lookup skips this check instead of
+  // passing for an unmined transaction
+  const receipt = await getProvider().getTransactionReceipt(transaction.txHash);
+  if (receipt) {
+    if (receipt.status !== 1) {
+      await failTransaction(transaction, 'Reverted');
+      return;
+    }
+
+    const confirmations = await receipt.confirmations();
+    await storage.updateTransaction(transaction.txHash, {
+      status: confirmations >= options.finalityConfirmations ? 'finalized' : 'confirmed',
+      confirmations,
+      blockNumber: receipt.blockNumber,
+    });
+    return;
+  }
+
+  const minedNonce = await getProvider().getTransactionCount(transaction.fromAddress, 'latest');
+  if (minedNonce > transaction.nonce) {
+    await resolveUsedNonce(transaction);
+    return;
+  }
+
+  if (transaction.status !== 'pending') {
+    await storage.updateTransaction(transaction.txHash, { status: 'pending', confirmations: 0, blockNumber: null });
+  }
+
+  if (Date.now() - new Date(transaction.createdAt).getTime() > options.stuckAfterMs) {
+    await replaceTransaction(transaction, options);
+  }
+}
+
+/**
+ * Check every pending and confirmed transaction once
+ * @param options Overrides for the TX_* settings
+ * @returns How many transactions were checked
+ */
+export async function watchTransactions(options: Partial<WatcherOptions> = {}): Promise<number> {
+  const resolved = { ...getWatcherOptions(), ...options };
+  const active = await storage.getActiveTransactions(WATCH_BATCH_SIZE);
+
+  for (const transaction of active) {
+    try {
+      await checkTransaction(transaction, resolved);
+    } catch (error) {
+      console.error(`Error checking transaction ${transaction.txHash}:`, error);
+    }
+  }
+
+  return active.length;
+}
+
+/**
+ * Get a tracked transaction, following replacements to the copy that is
+ * still live or was mined
+ * @param txHash The hash of the transaction or of one it replaced
+ * @returns The transaction or undefined if it is not tracked
+ */
+export async function getTransactionStatus(txHash: string): Promise<Transaction | undefined> {
+  let transaction = await storage.getTransaction(txHash);
+  for (let i = 0; i < MAX_REPLACEMENT_CHAIN && transaction?.status === 'replaced' && transaction.replacedBy; i++) {
+    const replacement = await storage.getTransaction(transaction.replacedBy);
+    if (!replacement) break;
+    transaction = replacement;
+  }
+  return transaction;
+}
+
+/**
+ * Periodically check the server's transactions in the background. Does
+ * nothing unless the server key is configured.
+ * @returns A function that stops the watcher, or null if it was not started
+ */
+export function startTransactionWatcher(): (() => void) | null {
+  if (!getServerWallet()) {
+    console.log('Transaction watcher disabled: set BLOCKCHAIN_PRIVATE_KEY to enable it');
+    return null;
+  }
+
+  const intervalMs = Number(process.env.TX_WATCH_INTERVAL_MS || DEFAULT_INTERVAL_MS);
+
+  let running = false;
+  const timer = setInterval(async () => {
+    // Don't start a run while the previous one is still checking
+    if (running) return;
+    running = true;
+    try {
+      await watchTransactions();
+    } catch (error) {
+      console.error('Error watching transactions:', error);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+
+  return () => clearInterval(timer);
+}
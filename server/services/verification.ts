@@ -0,0 +1,155 @@
+import type { PaperAnalysis } from '@shared/analysis';
+import type { LedgerReason } from '@shared/ledger';
+import { canTransition, PAPER_STATUS_LABELS } from '@shared/lifecycle';
+import type { Paper, Review } from '@shared/schema';
+import { storage } from '../storage';
+
+// Default lowest quality rating that verifies a paper analysed whole, and
+// one analysed from a sample of a large paper
+const DEFAULT_MIN_RATING = 7;
+const DEFAULT_MIN_SAMPLED_RATING = 6;
+
+// Default lowest average peer review rating (1 to 5) under which AI
+// verification is withheld; papers without reviews are not held back
+const DEFAULT_MIN_REVIEW_RATING = 2.5;
+
+// Default tokens shared by the authors of a newly verified paper
+const DEFAULT_VERIFICATION_REWARD = 10;
+
+export interface VerificationPolicy {
+  minRating: number;
+  minSampledRating: number;
+  minReviewRating: number;
+  verificationReward: number;
+}
+
+export function getVerificationPolicy(): VerificationPolicy {
+  return {
+    minRating: Number(process.env.VERIFICATION_MIN_RATING || DEFAULT_MIN_RATING),
+    minSampledRating: Number(process.env.VERIFICATION_MIN_SAMPLED_RATING || DEFAULT_MIN_SAMPLED_RATING),
+    minReviewRating: Number(process.env.VERIFICATION_MIN_REVIEW_RATING || DEFAULT_MIN_REVIEW_RATING),
+    verificationReward: Number(process.env.VERIFICATION_REWARD ?? DEFAULT_VERIFICATION_REWARD),
+  };
+}
+
+export interface VerificationInput {
+  paper: Paper;
+  analysis: PaperAnalysis;
+  excerpt: boolean; // The analysis was of a sample of the paper
+  reviews: Review[];
+}
+
+// Tokens to share among a paper's confirmed authors. Each reason is paid at
+// most once per paper, however often the policy asks for it.
+export interface PolicyReward {
+  reason: LedgerReason;
+  amount: number;
+  description: string;
+}
+
+export interface VerificationDecision {
+  verify: boolean;
+  reason: string; // Why the paper was or was not verified
+  rewards: PolicyReward[];
+}
+
+/**
+ * Decide whether an analysis verifies a paper. Verification is never taken
+ * back: a later analysis that falls short leaves a verified paper as it is.
+ * @param input The analysis, and the paper and reviews it applies to
+ * @param policy The thresholds and rewards to apply
+ */
+export function decideVerification(
+  input: VerificationInput,
+  policy: VerificationPolicy = getVerificationPolicy()
+): VerificationDecision {
+  const { paper, analysis, excerpt, reviews } = input;
+
+  if (paper.aiVerified) {
+    return { verify: false, reason: 'The paper is already verified', rewards: [] };
+  }
+
+  if (!canTransition(paper.status, 'verified')) {
+    return { verify: false, reason: `${PAPER_STATUS_LABELS[paper.status]} papers cannot be verified`, rewards: [] };
+  }
+
+  const minRating = excerpt ? policy.minSampledRating : policy.minRating;
+  if (analysis.qualityRating < minRating) {
+    return {
+      verify: false,
+      reason: `Rated ${analysis.qualityRating}, below the ${minRating} needed${excerpt ? ' for a sampled paper' : ''}`,
+      rewards: [],
+    };
+  }
+
+  if (reviews.length > 0) {
+    const averageReviewRating = reviews.reduce((sum, review) => sum + review.rating, 0) / reviews.length;
+    if (averageReviewRating < policy.minReviewRating) {
+      return {
+        verify: false,
+        reason: `Peer reviews average ${averageReviewRating.toFixed(1)}, below the ${policy.minReviewRating} needed`,
+        rewards: [],
+      };
+    }
+  }
+
+  return {
+    verify: true,
+    reason: `Rated ${analysis.qualityRating}, meeting the ${minRating} needed`,
+    rewards: policy.verificationReward > 0
+      ? [{ reason: 'ai_verification', amount: policy.verificationReward, description: 'High-quality paper verified by AI' }]
+      : [],
+  };
+}
+
+/**
+ * Apply the verification policy to a paper's latest analysis: mark the paper
+ * verified if the policy says so and pay out its rewards. Safe to run again
+ * for the same paper; rewards already paid are skipped.
+ * @param paperId The analysed paper
+ * @param analysis The analysis
+ * @param excerpt Whether the analysis was of a sample of the paper
+ * @returns The decision, or undefined if the paper does not exist
+ */
+export async function applyVerificationPolicy(
+  paperId: number,
+  analysis: PaperAnalysis,
+  excerpt: boolean
+): Promise<VerificationDecision | undefined> {
+  const paper = await storage.getPaper(paperId);
+  if (!paper) {
+    return undefined;
+  }
+
+  const reviews = await storage.getReviewsForPaper(paperId);
+  const decision = decideVerification({ paper, analysis, excerpt, reviews });
+
+  // The rewards are paid with the move to verified, so a paper withdrawn or
+  // rejected since it was read pays nothing
+  if (decision.verify && !await storage.verifyPaper(paperId, { source: 'ai', note: decision.reason }, decision.rewards)) {
+    return { verify: false, reason: 'The paper can no longer be verified', rewards: [] };
+  }
+
+  return decision;
+}
+
+/**
+ * Apply the verification policy to the latest analysis of a paper's current
+ * file. Papers are analysed on submission but only verified once accepted,
+ * so this runs again when an editor accepts one.
+ * @param paperId The paper
+ * @returns The decision, or undefined if the paper does not exist or its current file has not been analysed
+ */
+export async function applyLatestAnalysis(paperId: number): Promise<VerificationDecision | undefined> {
+  const paper = await storage.getPaper(paperId);
+  if (!paper) {
+    return undefined;
+  }
+
+  const latest = (await storage.getAiAnalysesForPaper(paperId)).find((run) => run.ipfsCid === paper.ipfsCid);
+  if (!latest) {
+    return undefined;
+  }
+
+  return applyVerificationPolicy(paperId, latest.result, latest.excerpt);
+}
@@ -0,0 +1,10 @@
+// The parts of the solc-js compiler API used by server/contracts.ts
+declare module "solc" {
+  type ImportCallback = (path: string) => { contents: string } | { error: string };
+
+  const solc: {
+    compile(input: string, options?: { import: ImportCallback }): string;
+    version(): string;
+  };
+  export default solc;
+}
@@ -1,61 +1,254 @@
 import {
-  users, type User, type InsertUser,
+  users, type User, type InsertUser, type UpdateUserProfile,
   papers, type Paper, type InsertPaper,
   reviews, type Review, type InsertReview,
-  tokens, type Token, type InsertToken
+  tokens, type Token, type InsertToken, type UnsettledToken,
+  ledgerEntries, type LedgerEntry, type InsertLedgerEntry,
+  paperVersions, type PaperVersion, type InsertPaperVersion,
+  paperAuthors, type PaperAuthor, type NewPaperAuthor, type PaperAuthorWithUser,
+  signatureNonces,
+  ipfsUploads, type IpfsUpload, type InsertIpfsUpload,
+  paperDocuments, type PaperDocument, type NewPaperDocument,
+  anchorBatches, type AnchorBatch, anchorLeaves, type AnchorLeaf, type NewAnchorLeaf, type AnchorLeafWithBatch,
+  indexerCursors, type IndexerCursor, type InsertIndexerCursor,
+  chainEvents, type ChainEvent, type NewChainEvent,
+  tokenHoldings, type TokenHolding, type InsertTokenHolding,
+  transactions, type Transaction, type InsertTransaction, type TransactionUpdate,
+  analysisJobs, type AnalysisJob, type InsertAnalysisJob, type AnalysisJobUpdate,
+  aiAnalyses, type AiAnalysis, type NewAiAnalysis,
+  paperRewards, type PaperReward,
+  paperStatusHistory, type PaperStatusHistoryEntry,
+  reviewInvitations, type ReviewInvitation, type InsertReviewInvitation,
+  type ReviewInvitationWithReviewer, type ReviewInvitationWithPaper,
+  editorialDecisions, type EditorialDecision, type InsertEditorialDecision, type EditorialDecisionWithEditor,
+  type PublicUser,
+  type PaperWithAuthor, type ReviewWithReviewer, type ReviewWithPaper,
+  paperSearchDocument
 } from "@shared/schema";
+import {
+  FACET_LIMIT,
+  type FacetCount, type PaperSearchQuery, type PaperSearchResult, type PaperSearchSort
+} from "@shared/search";
+import {
+  TREASURY_ACCOUNT, paperAccount, userAccount,
+  type LedgerAccountTotals, type LedgerReason, type PaperAward, type RecordedBalance, type TokenAward
+} from "@shared/ledger";
+import type { AnchorType } from "@shared/anchoring";
+import type { ChainEventQuery } from "@shared/indexer";
+import { ACTIVE_TRANSACTION_STATUSES } from "@shared/transactions";
+import { ACTIVE_JOB_STATUSES } from "@shared/jobs";
+import type { PaperAnalysis } from "@shared/analysis";
+import { canTransition, type PaperStatus, type PaperStatusChange } from "@shared/lifecycle";
+import { DECISION_STATUSES, isInvitationOverdue, OPEN_INVITATION_STATUSES, type InvitationStatus } from "@shared/editorial";
+import { and, asc, desc, eq, exists, gte, inArray, isNotNull, isNull, lte, or, sql, type SQL } from "drizzle-orm";
+import { unionAll } from "drizzle-orm/pg-core";
+import { createDatabase, type Database } from "./db";
+
+// The handle drizzle passes to a transaction callback
+type DatabaseTransaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
 
 // modify the interface with any CRUD methods
 // you might need
 
+// Tokens awarded for a paper submission once every listed author has confirmed
+const PAPER_SUBMISSION_AWARD: PaperAward = { amount: 3, reason: "paper_submission", description: "Paper submission" };
+
 export interface IStorage {
   // User operations
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   getUserByWalletAddress(walletAddress: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  updateUser(id: number, updates: UpdateUserProfile): Promise<User | undefined>;
+  setUserEditor(id: number, isEditor: boolean): Promise<User | undefined>;
 
   // Paper operations
-  createPaper(paper: InsertPaper): Promise<Paper>;
+  createPaper(paper: InsertPaper, authors?: NewPaperAuthor[]): Promise<Paper>; // Authors in order; defaults to the submitting author alone
   getPaper(id: number): Promise<Paper | undefined>;
   getAllPapers(): Promise<any[]>; // Returns papers with author info
   getPaperWithAuthor(id: number): Promise<any | undefined>; // Returns paper with author info
-  updatePaperStatus(id: number, status: string): Promise<boolean>;
+  getPapersByAuthor(userId: number): Promise<PaperWithAuthor[]>; // Papers listing the user as an author, newest first
+  getPapersByStatus(statuses: PaperStatus[]): Promise<PaperWithAuthor[]>; // Oldest first
+  changePaperStatus(id: number, change: PaperStatusChange): Promise<Paper | undefined>; // Records the change; undefined if the paper is missing or cannot move to the status
+  getPaperStatusHistory(paperId: number): Promise<PaperStatusHistoryEntry[]>; // Oldest first
+  verifyPaper(id: number, change: Omit<PaperStatusChange, "status">, rewards: PaperAward[]): Promise<Paper | undefined>; // Moves the paper to verified, marks it AI verified and pays each reward once, all or nothing; undefined if it cannot move
   updatePaperAIVerified(id: number, verified: boolean): Promise<boolean>;
-  updatePaperAIAnalysis(id: number, analysis: any): Promise<boolean>;
+  updatePaperAIAnalysis(id: number, analysis: PaperAnalysis): Promise<boolean>;
   incrementPaperViews(id: number): Promise<boolean>;
+  getUnanchoredPapers(limit: number): Promise<Paper[]>; // Current version not yet in an anchor batch, oldest first
+  searchPapers(query: PaperSearchQuery): Promise<PaperSearchResult | undefined>; // Undefined if the cursor is invalid
+
+  // Paper version operations
+  createPaperVersion(version: InsertPaperVersion): Promise<PaperVersion | undefined>; // Undefined unless version is the paper's next version
+  getPaperVersions(paperId: number): Promise<PaperVersion[]>;
+  getPaperVersion(paperId: number, version: number): Promise<PaperVersion | undefined>;
+
+  // Paper author operations
+  getPaperAuthors(paperId: number): Promise<PaperAuthorWithUser[]>;
+  confirmPaperAuthor(paperId: number, userId: number, signedPayload: unknown, signature: string): Promise<PaperAuthor | undefined>; // Undefined unless the user is a pending author
+  awardPaperTokens(paperId: number, amount: number, reason: LedgerReason, description: string): Promise<Token[]>; // Splits the amount across confirmed authors
+  awardPaperTokensOnce(paperId: number, amount: number, reason: LedgerReason, description: string): Promise<Token[] | undefined>; // Undefined if the paper was already awarded for the reason
 
   // Review operations
   createReview(review: InsertReview): Promise<Review>;
   getReview(id: number): Promise<Review | undefined>;
   getReviewsForPaper(paperId: number): Promise<any[]>; // Returns reviews with reviewer info
+  getReviewsByReviewer(reviewerId: number): Promise<ReviewWithPaper[]>; // Newest first
+  getUnanchoredReviews(limit: number): Promise<Review[]>; // Not yet in an anchor batch, oldest first
+
+  // Editorial operations
+  createReviewInvitation(invitation: InsertReviewInvitation): Promise<ReviewInvitation | undefined>; // Undefined if the reviewer already has an open invitation to the paper
+  getReviewInvitation(id: number): Promise<ReviewInvitation | undefined>;
+  getReviewInvitationsForPaper(paperId: number): Promise<ReviewInvitationWithReviewer[]>; // Newest first
+  getReviewInvitationsForReviewer(reviewerId: number): Promise<ReviewInvitationWithPaper[]>; // Newest first
+  updateReviewInvitationStatus(id: number, from: InvitationStatus[], status: InvitationStatus): Promise<ReviewInvitation | undefined>; // Undefined unless the invitation is in one of the `from` statuses
+  recordEditorialDecision(decision: InsertEditorialDecision): Promise<EditorialDecision | undefined>; // Moves the paper as decided; undefined if the paper is missing or cannot move
+  getEditorialDecisionsForPaper(paperId: number): Promise<EditorialDecisionWithEditor[]>; // Newest first
 
   // Token operations
-  awardTokens(userId: number, amount: number, reason: string): Promise<Token>;
+  awardTokens(award: TokenAward): Promise<Token>; // Posts the award to the ledger and updates cached balances
   getUserTokens(userId: number): Promise<Token[]>;
+  getUnsettledTokens(limit: number): Promise<UnsettledToken[]>; // Oldest first; only rewards whose recipient has a wallet
+  setTokensTxHash(ids: number[], txHash: string | null): Promise<void>;
+
+  // Ledger operations
+  getLedgerEntries(account: string): Promise<LedgerEntry[]>; // Entries debiting or crediting the account, newest first
+  getLedgerAccountTotals(): Promise<LedgerAccountTotals[]>;
+  getRecordedBalances(): Promise<RecordedBalance[]>; // Balances cached outside the ledger, for reconciliation
+
+  // Anchor batch operations
+  createAnchorBatch(root: string, leaves: NewAnchorLeaf[]): Promise<AnchorBatch>;
+  getUnsentAnchorBatches(): Promise<AnchorBatch[]>; // Batches whose root has no transaction yet, oldest first
+  setAnchorBatchTxHash(id: number, txHash: string | null): Promise<void>; // Also sets it on every review and current paper version in the batch
+  getAnchorLeaf(type: AnchorType, itemId: number): Promise<AnchorLeafWithBatch | undefined>; // For a paper, its latest batched version
+  getAnchorBatchByRoot(root: string): Promise<AnchorBatch | undefined>;
+
+  // Chain indexer operations; contract and wallet addresses are lowercase
+  getIndexerCursor(chainId: number, contractAddress: string): Promise<IndexerCursor | undefined>;
+  saveIndexedEvents(cursor: InsertIndexerCursor, events: NewChainEvent[]): Promise<void>; // Upserts the events and advances the cursor together
+  rewindIndexer(cursor: InsertIndexerCursor): Promise<ChainEvent[]>; // Moves the cursor back and deletes and returns the contract's events after it
+  getChainEvents(query: ChainEventQuery): Promise<ChainEvent[]>; // Newest first
+  upsertTokenHolding(holding: InsertTokenHolding): Promise<TokenHolding>;
+  getTokenHoldings(chainId: number, walletAddress: string): Promise<TokenHolding[]>;
+
+  // Transaction operations; sender addresses are lowercase
+  createTransaction(transaction: InsertTransaction): Promise<Transaction>;
+  getTransaction(txHash: string): Promise<Transaction | undefined>;
+  getActiveTransactions(limit: number): Promise<Transaction[]>; // Pending or confirmed, oldest first
+  getTransactionsByNonce(fromAddress: string, nonce: number): Promise<Transaction[]>;
+  updateTransaction(txHash: string, updates: TransactionUpdate): Promise<Transaction | undefined>;
+  replaceTxHash(oldTxHash: string, newTxHash: string | null): Promise<void>; // Repoints every reward, anchor batch, paper and review that stored the old hash
+
+  // Analysis job operations
+  createAnalysisJob(job: InsertAnalysisJob): Promise<AnalysisJob>;
+  getActiveAnalysisJob(paperId: number): Promise<AnalysisJob | undefined>; // Queued or running
+  getAnalysisJobsForPaper(paperId: number): Promise<AnalysisJob[]>; // Newest first
+  claimAnalysisJobs(limit: number): Promise<AnalysisJob[]>; // Marks due queued jobs running and counts the attempt; no job is claimed twice
+  getStaleAnalysisJobs(startedBefore: Date): Promise<AnalysisJob[]>; // Running jobs whose latest attempt started before the time
+  updateAnalysisJob(id: number, updates: AnalysisJobUpdate): Promise<AnalysisJob | undefined>;
+
+  // AI analysis operations
+  createAiAnalysis(analysis: NewAiAnalysis): Promise<AiAnalysis>;
+  getAiAnalysesForPaper(paperId: number): Promise<AiAnalysis[]>; // Newest first
+
+  // Signature nonce operations
+  getSignatureNonce(walletAddress: string): Promise<number>;
+  consumeSignatureNonce(walletAddress: string, nonce: number): Promise<boolean>; // False if the nonce is not the wallet's next nonce
+
+  // IPFS upload operations
+  recordIpfsUpload(upload: InsertIpfsUpload): Promise<IpfsUpload>;
+  getIpfsUpload(cid: string): Promise<IpfsUpload | undefined>;
+
+  // Extracted document operations
+  getPaperDocument(cid: string): Promise<PaperDocument | undefined>;
+  savePaperDocument(document: NewPaperDocument): Promise<PaperDocument>; // Replaces any document cached for the CID
 }
 
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
   private papers: Map<number, Paper>;
+  private paperVersions: Map<number, PaperVersion>;
+  private paperAuthors: Map<number, PaperAuthor>;
   private reviews: Map<number, Review>;
   private tokens: Map<number, Token>;
+  private ledgerEntries: Map<number, LedgerEntry>;
+  private anchorBatches: Map<number, AnchorBatch>;
+  private anchorLeaves: Map<number, AnchorLeaf>;
+  private indexerCursors: Map<string, IndexerCursor>;
+  private chainEvents: Map<string, ChainEvent>;
+  private tokenHoldings: Map<string, TokenHolding>;
+  private transactions: Map<string, Transaction>;
+  private analysisJobs: Map<number, AnalysisJob>;
+  private aiAnalyses: Map<number, AiAnalysis>;
+  private paperRewards: Map<string, PaperReward>;
+  private paperStatusHistory: Map<number, PaperStatusHistoryEntry>;
+  private reviewInvitations: Map<number, ReviewInvitation>;
+  private editorialDecisions: Map<number, EditorialDecision>;
+  private signatureNonces: Map<string, number>;
+  private ipfsUploads: Map<string, IpfsUpload>;
+  private paperDocuments: Map<string, PaperDocument>;
 
   private userIdCounter: number;
   private paperIdCounter: number;
+  private paperVersionIdCounter: number;
+  private paperAuthorIdCounter: number;
   private reviewIdCounter: number;
   private tokenIdCounter: number;
+  private ledgerEntryIdCounter: number;
+  private anchorBatchIdCounter: number;
+  private anchorLeafIdCounter: number;
+  private indexerCursorIdCounter: number;
+  private chainEventIdCounter: number;
+  private tokenHoldingIdCounter: number;
+  private transactionIdCounter: number;
+  private analysisJobIdCounter: number;
+  private aiAnalysisIdCounter: number;
+  private paperStatusHistoryIdCounter: number;
+  private reviewInvitationIdCounter: number;
+  private editorialDecisionIdCounter: number;
 
   constructor() {
     this.users = new Map();
     this.papers = new Map();
+    this.paperVersions = new Map();
+    this.paperAuthors = new Map();
     this.reviews = new Map();
     this.tokens = new Map();
+    this.ledgerEntries = new Map();
+    this.anchorBatches = new Map();
+    this.anchorLeaves = new Map();
+    this.indexerCursors = new Map();
+    this.chainEvents = new Map();
+    this.tokenHoldings = new Map();
+    this.transactions = new Map();
+    this.analysisJobs = new Map();
+    this.aiAnalyses = new Map();
+    this.paperRewards = new Map();
+    this.paperStatusHistory = new Map();
+    this.reviewInvitations = new Map();
+    this.editorialDecisions = new Map();
+    this.signatureNonces = new Map();
+    this.ipfsUploads = new Map();
+    this.paperDocuments = new Map();
 
     this.userIdCounter = 1;
     this.paperIdCounter = 1;
+    this.paperVersionIdCounter = 1;
+    this.paperAuthorIdCounter = 1;
     this.reviewIdCounter = 1;
     this.tokenIdCounter = 1;
+    this.ledgerEntryIdCounter = 1;
+    this.anchorBatchIdCounter = 1;
+    this.anchorLeafIdCounter = 1;
+    this.indexerCursorIdCounter = 1;
+    this.chainEventIdCounter = 1;
+    this.tokenHoldingIdCounter = 1;
+    this.transactionIdCounter = 1;
+    this.analysisJobIdCounter = 1;
+    this.aiAnalysisIdCounter = 1;
+    this.paperStatusHistoryIdCounter = 1;
+    this.reviewInvitationIdCounter = 1;
+    this.editorialDecisionIdCounter = 1;
 
     // Seed with some initial data
   }
@@ -79,31 +272,104 @@ export class MemStorage implements IStorage {
 
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = this.userIdCounter++;
-    const user: User = { ...insertUser, id, tokenBalance: 0 };
+    const user: User = {
+      ...insertUser,
+      id,
+      walletAddress: insertUser.walletAddress ?? null,
+      institution: insertUser.institution ?? null,
+      bio: insertUser.bio ?? null,
+      profileImage: insertUser.profileImage ?? null,
+      tokenBalance: 0,
+      isEditor: false,
+    };
+    this.users.set(id, user);
+    return user;
+  }
+
+  async updateUser(id: number, updates: UpdateUserProfile): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+
+    const updated = { ...user, ...updates };
+    this.users.set(id, updated);
+    return updated;
+  }
+
+  async setUserEditor(id: number, isEditor: boolean): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+
+    user.isEditor = isEditor;
     this.users.set(id, user);
     return user;
   }
 
   // Paper operations
-  async createPaper(insertPaper: InsertPaper): Promise<Paper> {
+  async createPaper(insertPaper: InsertPaper, authors?: NewPaperAuthor[]): Promise<Paper> {
     const id = this.paperIdCounter++;
     const now = new Date();
 
     const paper: Paper = {
       ...insertPaper,
       id,
+      metadataHash: insertPaper.metadataHash ?? null,
+      tags: insertPaper.tags ?? null,
       status: "submitted",
       createdAt: now,
       viewCount: 0,
       tokenCount: 0,
       aiVerified: false,
       aiAnalysis: null,
+      signedPayload: insertPaper.signedPayload ?? null,
+      signature: insertPaper.signature ?? null,
+      currentVersion: 1,
+      txHash: null,
     };
 
     this.papers.set(id, paper);
+    this.recordStatusChange(id, null, { status: paper.status, source: "author", changedBy: paper.authorId });
+
+    // The original submission is version 1 of the paper's history
+    const versionId = this.paperVersionIdCounter++;
+    this.paperVersions.set(versionId, {
+      id: versionId,
+      paperId: id,
+      version: 1,
+      title: paper.title,
+      abstract: paper.abstract,
+      tags: paper.tags,
+      ipfsCid: paper.ipfsCid,
+      metadataHash: paper.metadataHash,
+      changeLog: null,
+      signedPayload: paper.signedPayload,
+      signature: paper.signature,
+      createdAt: now,
+    });
+
+    // The submitting author's signature confirms their own authorship
+    listAuthors(paper, authors).forEach((author, index) => {
+      const authorId = this.paperAuthorIdCounter++;
+      const confirmed = author.userId === paper.authorId;
+      this.paperAuthors.set(authorId, {
+        id: authorId,
+        paperId: id,
+        userId: author.userId,
+        position: index + 1,
+        isCorresponding: author.isCorresponding ?? false,
+        roles: author.roles ?? [],
+        confirmed,
+        signedPayload: confirmed ? paper.signedPayload : null,
+        signature: confirmed ? paper.signature : null,
+        confirmedAt: confirmed ? now : null,
+        createdAt: now,
+      });
+    });
 
-    // Award initial tokens to the author
-    await this.awardTokens(paper.authorId, 3, "Paper submission");
+    // Award initial tokens once every author has confirmed
+    const pending = Array.from(this.paperAuthors.values()).some(author => author.paperId === id && !author.confirmed);
+    if (!pending) {
+      await this.awardPaperTokensOnce(id, PAPER_SUBMISSION_AWARD.amount, PAPER_SUBMISSION_AWARD.reason, PAPER_SUBMISSION_AWARD.description);
+    }
 
     return paper;
   }
@@ -118,11 +384,13 @@ export class MemStorage implements IStorage {
         .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
         .map(async (paper) => {
           const author = await this.getUser(paper.authorId);
+          const authors = await this.getPaperAuthors(paper.id);
           const reviewCount = this.getReviewCountForPaper(paper.id);
 
           return {
             ...paper,
             author: author || { username: "Unknown Author" },
+            authors,
             reviewCount,
           };
         })
@@ -134,23 +402,75 @@ export class MemStorage implements IStorage {
     if (!paper) return undefined;
 
     const author = await this.getUser(paper.authorId);
+    const authors = await this.getPaperAuthors(paper.id);
     const reviewCount = this.getReviewCountForPaper(paper.id);
 
     return {
       ...paper,
       author: author || { username: "Unknown Author" },
+      authors,
       reviewCount,
     };
   }
 
-  async updatePaperStatus(id: number, status: string): Promise<boolean> {
+  async getPapersByAuthor(userId: number): Promise<PaperWithAuthor[]> {
+    const paperIds = new Set(
+      Array.from(this.paperAuthors.values())
+        .filter(author => author.userId === userId)
+        .map(author => author.paperId)
+    );
+    const papers = await this.getAllPapers();
+    return papers.filter(paper => paperIds.has(paper.id));
+  }
+
+  async getPapersByStatus(statuses: PaperStatus[]): Promise<PaperWithAuthor[]> {
+    const papers = await this.getAllPapers();
+    return papers.filter(paper => statuses.includes(paper.status)).reverse();
+  }
+
+  async changePaperStatus(id: number, change: PaperStatusChange): Promise<Paper | undefined> {
     const paper = this.papers.get(id);
-    if (!paper) return false;
+    if (!paper || !canTransition(paper.status, change.status)) return undefined;
 
-    paper.status = status;
+    const fromStatus = paper.status;
+    paper.status = change.status;
     this.papers.set(id, paper);
+    this.recordStatusChange(id, fromStatus, change);
 
-    return true;
+    return paper;
+  }
+
+  async verifyPaper(id: number, change: Omit<PaperStatusChange, "status">, rewards: PaperAward[]): Promise<Paper | undefined> {
+    const paper = await this.changePaperStatus(id, { ...change, status: "verified" });
+    if (!paper) return undefined;
+
+    for (const reward of rewards) {
+      await this.awardPaperTokensOnce(id, reward.amount, reward.reason, reward.description);
+    }
+    paper.aiVerified = true;
+    this.papers.set(id, paper);
+
+    return paper;
+  }
+
+  async getPaperStatusHistory(paperId: number): Promise<PaperStatusHistoryEntry[]> {
+    return Array.from(this.paperStatusHistory.values())
+      .filter(entry => entry.paperId === paperId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  private recordStatusChange(paperId: number, fromStatus: PaperStatus | null, change: PaperStatusChange): void {
+    const id = this.paperStatusHistoryIdCounter++;
+    this.paperStatusHistory.set(id, {
+      id,
+      paperId,
+      fromStatus,
+      toStatus: change.status,
+      source: change.source,
+      changedBy: change.changedBy ?? null,
+      note: change.note ?? null,
+      createdAt: new Date(),
+    });
   }
 
   async updatePaperAIVerified(id: number, verified: boolean): Promise<boolean> {
@@ -163,7 +483,7 @@ export class MemStorage implements IStorage {
     return true;
   }
 
-  async updatePaperAIAnalysis(id: number, analysis: any): Promise<boolean> {
+  async updatePaperAIAnalysis(id: number, analysis: PaperAnalysis): Promise<boolean> {
     const paper = this.papers.get(id);
     if (!paper) return false;
 
@@ -183,6 +503,195 @@ export class MemStorage implements IStorage {
     return true;
   }
 
+  async getUnanchoredPapers(limit: number): Promise<Paper[]> {
+    return Array.from(this.papers.values())
+      .filter(paper => !paper.txHash && !this.findAnchorLeaf("paper", paper.id, paper.currentVersion))
+      .sort((a, b) => a.id - b.id)
+      .slice(0, limit);
+  }
+
+  async searchPapers(query: PaperSearchQuery): Promise<PaperSearchResult | undefined> {
+    const cursor = query.cursor ? decodeSearchCursor(query.cursor, query.sort) : null;
+    if (query.cursor && !cursor) return undefined;
+
+    const terms = query.q ? query.q.toLowerCase().split(/\s+/).filter(term => term.length > 0) : [];
+    const institution = query.institution?.toLowerCase();
+
+    const matches: { paper: Paper; authors: PaperAuthorWithUser[]; sortKey: number }[] = [];
+    for (const paper of Array.from(this.papers.values())) {
+      const authors = await this.getPaperAuthors(paper.id);
+      const tags = paper.tags || [];
+
+      const text = [paper.title, paper.abstract, ...tags].join(" ").toLowerCase();
+      if (!terms.every(term => text.includes(term))) continue;
+      if (query.status && query.status.length > 0 && !query.status.includes(paper.status)) continue;
+      if (query.tag && !query.tag.every(tag => tags.includes(tag))) continue;
+      if (query.authorId && !authors.some(author => author.userId === query.authorId)) continue;
+      if (institution && !authors.some(author => author.user.institution?.toLowerCase() === institution)) continue;
+      if (query.from && paper.createdAt < query.from) continue;
+      if (query.to && paper.createdAt > query.to) continue;
+      if (query.aiVerified !== undefined && (paper.aiVerified ?? false) !== query.aiVerified) continue;
+
+      matches.push({ paper, authors, sortKey: this.getSortKey(paper, query.sort) });
+    }
+
+    // Highest first, newest id breaking ties, so the cursor order is total
+    matches.sort((a, b) => b.sortKey - a.sortKey || b.paper.id - a.paper.id);
+
+    const remaining = cursor
+      ? matches.filter(({ paper, sortKey }) =>
+          sortKey < Number(cursor.value) || (sortKey === Number(cursor.value) && paper.id < cursor.id))
+      : matches;
+    const page = remaining.slice(0, query.limit);
+    const last = page[page.length - 1];
+
+    const countBy = (values: string[]): FacetCount[] => {
+      const counts = new Map<string, number>();
+      for (const value of values) {
+        counts.set(value, (counts.get(value) || 0) + 1);
+      }
+      return Array.from(counts, ([value, count]) => ({ value, count }))
+        .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+    };
+
+    return {
+      papers: page.map(({ paper, authors }) => ({
+        ...paper,
+        author: this.users.get(paper.authorId) || ({ username: "Unknown Author" } as User),
+        authors,
+        reviewCount: this.getReviewCountForPaper(paper.id),
+      })),
+      total: matches.length,
+      nextCursor: remaining.length > query.limit && last
+        ? encodeSearchCursor(query.sort, String(last.sortKey), last.paper.id)
+        : null,
+      facets: {
+        status: countBy(matches.map(({ paper }) => paper.status)),
+        tags: countBy(matches.flatMap(({ paper }) => paper.tags || [])).slice(0, FACET_LIMIT),
+        institutions: countBy(matches.flatMap(({ authors }) =>
+          Array.from(new Set(authors.map(author => author.user.institution).filter((name): name is string => !!name)))
+        )).slice(0, FACET_LIMIT),
+        aiVerified: countBy(matches.map(({ paper }) => String(paper.aiVerified ?? false))),
+      },
+    };
+  }
+
+  private getSortKey(paper: Paper, sort: PaperSearchSort): number {
+    switch (sort) {
+      case "views":
+        return paper.viewCount || 0;
+      case "tokens":
+        return paper.tokenCount || 0;
+      case "rating": {
+        const ratings = Array.from(this.reviews.values())
+          .filter(review => review.paperId === paper.id)
+          .map(review => review.rating);
+        return ratings.length > 0 ? ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length : 0;
+      }
+      case "recent":
+      default:
+        return paper.createdAt.getTime();
+    }
+  }
+
+  // Paper version operations
+  async createPaperVersion(insertVersion: InsertPaperVersion): Promise<PaperVersion | undefined> {
+    const paper = this.papers.get(insertVersion.paperId);
+    if (!paper || insertVersion.version !== paper.currentVersion + 1) {
+      return undefined;
+    }
+
+    const id = this.paperVersionIdCounter++;
+    const version: PaperVersion = {
+      ...insertVersion,
+      id,
+      tags: insertVersion.tags ?? null,
+      metadataHash: insertVersion.metadataHash ?? null,
+      changeLog: insertVersion.changeLog ?? null,
+      signedPayload: insertVersion.signedPayload ?? null,
+      signature: insertVersion.signature ?? null,
+      createdAt: new Date(),
+    };
+    this.paperVersions.set(id, version);
+
+    // The paper row always reflects its current version
+    paper.currentVersion = version.version;
+    paper.title = version.title;
+    paper.abstract = version.abstract;
+    paper.tags = version.tags;
+    paper.ipfsCid = version.ipfsCid;
+    paper.metadataHash = version.metadataHash;
+    paper.signedPayload = version.signedPayload;
+    paper.signature = version.signature;
+    paper.txHash = null; // The new version is anchored in a later batch
+    this.papers.set(paper.id, paper);
+
+    return version;
+  }
+
+  async getPaperVersions(paperId: number): Promise<PaperVersion[]> {
+    return Array.from(this.paperVersions.values())
+      .filter(version => version.paperId === paperId)
+      .sort((a, b) => a.version - b.version);
+  }
+
+  async getPaperVersion(paperId: number, version: number): Promise<PaperVersion | undefined> {
+    return Array.from(this.paperVersions.values()).find(
+      (paperVersion) => paperVersion.paperId === paperId && paperVersion.version === version,
+    );
+  }
+
+  // Paper author operations
+  async getPaperAuthors(paperId: number): Promise<PaperAuthorWithUser[]> {
+    return Array.from(this.paperAuthors.values())
+      .filter(author => author.paperId === paperId)
+      .sort((a, b) => a.position - b.position)
+      .map(author => ({
+        ...author,
+        user: this.users.get(author.userId) || ({ username: "Unknown Author" } as User),
+      }));
+  }
+
+  async confirmPaperAuthor(paperId: number, userId: number, signedPayload: unknown, signature: string): Promise<PaperAuthor | undefined> {
+    const authors = Array.from(this.paperAuthors.values()).filter(author => author.paperId === paperId);
+    const author = authors.find(author => author.userId === userId && !author.confirmed);
+    if (!author) return undefined;
+
+    author.confirmed = true;
+    author.signedPayload = signedPayload;
+    author.signature = signature;
+    author.confirmedAt = new Date();
+    this.paperAuthors.set(author.id, author);
+
+    // The last confirmation releases the submission award to all authors
+    if (authors.every(author => author.confirmed)) {
+      await this.awardPaperTokensOnce(paperId, PAPER_SUBMISSION_AWARD.amount, PAPER_SUBMISSION_AWARD.reason, PAPER_SUBMISSION_AWARD.description);
+    }
+
+    return author;
+  }
+
+  async awardPaperTokens(paperId: number, amount: number, reason: LedgerReason, description: string): Promise<Token[]> {
+    const confirmed = (await this.getPaperAuthors(paperId)).filter(author => author.confirmed);
+    const shares = splitAward(amount, confirmed.length);
+
+    const awarded: Token[] = [];
+    for (let i = 0; i < confirmed.length; i++) {
+      if (shares[i] > 0) {
+        awarded.push(await this.awardTokens({ userId: confirmed[i].userId, amount: shares[i], reason, description, paperId }));
+      }
+    }
+    return awarded;
+  }
+
+  async awardPaperTokensOnce(paperId: number, amount: number, reason: LedgerReason, description: string): Promise<Token[] | undefined> {
+    const key = `${paperId}:${reason}`;
+    if (this.paperRewards.has(key)) return undefined;
+
+    this.paperRewards.set(key, { paperId, reason, amount, createdAt: new Date() });
+    return this.awardPaperTokens(paperId, amount, reason, description);
+  }
+
   // Review operations
   async createReview(insertReview: InsertReview): Promise<Review> {
     const id = this.reviewIdCounter++;
@@ -191,19 +700,32 @@ export class MemStorage implements IStorage {
     const review: Review = {
       ...insertReview,
       id,
+      versionId: insertReview.versionId ?? null,
+      ipfsCid: insertReview.ipfsCid ?? null,
+      txHash: insertReview.txHash ?? null,
+      signedPayload: insertReview.signedPayload ?? null,
+      signature: insertReview.signature ?? null,
       createdAt: now,
     };
 
     this.reviews.set(id, review);
 
-    // Update paper review count and status
+    // The first review puts a submitted paper under review
     const paper = this.papers.get(insertReview.paperId);
-    if (paper) {
-      // If paper has multiple reviews, update status
-      if (this.getReviewCountForPaper(paper.id) >= 2) {
-        paper.status = "reviewed";
-        this.papers.set(paper.id, paper);
-      }
+    if (paper?.status === "submitted") {
+      await this.changePaperStatus(paper.id, { status: "under_review", source: "reviewer", changedBy: review.reviewerId });
+    }
+
+    // A review from an invited reviewer completes their invitation, unless
+    // its deadline has passed
+    const invitation = Array.from(this.reviewInvitations.values()).find(
+      invitation => invitation.paperId === review.paperId && invitation.reviewerId === review.reviewerId
+        && OPEN_INVITATION_STATUSES.includes(invitation.status) && !isInvitationOverdue(invitation, now)
+    );
+    if (invitation) {
+      invitation.status = "completed";
+      invitation.reviewId = review.id;
+      invitation.updatedAt = now;
     }
 
     return review;
@@ -224,6 +746,7 @@ export class MemStorage implements IStorage {
         return {
           ...review,
           reviewer: reviewer || { username: "Unknown Reviewer" },
+          invited: Array.from(this.reviewInvitations.values()).some(invitation => invitation.reviewId === review.id),
         };
       })
     );
@@ -235,44 +758,148 @@ export class MemStorage implements IStorage {
       .length;
   }
 
+  async getReviewsByReviewer(reviewerId: number): Promise<ReviewWithPaper[]> {
+    return Array.from(this.reviews.values())
+      .filter(review => review.reviewerId === reviewerId && this.papers.has(review.paperId))
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+      .map(review => ({ ...review, paper: this.papers.get(review.paperId)! }));
+  }
+
+  async getUnanchoredReviews(limit: number): Promise<Review[]> {
+    return Array.from(this.reviews.values())
+      .filter(review => !review.txHash && !this.findAnchorLeaf("review", review.id, 1))
+      .sort((a, b) => a.id - b.id)
+      .slice(0, limit);
+  }
+
+  // Editorial operations
+  async createReviewInvitation(insertInvitation: InsertReviewInvitation): Promise<ReviewInvitation | undefined> {
+    const open = Array.from(this.reviewInvitations.values()).some(
+      invitation => invitation.paperId === insertInvitation.paperId && invitation.reviewerId === insertInvitation.reviewerId
+        && OPEN_INVITATION_STATUSES.includes(invitation.status)
+    );
+    if (open) return undefined;
+
+    const id = this.reviewInvitationIdCounter++;
+    const now = new Date();
+    const invitation: ReviewInvitation = {
+      ...insertInvitation,
+      id,
+      status: "pending",
+      message: insertInvitation.message ?? null,
+      respondedAt: null,
+      reviewId: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.reviewInvitations.set(id, invitation);
+    return invitation;
+  }
+
+  async getReviewInvitation(id: number): Promise<ReviewInvitation | undefined> {
+    return this.reviewInvitations.get(id);
+  }
+
+  async getReviewInvitationsForPaper(paperId: number): Promise<ReviewInvitationWithReviewer[]> {
+    return Array.from(this.reviewInvitations.values())
+      .filter(invitation => invitation.paperId === paperId && this.users.has(invitation.reviewerId))
+      .sort((a, b) => b.id - a.id)
+      .map(invitation => ({ ...invitation, reviewer: withoutPassword(this.users.get(invitation.reviewerId)!) }));
+  }
+
+  async getReviewInvitationsForReviewer(reviewerId: number): Promise<ReviewInvitationWithPaper[]> {
+    return Array.from(this.reviewInvitations.values())
+      .filter(invitation => invitation.reviewerId === reviewerId && this.papers.has(invitation.paperId))
+      .sort((a, b) => b.id - a.id)
+      .map(invitation => ({ ...invitation, paper: this.papers.get(invitation.paperId)! }));
+  }
+
+  async updateReviewInvitationStatus(id: number, from: InvitationStatus[], status: InvitationStatus): Promise<ReviewInvitation | undefined> {
+    const invitation = this.reviewInvitations.get(id);
+    if (!invitation || !from.includes(invitation.status)) return undefined;
+
+    const now = new Date();
+    invitation.status = status;
+    invitation.updatedAt = now;
+    if (status === "accepted" || status === "declined") {
+      invitation.respondedAt = now;
+    }
+    return invitation;
+  }
+
+  async recordEditorialDecision(insertDecision: InsertEditorialDecision): Promise<EditorialDecision | undefined> {
+    const paper = await this.changePaperStatus(insertDecision.paperId, {
+      status: DECISION_STATUSES[insertDecision.decision],
+      source: "editor",
+      changedBy: insertDecision.editorId,
+      note: insertDecision.rationale,
+    });
+    if (!paper) return undefined;
+
+    const id = this.editorialDecisionIdCounter++;
+    const now = new Date();
+    const decision: EditorialDecision = { ...insertDecision, id, createdAt: now };
+    this.editorialDecisions.set(id, decision);
+
+    // Accepting or rejecting a paper ends its review; a request for
+    // revisions keeps the reviewers on for the next version
+    if (insertDecision.decision !== "revise") {
+      for (const invitation of Array.from(this.reviewInvitations.values())) {
+        if (invitation.paperId === paper.id && OPEN_INVITATION_STATUSES.includes(invitation.status)) {
+          invitation.status = "cancelled";
+          invitation.updatedAt = now;
+        }
+      }
+    }
+
+    return decision;
+  }
+
+  async getEditorialDecisionsForPaper(paperId: number): Promise<EditorialDecisionWithEditor[]> {
+    return Array.from(this.editorialDecisions.values())
+      .filter(decision => decision.paperId === paperId && this.users.has(decision.editorId))
+      .sort((a, b) => b.id - a.id)
+      .map(decision => ({ ...decision, editor: withoutPassword(this.users.get(decision.editorId)!) }));
+  }
+
   // Token operations
-  async awardTokens(userId: number, amount: number, reason: string): Promise<Token> {
+  async awardTokens(award: TokenAward): Promise<Token> {
     const id = this.tokenIdCounter++;
     const now = new Date();
 
     const token: Token = {
       id,
-      userId,
-      amount,
-      reason,
+      userId: award.userId,
+      amount: award.amount,
+      reason: award.description,
       txHash: null,
       createdAt: now,
     };
 
     this.tokens.set(id, token);
 
-    // Update user's token balance
-    const user = this.users.get(userId);
+    for (const entry of ledgerEntriesForAward(award)) {
+      const entryId = this.ledgerEntryIdCounter++;
+      this.ledgerEntries.set(entryId, {
+        ...entry,
+        id: entryId,
+        paperId: entry.paperId ?? null,
+        reviewId: entry.reviewId ?? null,
+        createdAt: now,
+      });
+    }
+
+    // Keep the cached balances in step with the ledger
+    const user = this.users.get(award.userId);
     if (user) {
-      user.tokenBalance = (user.tokenBalance || 0) + amount;
-      this.users.set(userId, user);
+      user.tokenBalance = (user.tokenBalance || 0) + award.amount;
+      this.users.set(user.id, user);
     }
 
-    // If awarding tokens for review, update paper token count
-    if (reason.includes("review")) {
-      // Try to find the relevant paper
-      const reviewerPapers = Array.from(this.reviews.values())
-        .filter(review => review.reviewerId === userId)
-        .map(review => review.paperId);
-
-      if (reviewerPapers.length > 0) {
-        const latestReviewedPaperIds = reviewerPapers[reviewerPapers.length - 1];
-        const paper = this.papers.get(latestReviewedPaperIds);
-        if (paper) {
-          paper.tokenCount = (paper.tokenCount || 0) + amount;
-          this.papers.set(paper.id, paper);
-        }
-      }
+    const paper = award.paperId !== undefined ? this.papers.get(award.paperId) : undefined;
+    if (paper) {
+      paper.tokenCount = (paper.tokenCount || 0) + award.amount;
+      this.papers.set(paper.id, paper);
     }
 
     return token;
@@ -283,6 +910,1620 @@ export class MemStorage implements IStorage {
       .filter(token => token.userId === userId)
       .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
   }
+
+  async getUnsettledTokens(limit: number): Promise<UnsettledToken[]> {
+    const unsettled: UnsettledToken[] = [];
+    for (const token of Array.from(this.tokens.values()).sort((a, b) => a.id - b.id)) {
+      const walletAddress = this.users.get(token.userId)?.walletAddress;
+      if (token.txHash === null && walletAddress) {
+        unsettled.push({ ...token, walletAddress });
+      }
+      if (unsettled.length === limit) break;
+    }
+    return unsettled;
+  }
+
+  async setTokensTxHash(ids: number[], txHash: string | null): Promise<void> {
+    for (const id of ids) {
+      const token = this.tokens.get(id);
+      if (token) {
+        token.txHash = txHash;
+        this.tokens.set(id, token);
+      }
+    }
+  }
+
+  // Ledger operations
+  async getLedgerEntries(account: string): Promise<LedgerEntry[]> {
+    return Array.from(this.ledgerEntries.values())
+      .filter(entry => entry.debitAccount === account || entry.creditAccount === account)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async getLedgerAccountTotals(): Promise<LedgerAccountTotals[]> {
+    const totals = new Map<string, LedgerAccountTotals>();
+    const totalsFor = (account: string) => {
+      let accountTotals = totals.get(account);
+      if (!accountTotals) {
+        accountTotals = { account, debits: 0, credits: 0 };
+        totals.set(account, accountTotals);
+      }
+      return accountTotals;
+    };
+
+    for (const entry of Array.from(this.ledgerEntries.values())) {
+      totalsFor(entry.debitAccount).debits += entry.amount;
+      totalsFor(entry.creditAccount).credits += entry.amount;
+    }
+    return Array.from(totals.values());
+  }
+
+  async getRecordedBalances(): Promise<RecordedBalance[]> {
+    const tokenHistory = new Map<number, number>();
+    for (const token of Array.from(this.tokens.values())) {
+      tokenHistory.set(token.userId, (tokenHistory.get(token.userId) || 0) + token.amount);
+    }
+
+    return [
+      ...Array.from(this.users.values()).flatMap((user): RecordedBalance[] => [
+        { account: userAccount(user.id), field: "tokenBalance", value: user.tokenBalance || 0 },
+        { account: userAccount(user.id), field: "tokenHistory", value: tokenHistory.get(user.id) || 0 },
+      ]),
+      ...Array.from(this.papers.values()).map((paper): RecordedBalance => (
+        { account: paperAccount(paper.id), field: "tokenCount", value: paper.tokenCount || 0 }
+      )),
+    ];
+  }
+
+  // Anchor batch operations
+  async createAnchorBatch(root: string, leaves: NewAnchorLeaf[]): Promise<AnchorBatch> {
+    for (const leaf of leaves) {
+      if (this.findAnchorLeaf(leaf.itemType, leaf.itemId, leaf.itemVersion)) {
+        throw new Error(`${leaf.itemType} ${leaf.itemId} version ${leaf.itemVersion} is already in an anchor batch`);
+      }
+    }
+
+    const id = this.anchorBatchIdCounter++;
+    const batch: AnchorBatch = {
+      id,
+      root,
+      leafCount: leaves.length,
+      txHash: null,
+      createdAt: new Date(),
+    };
+    this.anchorBatches.set(id, batch);
+
+    for (const leaf of leaves) {
+      const leafId = this.anchorLeafIdCounter++;
+      this.anchorLeaves.set(leafId, { ...leaf, id: leafId, batchId: id });
+    }
+
+    return batch;
+  }
+
+  async getUnsentAnchorBatches(): Promise<AnchorBatch[]> {
+    return Array.from(this.anchorBatches.values())
+      .filter(batch => !batch.txHash)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async setAnchorBatchTxHash(id: number, txHash: string | null): Promise<void> {
+    const batch = this.anchorBatches.get(id);
+    if (!batch) return;
+
+    this.anchorBatches.set(id, { ...batch, txHash });
+    for (const leaf of Array.from(this.anchorLeaves.values())) {
+      if (leaf.batchId !== id) continue;
+      const item = leaf.itemType === "paper" ? this.papers.get(leaf.itemId) : this.reviews.get(leaf.itemId);
+      // A paper revised since it was batched waits for its new version's batch
+      if (item && (!("currentVersion" in item) || item.currentVersion === leaf.itemVersion)) {
+        item.txHash = txHash;
+      }
+    }
+  }
+
+  async getAnchorLeaf(type: AnchorType, itemId: number): Promise<AnchorLeafWithBatch | undefined> {
+    const leaf = Array.from(this.anchorLeaves.values())
+      .filter(leaf => leaf.itemType === type && leaf.itemId === itemId)
+      .sort((a, b) => b.itemVersion - a.itemVersion)[0];
+    if (!leaf) return undefined;
+
+    return { ...leaf, batch: this.anchorBatches.get(leaf.batchId)! };
+  }
+
+  async getAnchorBatchByRoot(root: string): Promise<AnchorBatch | undefined> {
+    return Array.from(this.anchorBatches.values()).find(
+      (batch) => batch.root === root,
+    );
+  }
+
+  private findAnchorLeaf(type: AnchorType, itemId: number, itemVersion: number): AnchorLeaf | undefined {
+    return Array.from(this.anchorLeaves.values()).find(
+      (leaf) => leaf.itemType === type && leaf.itemId === itemId && leaf.itemVersion === itemVersion,
+    );
+  }
+
+  // Chain indexer operations
+  async getIndexerCursor(chainId: number, contractAddress: string): Promise<IndexerCursor | undefined> {
+    return this.indexerCursors.get(`${chainId}:${contractAddress}`);
+  }
+
+  async saveIndexedEvents(cursor: InsertIndexerCursor, events: NewChainEvent[]): Promise<void> {
+    for (const event of events) {
+      // A log is identified by its position in the chain; a re-indexed log replaces the old one
+      const key = `${event.chainId}:${event.blockNumber}:${event.logIndex}`;
+      const existing = this.chainEvents.get(key);
+      this.chainEvents.set(key, {
+        ...event,
+        id: existing?.id ?? this.chainEventIdCounter++,
+        createdAt: existing?.createdAt ?? new Date(),
+      });
+    }
+    this.setIndexerCursor(cursor);
+  }
+
+  async rewindIndexer(cursor: InsertIndexerCursor): Promise<ChainEvent[]> {
+    const removed: ChainEvent[] = [];
+    for (const [key, event] of Array.from(this.chainEvents.entries())) {
+      if (event.chainId === cursor.chainId && event.contractAddress === cursor.contractAddress && event.blockNumber > cursor.blockNumber) {
+        this.chainEvents.delete(key);
+        removed.push(event);
+      }
+    }
+    this.setIndexerCursor(cursor);
+    return removed;
+  }
+
+  async getChainEvents(query: ChainEventQuery): Promise<ChainEvent[]> {
+    return Array.from(this.chainEvents.values())
+      .filter(event => event.chainId === query.chainId)
+      .filter(event => !query.contract || event.contractAddress === query.contract)
+      .filter(event => !query.event || event.eventName === query.event)
+      .sort((a, b) => b.blockNumber - a.blockNumber || b.logIndex - a.logIndex)
+      .slice(0, query.limit);
+  }
+
+  async upsertTokenHolding(insertHolding: InsertTokenHolding): Promise<TokenHolding> {
+    const key = `${insertHolding.chainId}:${insertHolding.tokenAddress}:${insertHolding.walletAddress}`;
+    const holding: TokenHolding = {
+      ...insertHolding,
+      id: this.tokenHoldings.get(key)?.id ?? this.tokenHoldingIdCounter++,
+      updatedAt: new Date(),
+    };
+    this.tokenHoldings.set(key, holding);
+    return holding;
+  }
+
+  async getTokenHoldings(chainId: number, walletAddress: string): Promise<TokenHolding[]> {
+    return Array.from(this.tokenHoldings.values()).filter(
+      (holding) => holding.chainId === chainId && holding.walletAddress === walletAddress,
+    );
+  }
+
+  // Transaction operations
+  async createTransaction(insertTransaction: InsertTransaction): Promise<Transaction> {
+    const now = new Date();
+    const transaction: Transaction = {
+      ...insertTransaction,
+      id: this.transactionIdCounter++,
+      status: "pending",
+      confirmations: 0,
+      blockNumber: null,
+      replacedBy: null,
+      error: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.transactions.set(transaction.txHash, transaction);
+    return transaction;
+  }
+
+  async getTransaction(txHash: string): Promise<Transaction | undefined> {
+    return this.transactions.get(txHash);
+  }
+
+  async getActiveTransactions(limit: number): Promise<Transaction[]> {
+    return Array.from(this.transactions.values())
+      .filter(transaction => ACTIVE_TRANSACTION_STATUSES.includes(transaction.status))
+      .sort((a, b) => a.id - b.id)
+      .slice(0, limit);
+  }
+
+  async getTransactionsByNonce(fromAddress: string, nonce: number): Promise<Transaction[]> {
+    return Array.from(this.transactions.values())
+      .filter(transaction => transaction.fromAddress === fromAddress && transaction.nonce === nonce)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async updateTransaction(txHash: string, updates: TransactionUpdate): Promise<Transaction | undefined> {
+    const transaction = this.transactions.get(txHash);
+    if (!transaction) return undefined;
+
+    const updated = { ...transaction, ...updates, updatedAt: new Date() };
+    this.transactions.set(txHash, updated);
+    return updated;
+  }
+
+  async replaceTxHash(oldTxHash: string, newTxHash: string | null): Promise<void> {
+    const records: { txHash: string | null }[] = [
+      ...Array.from(this.tokens.values()),
+      ...Array.from(this.anchorBatches.values()),
+      ...Array.from(this.papers.values()),
+      ...Array.from(this.reviews.values()),
+    ];
+    for (const record of records) {
+      if (record.txHash === oldTxHash) {
+        record.txHash = newTxHash;
+      }
+    }
+  }
+
+  // Analysis job operations
+  async createAnalysisJob(insertJob: InsertAnalysisJob): Promise<AnalysisJob> {
+    const now = new Date();
+    const job: AnalysisJob = {
+      ...insertJob,
+      id: this.analysisJobIdCounter++,
+      requestedBy: insertJob.requestedBy ?? null,
+      status: "queued",
+      attempts: 0,
+      runAt: now,
+      startedAt: null,
+      finishedAt: null,
+      error: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.analysisJobs.set(job.id, job);
+    return job;
+  }
+
+  async getActiveAnalysisJob(paperId: number): Promise<AnalysisJob | undefined> {
+    return Array.from(this.analysisJobs.values()).find(
+      (job) => job.paperId === paperId && ACTIVE_JOB_STATUSES.includes(job.status),
+    );
+  }
+
+  async getAnalysisJobsForPaper(paperId: number): Promise<AnalysisJob[]> {
+    return Array.from(this.analysisJobs.values())
+      .filter(job => job.paperId === paperId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async claimAnalysisJobs(limit: number): Promise<AnalysisJob[]> {
+    const now = new Date();
+    const due = Array.from(this.analysisJobs.values())
+      .filter(job => job.status === "queued" && job.runAt <= now)
+      .sort((a, b) => a.runAt.getTime() - b.runAt.getTime() || a.id - b.id)
+      .slice(0, limit);
+
+    return due.map((job) => {
+      const claimed: AnalysisJob = { ...job, status: "running", attempts: job.attempts + 1, startedAt: now, updatedAt: now };
+      this.analysisJobs.set(job.id, claimed);
+      return claimed;
+    });
+  }
+
+  async getStaleAnalysisJobs(startedBefore: Date): Promise<AnalysisJob[]> {
+    return Array.from(this.analysisJobs.values()).filter(
+      (job) => job.status === "running" && job.startedAt !== null && job.startedAt < startedBefore,
+    );
+  }
+
+  async updateAnalysisJob(id: number, updates: AnalysisJobUpdate): Promise<AnalysisJob | undefined> {
+    const job = this.analysisJobs.get(id);
+    if (!job) return undefined;
+
+    const updated = { ...job, ...updates, updatedAt: new Date() };
+    this.analysisJobs.set(id, updated);
+    return updated;
+  }
+
+  // AI analysis operations
+  async createAiAnalysis(newAnalysis: NewAiAnalysis): Promise<AiAnalysis> {
+    const id = this.aiAnalysisIdCounter++;
+    const analysis: AiAnalysis = { ...newAnalysis, id, createdAt: new Date() };
+    this.aiAnalyses.set(id, analysis);
+    return analysis;
+  }
+
+  async getAiAnalysesForPaper(paperId: number): Promise<AiAnalysis[]> {
+    return Array.from(this.aiAnalyses.values())
+      .filter(analysis => analysis.paperId === paperId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  private setIndexerCursor(insertCursor: InsertIndexerCursor): void {
+    const key = `${insertCursor.chainId}:${insertCursor.contractAddress}`;
+    this.indexerCursors.set(key, {
+      ...insertCursor,
+      id: this.indexerCursors.get(key)?.id ?? this.indexerCursorIdCounter++,
+      blockHash: insertCursor.blockHash ?? null,
+      updatedAt: new Date(),
+    });
+  }
+
+  // Signature nonce operations
+  async getSignatureNonce(walletAddress: string): Promise<number> {
+    return this.signatureNonces.get(walletAddress.toLowerCase()) || 0;
+  }
+
+  async consumeSignatureNonce(walletAddress: string, nonce: number): Promise<boolean> {
+    const address = walletAddress.toLowerCase();
+    const nextNonce = this.signatureNonces.get(address) || 0;
+    if (nonce !== nextNonce) return false;
+
+    this.signatureNonces.set(address, nextNonce + 1);
+    return true;
+  }
+
+  // IPFS upload operations
+  async recordIpfsUpload(insertUpload: InsertIpfsUpload): Promise<IpfsUpload> {
+    // Re-uploading identical content keeps the first record
+    const existing = this.ipfsUploads.get(insertUpload.cid);
+    if (existing) return existing;
+
+    const upload: IpfsUpload = { ...insertUpload, createdAt: new Date() };
+    this.ipfsUploads.set(upload.cid, upload);
+    return upload;
+  }
+
+  async getIpfsUpload(cid: string): Promise<IpfsUpload | undefined> {
+    return this.ipfsUploads.get(cid);
+  }
+
+  // Extracted document operations
+  async getPaperDocument(cid: string): Promise<PaperDocument | undefined> {
+    return this.paperDocuments.get(cid);
+  }
+
+  async savePaperDocument(newDocument: NewPaperDocument): Promise<PaperDocument> {
+    const document: PaperDocument = { ...newDocument, createdAt: new Date() };
+    this.paperDocuments.set(document.cid, document);
+    return document;
+  }
+}
+
+export class DrizzleStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  // User operations
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async getUserByWalletAddress(walletAddress: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.walletAddress, walletAddress));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db
+      .insert(users)
+      .values({ ...insertUser, tokenBalance: 0 })
+      .returning();
+    return user;
+  }
+
+  async updateUser(id: number, updates: UpdateUserProfile): Promise<User | undefined> {
+    if (Object.keys(updates).length === 0) {
+      return this.getUser(id);
+    }
+
+    const [user] = await this.db.update(users).set(updates).where(eq(users.id, id)).returning();
+    return user;
+  }
+
+  async setUserEditor(id: number, isEditor: boolean): Promise<User | undefined> {
+    const [user] = await this.db.update(users).set({ isEditor }).where(eq(users.id, id)).returning();
+    return user;
+  }
+
+  // Paper operations
+  async createPaper(insertPaper: InsertPaper, authors?: NewPaperAuthor[]): Promise<Paper> {
+    return this.db.transaction(async (tx) => {
+      const [paper] = await tx.insert(papers).values(insertPaper).returning();
+      await tx.insert(paperStatusHistory).values({
+        paperId: paper.id,
+        toStatus: paper.status,
+        source: "author",
+        changedBy: paper.authorId,
+        createdAt: paper.createdAt,
+      });
+
+      // The original submission is version 1 of the paper's history
+      await tx.insert(paperVersions).values({
+        paperId: paper.id,
+        version: 1,
+        title: paper.title,
+        abstract: paper.abstract,
+        tags: paper.tags,
+        ipfsCid: paper.ipfsCid,
+        metadataHash: paper.metadataHash,
+        signedPayload: paper.signedPayload,
+        signature: paper.signature,
+        createdAt: paper.createdAt,
+      });
+
+      // The submitting author's signature confirms their own authorship
+      const rows = await tx
+        .insert(paperAuthors)
+        .values(
+          listAuthors(paper, authors).map((author, index) => {
+            const confirmed = author.userId === paper.authorId;
+            return {
+              ...author,
+              paperId: paper.id,
+              position: index + 1,
+              confirmed,
+              signedPayload: confirmed ? paper.signedPayload : null,
+              signature: confirmed ? paper.signature : null,
+              confirmedAt: confirmed ? paper.createdAt : null,
+            };
+          })
+        )
+        .returning({ confirmed: paperAuthors.confirmed });
+
+      // Award initial tokens once every author has confirmed
+      if (rows.every(row => row.confirmed)) {
+        await this.insertPaperAwardOnce(tx, paper.id, PAPER_SUBMISSION_AWARD);
+      }
+
+      return paper;
+    });
+  }
+
+  async getPaper(id: number): Promise<Paper | undefined> {
+    const [paper] = await this.db.select().from(papers).where(eq(papers.id, id));
+    return paper;
+  }
+
+  async getAllPapers(): Promise<PaperWithAuthor[]> {
+    const rows = await this.selectPapersWithAuthor().orderBy(desc(papers.createdAt));
+    const authors = await this.selectAuthorsForPapers(rows.map(row => row.paper.id));
+    return rows.map(row => toPaperWithAuthor(row, authors));
+  }
+
+  async getPaperWithAuthor(id: number): Promise<PaperWithAuthor | undefined> {
+    const [row] = await this.selectPapersWithAuthor().where(eq(papers.id, id));
+    if (!row) return undefined;
+
+    const authors = await this.selectAuthorsForPapers([id]);
+    return toPaperWithAuthor(row, authors);
+  }
+
+  async getPapersByAuthor(userId: number): Promise<PaperWithAuthor[]> {
+    const rows = await this.selectPapersWithAuthor()
+      .where(sql`exists (select 1 from ${paperAuthors} where ${paperAuthors.paperId} = ${papers.id} and ${paperAuthors.userId} = ${userId})`)
+      .orderBy(desc(papers.createdAt));
+    const authors = await this.selectAuthorsForPapers(rows.map(row => row.paper.id));
+    return rows.map(row => toPaperWithAuthor(row, authors));
+  }
+
+  async getPapersByStatus(statuses: PaperStatus[]): Promise<PaperWithAuthor[]> {
+    if (statuses.length === 0) return [];
+
+    const rows = await this.selectPapersWithAuthor()
+      .where(inArray(papers.status, statuses))
+      .orderBy(asc(papers.createdAt));
+    const authors = await this.selectAuthorsForPapers(rows.map(row => row.paper.id));
+    return rows.map(row => toPaperWithAuthor(row, authors));
+  }
+
+  async changePaperStatus(id: number, change: PaperStatusChange): Promise<Paper | undefined> {
+    return this.db.transaction((tx) => this.changeStatus(tx, id, change));
+  }
+
+  /**
+   * Move a paper to a new status and record the change; callers run it inside
+   * a transaction
+   */
+  private async changeStatus(tx: DatabaseTransaction, id: number, change: PaperStatusChange): Promise<Paper | undefined> {
+    // Locked so concurrent changes are checked against each other's result
+    const [paper] = await tx.select().from(papers).where(eq(papers.id, id)).for("update");
+    if (!paper || !canTransition(paper.status, change.status)) return undefined;
+
+    const [updated] = await tx
+      .update(papers)
+      .set({ status: change.status })
+      .where(eq(papers.id, id))
+      .returning();
+    await tx.insert(paperStatusHistory).values({
+      paperId: id,
+      fromStatus: paper.status,
+      toStatus: change.status,
+      source: change.source,
+      changedBy: change.changedBy ?? null,
+      note: change.note ?? null,
+    });
+    return updated;
+  }
+
+  async verifyPaper(id: number, change: Omit<PaperStatusChange, "status">, rewards: PaperAward[]): Promise<Paper | undefined> {
+    return this.db.transaction(async (tx) => {
+      const paper = await this.changeStatus(tx, id, { ...change, status: "verified" });
+      if (!paper) return undefined;
+
+      for (const reward of rewards) {
+        await this.insertPaperAwardOnce(tx, id, reward);
+      }
+      const [verified] = await tx
+        .update(papers)
+        .set({ aiVerified: true })
+        .where(eq(papers.id, id))
+        .returning();
+      return verified;
+    });
+  }
+
+  async getPaperStatusHistory(paperId: number): Promise<PaperStatusHistoryEntry[]> {
+    return this.db
+      .select()
+      .from(paperStatusHistory)
+      .where(eq(paperStatusHistory.paperId, paperId))
+      .orderBy(asc(paperStatusHistory.id));
+  }
+
+  async updatePaperAIVerified(id: number, verified: boolean): Promise<boolean> {
+    const updated = await this.db
+      .update(papers)
+      .set({ aiVerified: verified })
+      .where(eq(papers.id, id))
+      .returning({ id: papers.id });
+    return updated.length > 0;
+  }
+
+  async updatePaperAIAnalysis(id: number, analysis: PaperAnalysis): Promise<boolean> {
+    const updated = await this.db
+      .update(papers)
+      .set({ aiAnalysis: analysis })
+      .where(eq(papers.id, id))
+      .returning({ id: papers.id });
+    return updated.length > 0;
+  }
+
+  async incrementPaperViews(id: number): Promise<boolean> {
+    const updated = await this.db
+      .update(papers)
+      .set({ viewCount: sql`coalesce(${papers.viewCount}, 0) + 1` })
+      .where(eq(papers.id, id))
+      .returning({ id: papers.id });
+    return updated.length > 0;
+  }
+
+  async getUnanchoredPapers(limit: number): Promise<Paper[]> {
+    const rows = await this.db
+      .select({ paper: papers })
+      .from(papers)
+      .leftJoin(anchorLeaves, and(
+        eq(anchorLeaves.itemType, "paper"),
+        eq(anchorLeaves.itemId, papers.id),
+        eq(anchorLeaves.itemVersion, papers.currentVersion),
+      ))
+      .where(and(isNull(papers.txHash), isNull(anchorLeaves.id)))
+      .orderBy(asc(papers.id))
+      .limit(limit);
+    return rows.map(({ paper }) => paper);
+  }
+
+  async searchPapers(query: PaperSearchQuery): Promise<PaperSearchResult | undefined> {
+    const cursor = query.cursor ? decodeSearchCursor(query.cursor, query.sort) : null;
+    if (query.cursor && !cursor) return undefined;
+
+    const conditions = searchConditions(query);
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+    const { expression, type } = SEARCH_SORT_KEYS[query.sort];
+
+    // Keyset pagination on (sort key, id), both descending
+    const pageConditions = cursor
+      ? [...conditions, sql`(${expression}, ${papers.id}) < (${cursor.value}::${sql.raw(type)}, ${cursor.id})`]
+      : conditions;
+
+    const rows = await this.db
+      .select({
+        paper: papers,
+        author: users,
+        reviewCount: reviewCountSql,
+        sortKey: sql<string>`(${expression})::text`,
+      })
+      .from(papers)
+      .leftJoin(users, eq(papers.authorId, users.id))
+      .where(and(...pageConditions))
+      .orderBy(desc(expression), desc(papers.id))
+      .limit(query.limit + 1);
+
+    const page = rows.slice(0, query.limit);
+    const authors = await this.selectAuthorsForPapers(page.map(row => row.paper.id));
+    const last = page[page.length - 1];
+
+    const [[{ total }], status, tags, institutions, aiVerified] = await Promise.all([
+      this.db.select({ total: sql<number>`count(*)::int` }).from(papers).where(where),
+      this.db
+        .select({ value: papers.status, count: sql<number>`count(*)::int` })
+        .from(papers)
+        .where(where)
+        .groupBy(papers.status)
+        .orderBy(desc(sql`count(*)`), asc(papers.status)),
+      this.db
+        .select({ value: sql<string>`tag`, count: sql<number>`count(*)::int` })
+        .from(sql`${papers} cross join unnest(${papers.tags}) as tag`)
+        .where(where)
+        .groupBy(sql`tag`)
+        .orderBy(desc(sql`count(*)`), asc(sql`tag`))
+        .limit(FACET_LIMIT),
+      this.db
+        .select({ value: sql<string>`${users.institution}`, count: sql<number>`count(distinct ${papers.id})::int` })
+        .from(papers)
+        .innerJoin(paperAuthors, eq(paperAuthors.paperId, papers.id))
+        .innerJoin(users, eq(paperAuthors.userId, users.id))
+        .where(and(where, isNotNull(users.institution)))
+        .groupBy(users.institution)
+        .orderBy(desc(sql`count(distinct ${papers.id})`), asc(users.institution))
+        .limit(FACET_LIMIT),
+      this.db
+        .select({ value: sql<string>`coalesce(${papers.aiVerified}, false)::text`, count: sql<number>`count(*)::int` })
+        .from(papers)
+        .where(where)
+        .groupBy(sql`1`)
+        .orderBy(desc(sql`count(*)`)),
+    ]);
+
+    return {
+      papers: page.map(row => toPaperWithAuthor(row, authors)),
+      total,
+      nextCursor: rows.length > query.limit && last
+        ? encodeSearchCursor(query.sort, last.sortKey, last.paper.id)
+        : null,
+      facets: { status, tags, institutions, aiVerified },
+    };
+  }
+
+  // Paper version operations
+  async createPaperVersion(insertVersion: InsertPaperVersion): Promise<PaperVersion | undefined> {
+    return this.db.transaction(async (tx) => {
+      // Lock the paper so concurrent revisions can't both claim the next version
+      const [paper] = await tx
+        .select()
+        .from(papers)
+        .where(eq(papers.id, insertVersion.paperId))
+        .for("update");
+      if (!paper || insertVersion.version !== paper.currentVersion + 1) {
+        return undefined;
+      }
+
+      const [version] = await tx.insert(paperVersions).values(insertVersion).returning();
+
+      // The paper row always reflects its current version
+      await tx
+        .update(papers)
+        .set({
+          currentVersion: version.version,
+          title: version.title,
+          abstract: version.abstract,
+          tags: version.tags,
+          ipfsCid: version.ipfsCid,
+          metadataHash: version.metadataHash,
+          signedPayload: version.signedPayload,
+          signature: version.signature,
+          txHash: null, // The new version is anchored in a later batch
+        })
+        .where(eq(papers.id, paper.id));
+
+      return version;
+    });
+  }
+
+  async getPaperVersions(paperId: number): Promise<PaperVersion[]> {
+    return this.db
+      .select()
+      .from(paperVersions)
+      .where(eq(paperVersions.paperId, paperId))
+      .orderBy(asc(paperVersions.version));
+  }
+
+  async getPaperVersion(paperId: number, version: number): Promise<PaperVersion | undefined> {
+    const [paperVersion] = await this.db
+      .select()
+      .from(paperVersions)
+      .where(and(eq(paperVersions.paperId, paperId), eq(paperVersions.version, version)));
+    return paperVersion;
+  }
+
+  // Paper author operations
+  async getPaperAuthors(paperId: number): Promise<PaperAuthorWithUser[]> {
+    return this.selectAuthorsForPapers([paperId]);
+  }
+
+  async confirmPaperAuthor(paperId: number, userId: number, signedPayload: unknown, signature: string): Promise<PaperAuthor | undefined> {
+    return this.db.transaction(async (tx) => {
+      // Lock the paper so only the last of several concurrent confirmations
+      // sees the author list complete
+      await tx.select({ id: papers.id }).from(papers).where(eq(papers.id, paperId)).for("update");
+
+      const [author] = await tx
+        .update(paperAuthors)
+        .set({ confirmed: true, signedPayload, signature, confirmedAt: new Date() })
+        .where(and(
+          eq(paperAuthors.paperId, paperId),
+          eq(paperAuthors.userId, userId),
+          eq(paperAuthors.confirmed, false),
+        ))
+        .returning();
+      if (!author) return undefined;
+
+      const [{ pending }] = await tx
+        .select({ pending: sql<number>`count(*)::int` })
+        .from(paperAuthors)
+        .where(and(eq(paperAuthors.paperId, paperId), eq(paperAuthors.confirmed, false)));
+
+      // The last confirmation releases the submission award to all authors
+      if (pending === 0) {
+        await this.insertPaperAwardOnce(tx, paperId, PAPER_SUBMISSION_AWARD);
+      }
+
+      return author;
+    });
+  }
+
+  async awardPaperTokens(paperId: number, amount: number, reason: LedgerReason, description: string): Promise<Token[]> {
+    const confirmed = await this.db
+      .select({ userId: paperAuthors.userId })
+      .from(paperAuthors)
+      .where(and(eq(paperAuthors.paperId, paperId), eq(paperAuthors.confirmed, true)))
+      .orderBy(asc(paperAuthors.position));
+    const shares = splitAward(amount, confirmed.length);
+
+    const awarded: Token[] = [];
+    for (let i = 0; i < confirmed.length; i++) {
+      if (shares[i] > 0) {
+        awarded.push(await this.awardTokens({ userId: confirmed[i].userId, amount: shares[i], reason, description, paperId }));
+      }
+    }
+    return awarded;
+  }
+
+  async awardPaperTokensOnce(paperId: number, amount: number, reason: LedgerReason, description: string): Promise<Token[] | undefined> {
+    return this.db.transaction((tx) => this.insertPaperAwardOnce(tx, paperId, { amount, reason, description }));
+  }
+
+  /**
+   * Claim a paper's reward for its reason and split it across the confirmed
+   * authors; callers run it inside a transaction
+   * @returns The awards, or undefined if the paper was already awarded for the reason
+   */
+  private async insertPaperAwardOnce(tx: DatabaseTransaction, paperId: number, award: PaperAward): Promise<Token[] | undefined> {
+    // The reward row and the tokens commit together, so a failed award can
+    // be tried again and a concurrent one waits on the key
+    const claimed = await tx
+      .insert(paperRewards)
+      .values({ paperId, reason: award.reason, amount: award.amount })
+      .onConflictDoNothing()
+      .returning();
+    if (claimed.length === 0) return undefined;
+
+    const confirmed = await tx
+      .select({ userId: paperAuthors.userId })
+      .from(paperAuthors)
+      .where(and(eq(paperAuthors.paperId, paperId), eq(paperAuthors.confirmed, true)))
+      .orderBy(asc(paperAuthors.position));
+    const shares = splitAward(award.amount, confirmed.length);
+
+    const awarded: Token[] = [];
+    for (let i = 0; i < confirmed.length; i++) {
+      if (shares[i] > 0) {
+        awarded.push(await this.insertAward(tx, { ...award, userId: confirmed[i].userId, amount: shares[i], paperId }));
+      }
+    }
+    return awarded;
+  }
+
+  // Review operations
+  async createReview(insertReview: InsertReview): Promise<Review> {
+    return this.db.transaction(async (tx) => {
+      const [review] = await tx.insert(reviews).values(insertReview).returning();
+
+      // The first review puts a submitted paper under review
+      const moved = await tx
+        .update(papers)
+        .set({ status: "under_review" })
+        .where(and(eq(papers.id, insertReview.paperId), eq(papers.status, "submitted")))
+        .returning({ id: papers.id });
+      if (moved.length > 0) {
+        await tx.insert(paperStatusHistory).values({
+          paperId: insertReview.paperId,
+          fromStatus: "submitted",
+          toStatus: "under_review",
+          source: "reviewer",
+          changedBy: review.reviewerId,
+        });
+      }
+
+      // A review from an invited reviewer completes their invitation, unless
+      // its deadline has passed
+      const now = new Date();
+      await tx
+        .update(reviewInvitations)
+        .set({ status: "completed", reviewId: review.id, updatedAt: now })
+        .where(and(
+          eq(reviewInvitations.paperId, review.paperId),
+          eq(reviewInvitations.reviewerId, review.reviewerId),
+          inArray(reviewInvitations.status, OPEN_INVITATION_STATUSES),
+          gte(reviewInvitations.dueAt, now)
+        ));
+
+      return review;
+    });
+  }
+
+  async getReview(id: number): Promise<Review | undefined> {
+    const [review] = await this.db.select().from(reviews).where(eq(reviews.id, id));
+    return review;
+  }
+
+  async getReviewsForPaper(paperId: number): Promise<ReviewWithReviewer[]> {
+    const rows = await this.db
+      .select({
+        review: reviews,
+        reviewer: users,
+        invited: sql<boolean>`exists (select 1 from ${reviewInvitations} where ${reviewInvitations.reviewId} = ${reviews.id})`,
+      })
+      .from(reviews)
+      .leftJoin(users, eq(reviews.reviewerId, users.id))
+      .where(eq(reviews.paperId, paperId))
+      .orderBy(desc(reviews.createdAt));
+
+    return rows.map(({ review, reviewer, invited }) => ({
+      ...review,
+      reviewer: reviewer || ({ username: "Unknown Reviewer" } as User),
+      invited,
+    }));
+  }
+
+  async getReviewsByReviewer(reviewerId: number): Promise<ReviewWithPaper[]> {
+    const rows = await this.db
+      .select({ review: reviews, paper: papers })
+      .from(reviews)
+      .innerJoin(papers, eq(reviews.paperId, papers.id))
+      .where(eq(reviews.reviewerId, reviewerId))
+      .orderBy(desc(reviews.createdAt));
+
+    return rows.map(({ review, paper }) => ({ ...review, paper }));
+  }
+
+  async getUnanchoredReviews(limit: number): Promise<Review[]> {
+    const rows = await this.db
+      .select({ review: reviews })
+      .from(reviews)
+      .leftJoin(anchorLeaves, and(eq(anchorLeaves.itemType, "review"), eq(anchorLeaves.itemId, reviews.id)))
+      .where(and(isNull(reviews.txHash), isNull(anchorLeaves.id)))
+      .orderBy(asc(reviews.id))
+      .limit(limit);
+    return rows.map(({ review }) => review);
+  }
+
+  // Editorial operations
+  async createReviewInvitation(insertInvitation: InsertReviewInvitation): Promise<ReviewInvitation | undefined> {
+    // The partial unique index allows one open invitation per reviewer and paper
+    const [invitation] = await this.db
+      .insert(reviewInvitations)
+      .values(insertInvitation)
+      .onConflictDoNothing()
+      .returning();
+    return invitation;
+  }
+
+  async getReviewInvitation(id: number): Promise<ReviewInvitation | undefined> {
+    const [invitation] = await this.db.select().from(reviewInvitations).where(eq(reviewInvitations.id, id));
+    return invitation;
+  }
+
+  async getReviewInvitationsForPaper(paperId: number): Promise<ReviewInvitationWithReviewer[]> {
+    const rows = await this.db
+      .select({ invitation: reviewInvitations, reviewer: users })
+      .from(reviewInvitations)
+      .innerJoin(users, eq(reviewInvitations.reviewerId, users.id))
+      .where(eq(reviewInvitations.paperId, paperId))
+      .orderBy(desc(reviewInvitations.id));
+
+    return rows.map(({ invitation, reviewer }) => ({ ...invitation, reviewer: withoutPassword(reviewer) }));
+  }
+
+  async getReviewInvitationsForReviewer(reviewerId: number): Promise<ReviewInvitationWithPaper[]> {
+    const rows = await this.db
+      .select({ invitation: reviewInvitations, paper: papers })
+      .from(reviewInvitations)
+      .innerJoin(papers, eq(reviewInvitations.paperId, papers.id))
+      .where(eq(reviewInvitations.reviewerId, reviewerId))
+      .orderBy(desc(reviewInvitations.id));
+
+    return rows.map(({ invitation, paper }) => ({ ...invitation, paper }));
+  }
+
+  async updateReviewInvitationStatus(id: number, from: InvitationStatus[], status: InvitationStatus): Promise<ReviewInvitation | undefined> {
+    const now = new Date();
+    const [invitation] = await this.db
+      .update(reviewInvitations)
+      .set({
+        status,
+        updatedAt: now,
+        ...(status === "accepted" || status === "declined" ? { respondedAt: now } : {}),
+      })
+      .where(and(eq(reviewInvitations.id, id), inArray(reviewInvitations.status, from)))
+      .returning();
+    return invitation;
+  }
+
+  async recordEditorialDecision(insertDecision: InsertEditorialDecision): Promise<EditorialDecision | undefined> {
+    return this.db.transaction(async (tx) => {
+      const paper = await this.changeStatus(tx, insertDecision.paperId, {
+        status: DECISION_STATUSES[insertDecision.decision],
+        source: "editor",
+        changedBy: insertDecision.editorId,
+        note: insertDecision.rationale,
+      });
+      if (!paper) return undefined;
+
+      const [decision] = await tx.insert(editorialDecisions).values(insertDecision).returning();
+
+      // Accepting or rejecting a paper ends its review; a request for
+      // revisions keeps the reviewers on for the next version
+      if (insertDecision.decision !== "revise") {
+        await tx
+          .update(reviewInvitations)
+          .set({ status: "cancelled", updatedAt: new Date() })
+          .where(and(eq(reviewInvitations.paperId, paper.id), inArray(reviewInvitations.status, OPEN_INVITATION_STATUSES)));
+      }
+
+      return decision;
+    });
+  }
+
+  async getEditorialDecisionsForPaper(paperId: number): Promise<EditorialDecisionWithEditor[]> {
+    const rows = await this.db
+      .select({ decision: editorialDecisions, editor: users })
+      .from(editorialDecisions)
+      .innerJoin(users, eq(editorialDecisions.editorId, users.id))
+      .where(eq(editorialDecisions.paperId, paperId))
+      .orderBy(desc(editorialDecisions.id));
+
+    return rows.map(({ decision, editor }) => ({ ...decision, editor: withoutPassword(editor) }));
+  }
+
+  // Token operations
+  async awardTokens(award: TokenAward): Promise<Token> {
+    return this.db.transaction((tx) => this.insertAward(tx, award));
+  }
+
+  /**
+   * Write a token award, its ledger entries and the cached balances; callers
+   * run it inside a transaction
+   */
+  private async insertAward(tx: DatabaseTransaction, award: TokenAward): Promise<Token> {
+    const [token] = await tx
+      .insert(tokens)
+      .values({ userId: award.userId, amount: award.amount, reason: award.description, txHash: null })
+      .returning();
+
+    await tx.insert(ledgerEntries).values(ledgerEntriesForAward(award));
+
+    // Keep the cached balances in step with the ledger
+    await tx
+      .update(users)
+      .set({ tokenBalance: sql`coalesce(${users.tokenBalance}, 0) + ${award.amount}` })
+      .where(eq(users.id, award.userId));
+
+    if (award.paperId !== undefined) {
+      await tx
+        .update(papers)
+        .set({ tokenCount: sql`coalesce(${papers.tokenCount}, 0) + ${award.amount}` })
+        .where(eq(papers.id, award.paperId));
+    }
+
+    return token;
+  }
+
+  async getUserTokens(userId: number): Promise<Token[]> {
+    return this.db
+      .select()
+      .from(tokens)
+      .where(eq(tokens.userId, userId))
+      .orderBy(desc(tokens.createdAt));
+  }
+
+  async getUnsettledTokens(limit: number): Promise<UnsettledToken[]> {
+    const rows = await this.db
+      .select({ token: tokens, walletAddress: users.walletAddress })
+      .from(tokens)
+      .innerJoin(users, eq(tokens.userId, users.id))
+      .where(and(isNull(tokens.txHash), isNotNull(users.walletAddress)))
+      .orderBy(asc(tokens.id))
+      .limit(limit);
+
+    return rows.map(({ token, walletAddress }) => ({ ...token, walletAddress: walletAddress! }));
+  }
+
+  async setTokensTxHash(ids: number[], txHash: string | null): Promise<void> {
+    if (ids.length === 0) return;
+    await this.db.update(tokens).set({ txHash }).where(inArray(tokens.id, ids));
+  }
+
+  // Ledger operations
+  async getLedgerEntries(account: string): Promise<LedgerEntry[]> {
+    return this.db
+      .select()
+      .from(ledgerEntries)
+      .where(or(eq(ledgerEntries.debitAccount, account), eq(ledgerEntries.creditAccount, account)))
+      .orderBy(desc(ledgerEntries.id));
+  }
+
+  async getLedgerAccountTotals(): Promise<LedgerAccountTotals[]> {
+    const postings = unionAll(
+      this.db
+        .select({ account: sql<string>`${ledgerEntries.debitAccount}`.as("account"), debit: ledgerEntries.amount, credit: sql<number>`0`.as("credit") })
+        .from(ledgerEntries),
+      this.db
+        .select({ account: sql<string>`${ledgerEntries.creditAccount}`.as("account"), debit: sql<number>`0`.as("debit"), credit: ledgerEntries.amount })
+        .from(ledgerEntries),
+    ).as("postings");
+
+    return this.db
+      .select({
+        account: postings.account,
+        debits: sql<number>`sum(${postings.debit})::int`,
+        credits: sql<number>`sum(${postings.credit})::int`,
+      })
+      .from(postings)
+      .groupBy(postings.account);
+  }
+
+  async getRecordedBalances(): Promise<RecordedBalance[]> {
+    const userRows = await this.db
+      .select({
+        id: users.id,
+        tokenBalance: users.tokenBalance,
+        tokenHistory: sql<number>`coalesce(sum(${tokens.amount}), 0)::int`,
+      })
+      .from(users)
+      .leftJoin(tokens, eq(tokens.userId, users.id))
+      .groupBy(users.id);
+    const paperRows = await this.db
+      .select({ id: papers.id, tokenCount: papers.tokenCount })
+      .from(papers);
+
+    return [
+      ...userRows.flatMap((user): RecordedBalance[] => [
+        { account: userAccount(user.id), field: "tokenBalance", value: user.tokenBalance || 0 },
+        { account: userAccount(user.id), field: "tokenHistory", value: user.tokenHistory },
+      ]),
+      ...paperRows.map((paper): RecordedBalance => (
+        { account: paperAccount(paper.id), field: "tokenCount", value: paper.tokenCount || 0 }
+      )),
+    ];
+  }
+
+  // Anchor batch operations
+  async createAnchorBatch(root: string, leaves: NewAnchorLeaf[]): Promise<AnchorBatch> {
+    return this.db.transaction(async (tx) => {
+      const [batch] = await tx
+        .insert(anchorBatches)
+        .values({ root, leafCount: leaves.length })
+        .returning();
+      if (leaves.length > 0) {
+        await tx.insert(anchorLeaves).values(leaves.map(leaf => ({ ...leaf, batchId: batch.id })));
+      }
+      return batch;
+    });
+  }
+
+  async getUnsentAnchorBatches(): Promise<AnchorBatch[]> {
+    return this.db
+      .select()
+      .from(anchorBatches)
+      .where(isNull(anchorBatches.txHash))
+      .orderBy(asc(anchorBatches.id));
+  }
+
+  async setAnchorBatchTxHash(id: number, txHash: string | null): Promise<void> {
+    const batchItems = (type: AnchorType) => this.db
+      .select({ id: anchorLeaves.itemId })
+      .from(anchorLeaves)
+      .where(and(eq(anchorLeaves.batchId, id), eq(anchorLeaves.itemType, type)));
+    // A paper revised since it was batched waits for its new version's batch
+    const batchedCurrentVersion = this.db
+      .select({ id: anchorLeaves.id })
+      .from(anchorLeaves)
+      .where(and(
+        eq(anchorLeaves.batchId, id),
+        eq(anchorLeaves.itemType, "paper"),
+        eq(anchorLeaves.itemId, papers.id),
+        eq(anchorLeaves.itemVersion, papers.currentVersion),
+      ));
+
+    await this.db.transaction(async (tx) => {
+      await tx.update(anchorBatches).set({ txHash }).where(eq(anchorBatches.id, id));
+      await tx.update(papers).set({ txHash }).where(exists(batchedCurrentVersion));
+      await tx.update(reviews).set({ txHash }).where(inArray(reviews.id, batchItems("review")));
+    });
+  }
+
+  async getAnchorLeaf(type: AnchorType, itemId: number): Promise<AnchorLeafWithBatch | undefined> {
+    const [row] = await this.db
+      .select({ leaf: anchorLeaves, batch: anchorBatches })
+      .from(anchorLeaves)
+      .innerJoin(anchorBatches, eq(anchorBatches.id, anchorLeaves.batchId))
+      .where(and(eq(anchorLeaves.itemType, type), eq(anchorLeaves.itemId, itemId)))
+      .orderBy(desc(anchorLeaves.itemVersion))
+      .limit(1);
+    return row ? { ...row.leaf, batch: row.batch } : undefined;
+  }
+
+  async getAnchorBatchByRoot(root: string): Promise<AnchorBatch | undefined> {
+    const [batch] = await this.db.select().from(anchorBatches).where(eq(anchorBatches.root, root));
+    return batch;
+  }
+
+  // Chain indexer operations
+  async getIndexerCursor(chainId: number, contractAddress: string): Promise<IndexerCursor | undefined> {
+    const [cursor] = await this.db
+      .select()
+      .from(indexerCursors)
+      .where(and(eq(indexerCursors.chainId, chainId), eq(indexerCursors.contractAddress, contractAddress)));
+    return cursor;
+  }
+
+  async saveIndexedEvents(cursor: InsertIndexerCursor, events: NewChainEvent[]): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      if (events.length > 0) {
+        // A log is identified by its position in the chain; a re-indexed log replaces the old one
+        await tx
+          .insert(chainEvents)
+          .values(events)
+          .onConflictDoUpdate({
+            target: [chainEvents.chainId, chainEvents.blockNumber, chainEvents.logIndex],
+            set: {
+              contractAddress: sql`excluded.contract_address`,
+              eventName: sql`excluded.event_name`,
+              blockHash: sql`excluded.block_hash`,
+              txHash: sql`excluded.tx_hash`,
+              args: sql`excluded.args`,
+            },
+          });
+      }
+      await tx
+        .insert(indexerCursors)
+        .values(cursor)
+        .onConflictDoUpdate({
+          target: [indexerCursors.chainId, indexerCursors.contractAddress],
+          set: { blockNumber: cursor.blockNumber, blockHash: cursor.blockHash ?? null, updatedAt: new Date() },
+        });
+    });
+  }
+
+  async rewindIndexer(cursor: InsertIndexerCursor): Promise<ChainEvent[]> {
+    return this.db.transaction(async (tx) => {
+      const removed = await tx.delete(chainEvents).where(and(
+        eq(chainEvents.chainId, cursor.chainId),
+        eq(chainEvents.contractAddress, cursor.contractAddress),
+        sql`${chainEvents.blockNumber} > ${cursor.blockNumber}`,
+      )).returning();
+      await tx
+        .insert(indexerCursors)
+        .values(cursor)
+        .onConflictDoUpdate({
+          target: [indexerCursors.chainId, indexerCursors.contractAddress],
+          set: { blockNumber: cursor.blockNumber, blockHash: cursor.blockHash ?? null, updatedAt: new Date() },
+        });
+      return removed;
+    });
+  }
+
+  async getChainEvents(query: ChainEventQuery): Promise<ChainEvent[]> {
+    const conditions = [eq(chainEvents.chainId, query.chainId)];
+    if (query.contract) conditions.push(eq(chainEvents.contractAddress, query.contract));
+    if (query.event) conditions.push(eq(chainEvents.eventName, query.event));
+
+    return this.db
+      .select()
+      .from(chainEvents)
+      .where(and(...conditions))
+      .orderBy(desc(chainEvents.blockNumber), desc(chainEvents.logIndex))
+      .limit(query.limit);
+  }
+
+  async upsertTokenHolding(insertHolding: InsertTokenHolding): Promise<TokenHolding> {
+    const [holding] = await this.db
+      .insert(tokenHoldings)
+      .values(insertHolding)
+      .onConflictDoUpdate({
+        target: [tokenHoldings.chainId, tokenHoldings.tokenAddress, tokenHoldings.walletAddress],
+        set: { balance: insertHolding.balance, blockNumber: insertHolding.blockNumber, updatedAt: new Date() },
+      })
+      .returning();
+    return holding;
+  }
+
+  async getTokenHoldings(chainId: number, walletAddress: string): Promise<TokenHolding[]> {
+    return this.db
+      .select()
+      .from(tokenHoldings)
+      .where(and(eq(tokenHoldings.chainId, chainId), eq(tokenHoldings.walletAddress, walletAddress)));
+  }
+
+  // Transaction operations
+  async createTransaction(insertTransaction: InsertTransaction): Promise<Transaction> {
+    const [transaction] = await this.db.insert(transactions).values(insertTransaction).returning();
+    return transaction;
+  }
+
+  async getTransaction(txHash: string): Promise<Transaction | undefined> {
+    const [transaction] = await this.db.select().from(transactions).where(eq(transactions.txHash, txHash));
+    return transaction;
+  }
+
+  async getActiveTransactions(limit: number): Promise<Transaction[]> {
+    return this.db
+      .select()
+      .from(transactions)
+      .where(inArray(transactions.status, ACTIVE_TRANSACTION_STATUSES))
+      .orderBy(asc(transactions.id))
+      .limit(limit);
+  }
+
+  async getTransactionsByNonce(fromAddress: string, nonce: number): Promise<Transaction[]> {
+    return this.db
+      .select()
+      .from(transactions)
+      .where(and(eq(transactions.fromAddress, fromAddress), eq(transactions.nonce, nonce)))
+      .orderBy(asc(transactions.id));
+  }
+
+  async updateTransaction(txHash: string, updates: TransactionUpdate): Promise<Transaction | undefined> {
+    const [transaction] = await this.db
+      .update(transactions)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(transactions.txHash, txHash))
+      .returning();
+    return transaction;
+  }
+
+  async replaceTxHash(oldTxHash: string, newTxHash: string | null): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      await tx.update(tokens).set({ txHash: newTxHash }).where(eq(tokens.txHash, oldTxHash));
+      await tx.update(anchorBatches).set({ txHash: newTxHash }).where(eq(anchorBatches.txHash, oldTxHash));
+      await tx.update(papers).set({ txHash: newTxHash }).where(eq(papers.txHash, oldTxHash));
+      await tx.update(reviews).set({ txHash: newTxHash }).where(eq(reviews.txHash, oldTxHash));
+    });
+  }
+
+  // Analysis job operations
+  async createAnalysisJob(insertJob: InsertAnalysisJob): Promise<AnalysisJob> {
+    const [job] = await this.db.insert(analysisJobs).values(insertJob).returning();
+    return job;
+  }
+
+  async getActiveAnalysisJob(paperId: number): Promise<AnalysisJob | undefined> {
+    const [job] = await this.db
+      .select()
+      .from(analysisJobs)
+      .where(and(eq(analysisJobs.paperId, paperId), inArray(analysisJobs.status, ACTIVE_JOB_STATUSES)));
+    return job;
+  }
+
+  async getAnalysisJobsForPaper(paperId: number): Promise<AnalysisJob[]> {
+    return this.db
+      .select()
+      .from(analysisJobs)
+      .where(eq(analysisJobs.paperId, paperId))
+      .orderBy(desc(analysisJobs.id));
+  }
+
+  async claimAnalysisJobs(limit: number): Promise<AnalysisJob[]> {
+    // Lock the due jobs and skip any another worker has locked, so
+    // concurrent workers each claim different jobs
+    return this.db.transaction(async (tx) => {
+      const now = new Date();
+      const due = await tx
+        .select({ id: analysisJobs.id })
+        .from(analysisJobs)
+        .where(and(eq(analysisJobs.status, "queued"), lte(analysisJobs.runAt, now)))
+        .orderBy(asc(analysisJobs.runAt), asc(analysisJobs.id))
+        .limit(limit)
+        .for("update", { skipLocked: true });
+      if (due.length === 0) {
+        return [];
+      }
+
+      return tx
+        .update(analysisJobs)
+        .set({ status: "running", attempts: sql`${analysisJobs.attempts} + 1`, startedAt: now, updatedAt: now })
+        .where(inArray(analysisJobs.id, due.map(job => job.id)))
+        .returning();
+    });
+  }
+
+  async getStaleAnalysisJobs(startedBefore: Date): Promise<AnalysisJob[]> {
+    return this.db
+      .select()
+      .from(analysisJobs)
+      .where(and(eq(analysisJobs.status, "running"), lte(analysisJobs.startedAt, startedBefore)));
+  }
+
+  async updateAnalysisJob(id: number, updates: AnalysisJobUpdate): Promise<AnalysisJob | undefined> {
+    const [job] = await this.db
+      .update(analysisJobs)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(analysisJobs.id, id))
+      .returning();
+    return job;
+  }
+
+  // AI analysis operations
+  async createAiAnalysis(newAnalysis: NewAiAnalysis): Promise<AiAnalysis> {
+    const [analysis] = await this.db.insert(aiAnalyses).values(newAnalysis).returning();
+    return analysis;
+  }
+
+  async getAiAnalysesForPaper(paperId: number): Promise<AiAnalysis[]> {
+    return this.db
+      .select()
+      .from(aiAnalyses)
+      .where(eq(aiAnalyses.paperId, paperId))
+      .orderBy(desc(aiAnalyses.id));
+  }
+
+  // Signature nonce operations
+  async getSignatureNonce(walletAddress: string): Promise<number> {
+    const [row] = await this.db
+      .select()
+      .from(signatureNonces)
+      .where(eq(signatureNonces.walletAddress, walletAddress.toLowerCase()));
+    return row?.nextNonce ?? 0;
+  }
+
+  async consumeSignatureNonce(walletAddress: string, nonce: number): Promise<boolean> {
+    const address = walletAddress.toLowerCase();
+
+    // Compare-and-increment in a single statement so two requests signed with
+    // the same nonce can't both succeed
+    if (nonce === 0) {
+      const inserted = await this.db
+        .insert(signatureNonces)
+        .values({ walletAddress: address, nextNonce: 1 })
+        .onConflictDoUpdate({
+          target: signatureNonces.walletAddress,
+          set: { nextNonce: sql`${signatureNonces.nextNonce} + 1` },
+          setWhere: eq(signatureNonces.nextNonce, 0),
+        })
+        .returning();
+      return inserted.length > 0;
+    }
+
+    const updated = await this.db
+      .update(signatureNonces)
+      .set({ nextNonce: sql`${signatureNonces.nextNonce} + 1` })
+      .where(and(eq(signatureNonces.walletAddress, address), eq(signatureNonces.nextNonce, nonce)))
+      .returning();
+    return updated.length > 0;
+  }
+
+  // IPFS upload operations
+  async recordIpfsUpload(insertUpload: InsertIpfsUpload): Promise<IpfsUpload> {
+    // Re-uploading identical content keeps the first record
+    await this.db.insert(ipfsUploads).values(insertUpload).onConflictDoNothing();
+    const [upload] = await this.db.select().from(ipfsUploads).where(eq(ipfsUploads.cid, insertUpload.cid));
+    return upload;
+  }
+
+  async getIpfsUpload(cid: string): Promise<IpfsUpload | undefined> {
+    const [upload] = await this.db.select().from(ipfsUploads).where(eq(ipfsUploads.cid, cid));
+    return upload;
+  }
+
+  // Extracted document operations
+  async getPaperDocument(cid: string): Promise<PaperDocument | undefined> {
+    const [document] = await this.db.select().from(paperDocuments).where(eq(paperDocuments.cid, cid));
+    return document;
+  }
+
+  async savePaperDocument(newDocument: NewPaperDocument): Promise<PaperDocument> {
+    const { cid, ...extracted } = newDocument;
+    const [document] = await this.db
+      .insert(paperDocuments)
+      .values(newDocument)
+      .onConflictDoUpdate({ target: paperDocuments.cid, set: { ...extracted, createdAt: new Date() } })
+      .returning();
+    return document;
+  }
+
+  private selectPapersWithAuthor() {
+    return this.db
+      .select({
+        paper: papers,
+        author: users,
+        reviewCount: reviewCountSql,
+      })
+      .from(papers)
+      .leftJoin(users, eq(papers.authorId, users.id))
+      .$dynamic();
+  }
+
+  private async selectAuthorsForPapers(paperIds: number[]): Promise<PaperAuthorWithUser[]> {
+    if (paperIds.length === 0) return [];
+
+    const rows = await this.db
+      .select({ author: paperAuthors, user: users })
+      .from(paperAuthors)
+      .leftJoin(users, eq(paperAuthors.userId, users.id))
+      .where(inArray(paperAuthors.paperId, paperIds))
+      .orderBy(asc(paperAuthors.paperId), asc(paperAuthors.position));
+
+    return rows.map(({ author, user }) => ({
+      ...author,
+      user: user || ({ username: "Unknown Author" } as User),
+    }));
+  }
+}
+
+const reviewCountSql = sql<number>`(select count(*)::int from ${reviews} where ${reviews.paperId} = ${papers.id})`;
+
+// Sort keys for search results, with the Postgres type a cursor value is cast back to
+const SEARCH_SORT_KEYS: Record<PaperSearchSort, { expression: SQL; type: string }> = {
+  recent: { expression: sql`${papers.createdAt}`, type: "timestamp" },
+  views: { expression: sql`coalesce(${papers.viewCount}, 0)`, type: "integer" },
+  tokens: { expression: sql`coalesce(${papers.tokenCount}, 0)`, type: "integer" },
+  rating: {
+    expression: sql`coalesce((select avg(${reviews.rating})::float8 from ${reviews} where ${reviews.paperId} = ${papers.id}), 0)`,
+    type: "float8",
+  },
+};
+
+/**
+ * Translate search filters into SQL conditions on the papers table
+ */
+function searchConditions(query: PaperSearchQuery): SQL[] {
+  const conditions: SQL[] = [];
+
+  if (query.q) {
+    // Full-text match on title and abstract, or an exact match on a tag
+    const terms = query.q.split(/\s+/).filter(term => term.length > 0);
+    conditions.push(sql`(${paperSearchDocument(papers)} @@ websearch_to_tsquery('english', ${query.q}) or ${papers.tags} && ${textArray(terms)})`);
+  }
+  if (query.status && query.status.length > 0) {
+    conditions.push(inArray(papers.status, query.status));
+  }
+  if (query.tag && query.tag.length > 0) {
+    conditions.push(sql`${papers.tags} @> ${textArray(query.tag)}`);
+  }
+  if (query.authorId) {
+    conditions.push(sql`exists (select 1 from ${paperAuthors} where ${paperAuthors.paperId} = ${papers.id} and ${paperAuthors.userId} = ${query.authorId})`);
+  }
+  if (query.institution) {
+    conditions.push(sql`exists (
+      select 1 from ${paperAuthors} inner join ${users} on ${users.id} = ${paperAuthors.userId}
+      where ${paperAuthors.paperId} = ${papers.id} and lower(${users.institution}) = lower(${query.institution})
+    )`);
+  }
+  if (query.from) {
+    conditions.push(gte(papers.createdAt, query.from));
+  }
+  if (query.to) {
+    conditions.push(lte(papers.createdAt, query.to));
+  }
+  if (query.aiVerified !== undefined) {
+    conditions.push(sql`coalesce(${papers.aiVerified}, false) = ${query.aiVerified}`);
+  }
+
+  return conditions;
+}
+
+function textArray(values: string[]): SQL {
+  return sql`array[${sql.join(values.map(value => sql`${value}`), sql`, `)}]::text[]`;
+}
+
+function withoutPassword(user: User): PublicUser {
+  const { password, ...publicUser } = user;
+  return publicUser;
+}
+
+function toPaperWithAuthor(
+  row: { paper: Paper; author: User | null; reviewCount: number },
+  authors: PaperAuthorWithUser[]
+): PaperWithAuthor {
+  return {
+    ...row.paper,
+    author: row.author || ({ username: "Unknown Author" } as User),
+    authors: authors.filter(author => author.paperId === row.paper.id),
+    reviewCount: row.reviewCount,
+  };
+}
+
+/**
+ * The author list to store for a new paper: the given list, or just the
+ * submitting author as corresponding author when none was given
+ */
+function listAuthors(paper: Paper, authors?: NewPaperAuthor[]): NewPaperAuthor[] {
+  if (authors && authors.length > 0) {
+    return authors;
+  }
+  return [{ userId: paper.authorId, isCorresponding: true, roles: [] }];
+}
+
+/**
+ * Encode the position after a search result as an opaque cursor. The cursor
+ * is tied to the sort order it was issued for.
+ */
+function encodeSearchCursor(sort: PaperSearchSort, value: string, id: number): string {
+  return Buffer.from(JSON.stringify({ sort, value, id })).toString("base64url");
+}
+
+function decodeSearchCursor(cursor: string, sort: PaperSearchSort): { value: string; id: number } | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8"));
+    if (decoded.sort !== sort || typeof decoded.value !== "string" || !Number.isInteger(decoded.id)) {
+      return null;
+    }
+    return { value: decoded.value, id: decoded.id };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Build the ledger entries for a token award. Tokens earned through a paper
+ * are issued to the paper's account and passed on to the researcher from
+ * there; other awards go straight from the treasury.
+ */
+function ledgerEntriesForAward(award: TokenAward): InsertLedgerEntry[] {
+  const { userId, amount, reason, paperId, reviewId } = award;
+  if (paperId === undefined) {
+    return [{ debitAccount: TREASURY_ACCOUNT, creditAccount: userAccount(userId), amount, reason, reviewId }];
+  }
+  return [
+    { debitAccount: TREASURY_ACCOUNT, creditAccount: paperAccount(paperId), amount, reason, paperId, reviewId },
+    { debitAccount: paperAccount(paperId), creditAccount: userAccount(userId), amount, reason, paperId, reviewId },
+  ];
+}
+
+/**
+ * Split a token award into whole-token shares, giving any remainder to the
+ * earliest authors
+ * @param amount The total award
+ * @param parts The number of authors sharing it
+ */
+function splitAward(amount: number, parts: number): number[] {
+  const base = Math.floor(amount / parts);
+  const remainder = amount % parts;
+  return Array.from({ length: parts }, (_, i) => base + (i < remainder ? 1 : 0));
+}
+
+/**
+ * Pick the storage backend from configuration. STORAGE_DRIVER may be
+ * "postgres" or "memory"; when unset, Postgres is used whenever DATABASE_URL
+ * is present so that a provisioned database is never silently ignored.
+ */
+function createStorage(): { storage: IStorage; database: Database | null } {
+  const driver = process.env.STORAGE_DRIVER || (process.env.DATABASE_URL ? "postgres" : "memory");
+
+  switch (driver) {
+    case "postgres": {
+      if (!process.env.DATABASE_URL) {
+        throw new Error("STORAGE_DRIVER=postgres requires DATABASE_URL to be set");
+      }
+      const { db } = createDatabase(process.env.DATABASE_URL);
+      return { storage: new DrizzleStorage(db), database: db };
+    }
+    case "memory":
+      return { storage: new MemStorage(), database: null };
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${driver}", expected "postgres" or "memory"`);
+  }
 }
 
-export const storage = new MemStorage();
+// The Drizzle client behind `storage`, or null when running on MemStorage
+export const { storage, database } = createStorage();
@@ -0,0 +1,29 @@
+import { z } from "zod";
+
+// Shapes of the AI analysis results. Model output is checked against these
+// before it is stored, and the client reads stored analyses with the types.
+
+export const paperAnalysisSchema = z.object({
+  plagiarismCheck: z.string().trim().min(1),
+  referenceVerification: z.string().trim().min(1),
+  contentSummary: z.string().trim().min(1),
+  qualityRating: z.coerce.number().min(1).max(10), // Models sometimes send "7"
+});
+
+// The assessment of a paper that is stored as its AI analysis
+export type PaperAnalysis = z.infer<typeof paperAnalysisSchema>;
+
+export const plagiarismCheckSchema = z.object({
+  isPlagiarized: z.boolean(),
+  confidence: z.coerce.number().min(0).max(1),
+  details: z.string(),
+});
+
+export type PlagiarismCheck = z.infer<typeof plagiarismCheckSchema>;
+
+// Tokens a model run consumed, as reported by the provider
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
@@ -0,0 +1,28 @@
+// What the server anchors in contracts/PaperRegistry.sol, and the proof it
+// returns from GET /api/anchors/:type/:id so the client can show where each
+// submission was recorded.
+
+import { keccak256, toUtf8Bytes } from "ethers";
+
+export const ANCHOR_TYPES = ["paper", "review"] as const;
+
+export type AnchorType = (typeof ANCHOR_TYPES)[number];
+
+/**
+ * Hash a review's text the way it is recorded in the registry, so anyone
+ * holding the review can check it against the chain
+ */
+export function reviewContentHash(content: string): string {
+  return keccak256(toUtf8Bytes(content));
+}
+
+export interface AnchorProof {
+  type: AnchorType;
+  id: number;
+  txHash: string | null; // Null until the registration has been sent
+  registryAddress: string | null;
+  chainId: number;
+  blockNumber: number | null; // Null until the transaction is mined
+  timestamp: number | null; // Block timestamp in seconds
+  confirmed: boolean;
+}
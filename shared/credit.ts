@@ -0,0 +1,38 @@
+// CRediT (Contributor Roles Taxonomy) roles an author can be credited with.
+// See https://credit.niso.org for the definition of each role.
+
+export const CREDIT_ROLES = [
+  "conceptualization",
+  "data-curation",
+  "formal-analysis",
+  "funding-acquisition",
+  "investigation",
+  "methodology",
+  "project-administration",
+  "resources",
+  "software",
+  "supervision",
+  "validation",
+  "visualization",
+  "writing-original-draft",
+  "writing-review-editing",
+] as const;
+
+export type CreditRole = (typeof CREDIT_ROLES)[number];
+
+export const CREDIT_ROLE_LABELS: Record<CreditRole, string> = {
+  "conceptualization": "Conceptualization",
+  "data-curation": "Data curation",
+  "formal-analysis": "Formal analysis",
+  "funding-acquisition": "Funding acquisition",
+  "investigation": "Investigation",
+  "methodology": "Methodology",
+  "project-administration": "Project administration",
+  "resources": "Resources",
+  "software": "Software",
+  "supervision": "Supervision",
+  "validation": "Validation",
+  "visualization": "Visualization",
+  "writing-original-draft": "Writing – original draft",
+  "writing-review-editing": "Writing – review & editing",
+};
@@ -0,0 +1,26 @@
+// Sections the document processor recognises in a paper's extracted text.
+//
+// Headings are matched by name, so "Background" counts as the introduction,
+// "Materials and Methods" as the methods and "Concluding Remarks" as the
+// conclusion. Text before the first recognised heading (title, authors,
+// affiliations) is not assigned to a section.
+
+export const PAPER_SECTIONS = [
+  "abstract",
+  "introduction",
+  "methods",
+  "results",
+  "discussion",
+  "conclusion",
+  "references",
+] as const;
+
+export type PaperSection = (typeof PAPER_SECTIONS)[number];
+
+// Text of each section found in a paper
+export type PaperSections = Partial<Record<PaperSection, string>>;
+
+// How the text was obtained: extracted from a PDF, or read as plain text
+export const DOCUMENT_FORMATS = ["pdf", "text"] as const;
+
+export type DocumentFormat = (typeof DOCUMENT_FORMATS)[number];
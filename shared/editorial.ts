@@ -0,0 +1,62 @@
+import type { PaperStatus } from "./lifecycle";
+
+// Editorial review of papers, as run by editors from the /editor dashboard.
+//
+// An editor invites reviewers to a paper with a deadline. An invitation is
+// `pending` until the reviewer has `accepted` or `declined` it, and
+// `completed` once the reviewer's review is in; an editor may cancel an open
+// invitation (`cancelled`). Reviews stay open to anyone, invited or not,
+// except a reviewer who declined their invitation or let its deadline pass.
+// The editor then records a decision on the paper, which moves it through the
+// paper lifecycle (see shared/lifecycle.ts).
+
+export const INVITATION_STATUSES = ["pending", "accepted", "declined", "completed", "cancelled"] as const;
+
+export type InvitationStatus = (typeof INVITATION_STATUSES)[number];
+
+// Statuses of an invitation the reviewer may still act on; a reviewer has at
+// most one such invitation per paper
+export const OPEN_INVITATION_STATUSES: InvitationStatus[] = ["pending", "accepted"];
+
+export const INVITATION_STATUS_LABELS: Record<InvitationStatus, string> = {
+  pending: "Pending",
+  accepted: "Accepted",
+  declined: "Declined",
+  completed: "Completed",
+  cancelled: "Cancelled",
+};
+
+// Days a reviewer is given when an invitation names no deadline
+export const DEFAULT_REVIEW_DAYS = 14;
+
+export const EDITORIAL_DECISIONS = ["accept", "revise", "reject"] as const;
+
+export type EditorialDecisionType = (typeof EDITORIAL_DECISIONS)[number];
+
+// The status each decision moves a paper to
+export const DECISION_STATUSES: Record<EditorialDecisionType, PaperStatus> = {
+  accept: "accepted",
+  revise: "revisions_requested",
+  reject: "rejected",
+};
+
+export const DECISION_LABELS: Record<EditorialDecisionType, string> = {
+  accept: "Accept",
+  revise: "Request revisions",
+  reject: "Reject",
+};
+
+// Statuses of papers still in editorial review: new and revised submissions,
+// papers under review, and papers waiting on revisions from their authors
+export const EDITORIAL_QUEUE_STATUSES: PaperStatus[] = ["submitted", "under_review", "revisions_requested"];
+
+// Whether an open invitation's deadline has passed
+export function isInvitationOverdue(invitation: { status: InvitationStatus; dueAt: Date | string }, now = new Date()): boolean {
+  return OPEN_INVITATION_STATUSES.includes(invitation.status) && new Date(invitation.dueAt).getTime() < now.getTime();
+}
+
+// Whether an invitation bars its reviewer from reviewing the paper: they
+// declined it, or it is still open past its deadline
+export function invitationBarsReview(invitation: { status: InvitationStatus; dueAt: Date | string }, now = new Date()): boolean {
+  return invitation.status === "declined" || isInvitationOverdue(invitation, now);
+}
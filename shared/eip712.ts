@@ -0,0 +1,172 @@
+// EIP-712 typed-data definitions for the submissions users sign with their
+// wallet. The client signs these with `signer.signTypedData` and the server
+// rebuilds the same struct from the request to verify it, so both sides must
+// share these definitions.
+
+export const EIP712_DOMAIN_NAME = "DeSci Hub";
+export const EIP712_DOMAIN_VERSION = "1";
+
+// How long a signed submission stays valid, in seconds
+export const SIGNATURE_TTL_SECONDS = 10 * 60;
+
+export interface TypedDataDomain {
+  name: string;
+  version: string;
+  chainId: number;
+}
+
+export type TypedDataTypes = Record<string, { name: string; type: string }[]>;
+
+export const PAPER_SUBMISSION_TYPES: TypedDataTypes = {
+  PaperSubmission: [
+    { name: "author", type: "address" },
+    { name: "title", type: "string" },
+    { name: "ipfsCid", type: "string" },
+    { name: "metadataHash", type: "string" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+export const PAPER_REVISION_TYPES: TypedDataTypes = {
+  PaperRevision: [
+    { name: "author", type: "address" },
+    { name: "paperId", type: "uint256" },
+    { name: "version", type: "uint256" },
+    { name: "title", type: "string" },
+    { name: "ipfsCid", type: "string" },
+    { name: "metadataHash", type: "string" },
+    { name: "changeLog", type: "string" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+export const AUTHORSHIP_CONFIRMATION_TYPES: TypedDataTypes = {
+  AuthorshipConfirmation: [
+    { name: "author", type: "address" },
+    { name: "paperId", type: "uint256" },
+    { name: "position", type: "uint256" },
+    { name: "roles", type: "string[]" },
+    { name: "corresponding", type: "bool" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+export const REVIEW_TYPES: TypedDataTypes = {
+  Review: [
+    { name: "reviewer", type: "address" },
+    { name: "paperId", type: "uint256" },
+    { name: "version", type: "uint256" },
+    { name: "content", type: "string" },
+    { name: "rating", type: "uint8" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+export interface PaperSubmissionMessage {
+  author: string;
+  title: string;
+  ipfsCid: string;
+  metadataHash: string;
+  nonce: number;
+  deadline: number;
+}
+
+export interface PaperRevisionMessage {
+  author: string;
+  paperId: number;
+  version: number;
+  title: string;
+  ipfsCid: string;
+  metadataHash: string;
+  changeLog: string;
+  nonce: number;
+  deadline: number;
+}
+
+export interface AuthorshipConfirmationMessage {
+  author: string;
+  paperId: number;
+  position: number;
+  roles: string[];
+  corresponding: boolean;
+  nonce: number;
+  deadline: number;
+}
+
+export interface ReviewMessage {
+  reviewer: string;
+  paperId: number;
+  version: number;
+  content: string;
+  rating: number;
+  nonce: number;
+  deadline: number;
+}
+
+// Everything needed to re-verify a signature later, stored next to the row
+export interface SignedPayload<T = Record<string, unknown>> {
+  domain: TypedDataDomain;
+  types: TypedDataTypes;
+  primaryType: string;
+  message: T;
+}
+
+export function getEip712Domain(chainId: number): TypedDataDomain {
+  return {
+    name: EIP712_DOMAIN_NAME,
+    version: EIP712_DOMAIN_VERSION,
+    chainId,
+  };
+}
+
+export function buildPaperSubmissionPayload(
+  chainId: number,
+  message: PaperSubmissionMessage
+): SignedPayload<PaperSubmissionMessage> {
+  return {
+    domain: getEip712Domain(chainId),
+    types: PAPER_SUBMISSION_TYPES,
+    primaryType: "PaperSubmission",
+    message,
+  };
+}
+
+export function buildPaperRevisionPayload(
+  chainId: number,
+  message: PaperRevisionMessage
+): SignedPayload<PaperRevisionMessage> {
+  return {
+    domain: getEip712Domain(chainId),
+    types: PAPER_REVISION_TYPES,
+    primaryType: "PaperRevision",
+    message,
+  };
+}
+
+export function buildAuthorshipConfirmationPayload(
+  chainId: number,
+  message: AuthorshipConfirmationMessage
+): SignedPayload<AuthorshipConfirmationMessage> {
+  return {
+    domain: getEip712Domain(chainId),
+    types: AUTHORSHIP_CONFIRMATION_TYPES,
+    primaryType: "AuthorshipConfirmation",
+    message,
+  };
+}
+
+export function buildReviewPayload(
+  chainId: number,
+  message: ReviewMessage
+): SignedPayload<ReviewMessage> {
+  return {
+    domain: getEip712Domain(chainId),
+    types: REVIEW_TYPES,
+    primaryType: "Review",
+    message,
+  };
+}
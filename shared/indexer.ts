@@ -0,0 +1,14 @@
+// Query shape for GET /api/chain/events, which lists the contract events the
+// server's indexer has synced from the chain.
+
+import { z } from "zod";
+
+export const chainEventQuerySchema = z.object({
+  contract: z.string().trim().toLowerCase().optional(), // Contract address
+  event: z.string().trim().min(1).optional(), // Event name, e.g. "Transfer"
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export type ChainEventQuery = z.infer<typeof chainEventQuerySchema> & {
+  chainId: number;
+};
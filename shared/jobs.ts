@@ -0,0 +1,18 @@
+// Lifecycle of the background AI analysis jobs, as run by the analysis worker
+// and reported by GET /api/papers/:id/analysis/jobs.
+//
+// A job is `queued` until the worker picks it up and `running` while the paper
+// is analysed. It ends `succeeded`, or `failed` once its attempts run out; a
+// failed attempt before that puts it back in the queue with a later run time.
+
+export const JOB_STATUSES = ["queued", "running", "succeeded", "failed"] as const;
+
+export type JobStatus = (typeof JOB_STATUSES)[number];
+
+// What asked for the analysis
+export const JOB_TRIGGERS = ["submission", "revision", "manual"] as const;
+
+export type JobTrigger = (typeof JOB_TRIGGERS)[number];
+
+// Statuses of a job that has not finished; a paper has at most one such job
+export const ACTIVE_JOB_STATUSES: JobStatus[] = ["queued", "running"];
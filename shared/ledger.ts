@@ -0,0 +1,78 @@
+// Accounts and reasons of the double-entry token ledger. Every entry moves an
+// amount from a debit account to a credit account, so the balances of all
+// accounts always sum to zero. New tokens are issued by debiting the treasury,
+// whose balance is therefore minus the total supply.
+//
+// Tokens earned through a paper pass through the paper's account on their way
+// to the researchers, so a paper's credits are the tokens it has generated.
+
+export const LEDGER_REASONS = [
+  "paper_submission",
+  "ai_verification",
+  "peer_review",
+] as const;
+
+export type LedgerReason = (typeof LEDGER_REASONS)[number];
+
+export const TREASURY_ACCOUNT = "treasury";
+
+export const userAccount = (userId: number) => `user:${userId}`;
+
+export const paperAccount = (paperId: number) => `paper:${paperId}`;
+
+/**
+ * Split an account key such as "user:12" into its kind and ID
+ * @returns Undefined for keys that name no known account
+ */
+export function parseAccount(account: string): { kind: "treasury" } | { kind: "user" | "paper"; id: number } | undefined {
+  if (account === TREASURY_ACCOUNT) {
+    return { kind: "treasury" };
+  }
+  const match = /^(user|paper):(\d+)$/.exec(account);
+  if (!match) {
+    return undefined;
+  }
+  return { kind: match[1] as "user" | "paper", id: Number(match[2]) };
+}
+
+// Tokens paid to a researcher. `description` is the reason shown in their
+// token history.
+export interface TokenAward {
+  userId: number;
+  amount: number;
+  reason: LedgerReason;
+  description: string;
+  paperId?: number;
+  reviewId?: number;
+}
+
+// Tokens shared among a paper's confirmed authors
+export type PaperAward = Pick<TokenAward, "amount" | "reason" | "description">;
+
+// Total debits and credits posted to one account
+export interface LedgerAccountTotals {
+  account: string;
+  debits: number;
+  credits: number;
+}
+
+// A balance the application keeps outside the ledger for fast reads:
+// `users.tokenBalance`, `papers.tokenCount` and the sum of a user's `tokens`
+// rows
+export interface RecordedBalance {
+  account: string;
+  field: "tokenBalance" | "tokenCount" | "tokenHistory";
+  value: number;
+}
+
+export interface LedgerDrift extends RecordedBalance {
+  expected: number; // What the ledger says the value should be
+}
+
+export interface LedgerVerification {
+  ok: boolean;
+  checkedAt: string;
+  totalSupply: number; // Tokens issued by the treasury
+  unknownAccounts: string[]; // Account keys that name no treasury, user or paper
+  drift: LedgerDrift[];
+}
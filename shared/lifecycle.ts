@@ -0,0 +1,75 @@
+// Lifecycle of a paper, as stored in papers.status and recorded in
+// paper_status_history.
+//
+// A paper is `submitted` once its authors publish it (`draft` before that)
+// and `under_review` from its first peer review. An editor's decision (see
+// shared/editorial.ts) ends review in `revisions_requested`, which a new
+// version returns to `submitted`, or in `accepted` or `rejected`. The
+// verification policy moves accepted papers that pass AI analysis to
+// `verified`, so AI analysis never takes a paper out of editorial review.
+// Authors may withdraw a paper before a decision and retract one after
+// acceptance; `rejected`, `withdrawn` and `retracted` are final.
+
+export const PAPER_STATUSES = [
+  "draft",
+  "submitted",
+  "under_review",
+  "revisions_requested",
+  "accepted",
+  "verified",
+  "rejected",
+  "withdrawn",
+  "retracted",
+] as const;
+
+export type PaperStatus = (typeof PAPER_STATUSES)[number];
+
+// The statuses each status may move to
+export const PAPER_STATUS_TRANSITIONS: Record<PaperStatus, PaperStatus[]> = {
+  draft: ["submitted", "withdrawn"],
+  submitted: ["under_review", "revisions_requested", "accepted", "rejected", "withdrawn"],
+  under_review: ["revisions_requested", "accepted", "rejected", "withdrawn"],
+  revisions_requested: ["submitted", "rejected", "withdrawn"],
+  accepted: ["verified", "retracted"],
+  verified: ["retracted"],
+  rejected: [],
+  withdrawn: [],
+  retracted: [],
+};
+
+export function canTransition(from: PaperStatus, to: PaperStatus): boolean {
+  return PAPER_STATUS_TRANSITIONS[from].includes(to);
+}
+
+// Whether a paper has reached a status it can never leave
+export function isFinalStatus(status: PaperStatus): boolean {
+  return PAPER_STATUS_TRANSITIONS[status].length === 0;
+}
+
+// Statuses a paper's own authors may move it to; the others are reached
+// through review, editorial decisions or verification
+export const AUTHOR_STATUSES: PaperStatus[] = ["submitted", "withdrawn", "retracted"];
+
+// Who or what made a status change
+export const STATUS_CHANGE_SOURCES = ["author", "reviewer", "editor", "ai", "system"] as const;
+
+export type StatusChangeSource = (typeof STATUS_CHANGE_SOURCES)[number];
+
+export interface PaperStatusChange {
+  status: PaperStatus;
+  source: StatusChangeSource;
+  changedBy?: number | null; // The user behind the change; null for automatic changes
+  note?: string | null;
+}
+
+export const PAPER_STATUS_LABELS: Record<PaperStatus, string> = {
+  draft: "Draft",
+  submitted: "Submitted",
+  under_review: "Under Review",
+  revisions_requested: "Revisions Requested",
+  accepted: "Accepted",
+  verified: "Verified by AI",
+  rejected: "Rejected",
+  withdrawn: "Withdrawn",
+  retracted: "Retracted",
+};
@@ -0,0 +1,118 @@
+// Merkle trees over anchored papers and reviews. The server commits only each
+// batch's root to the paper registry and keeps every leaf's inclusion proof,
+// which GET /api/proofs/:type/:id returns so anyone can check offline that a
+// submission is part of an anchored root.
+//
+// Trees follow the OpenZeppelin MerkleProof conventions, so the registry's
+// `verifyLeaf` accepts the same proofs: leaves are double-hashed ABI
+// encodings, and each pair of nodes is hashed in sorted order.
+
+import { AbiCoder, concat, keccak256 } from "ethers";
+import type { AnchorType } from "./anchoring";
+
+// What is recorded for a paper version: its content and who wrote it
+export interface PaperLeafData {
+  paperId: number;
+  version: number;
+  ipfsCid: string;
+  metadataHash: string;
+  authors: string[]; // Checksummed wallet addresses, in author order
+}
+
+// What is recorded for a review: the hash of its text and who wrote it
+export interface ReviewLeafData {
+  reviewId: number;
+  paperId: number;
+  contentHash: string;
+  reviewer: string; // Checksummed wallet address
+}
+
+export type LeafData = PaperLeafData | ReviewLeafData;
+
+const abiCoder = AbiCoder.defaultAbiCoder();
+
+/**
+ * Hash a paper or review into a Merkle leaf
+ * @param type Whether the data describes a paper or a review
+ * @param data The recorded fields
+ */
+export function hashLeaf(type: AnchorType, data: LeafData): string {
+  let encoded: string;
+  if (type === "paper") {
+    const paper = data as PaperLeafData;
+    encoded = abiCoder.encode(
+      ["string", "uint256", "uint256", "string", "string", "address[]"],
+      ["paper", paper.paperId, paper.version, paper.ipfsCid, paper.metadataHash, paper.authors]
+    );
+  } else {
+    const review = data as ReviewLeafData;
+    encoded = abiCoder.encode(
+      ["string", "uint256", "uint256", "bytes32", "address"],
+      ["review", review.reviewId, review.paperId, review.contentHash, review.reviewer]
+    );
+  }
+  return keccak256(keccak256(encoded));
+}
+
+function hashPair(a: string, b: string): string {
+  return BigInt(a) < BigInt(b) ? keccak256(concat([a, b])) : keccak256(concat([b, a]));
+}
+
+/**
+ * Build a Merkle tree over the leaves and the inclusion proof of each. A node
+ * without a sibling is carried up to the next level unchanged.
+ * @param leaves The leaf hashes, in batch order
+ * @returns The root and, for each leaf, the sibling hashes from the leaf up
+ */
+export function buildMerkleTree(leaves: string[]): { root: string; proofs: string[][] } {
+  if (leaves.length === 0) {
+    throw new Error("Cannot build a Merkle tree without leaves");
+  }
+
+  const proofs: string[][] = leaves.map(() => []);
+  // Which node of the current level each leaf sits under
+  let positions = leaves.map((_, index) => index);
+  let level = leaves;
+
+  while (level.length > 1) {
+    const next: string[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(i + 1 < level.length ? hashPair(level[i], level[i + 1]) : level[i]);
+    }
+
+    positions = positions.map((position, leafIndex) => {
+      const sibling = position % 2 === 0 ? position + 1 : position - 1;
+      if (sibling < level.length) {
+        proofs[leafIndex].push(level[sibling]);
+      }
+      return Math.floor(position / 2);
+    });
+    level = next;
+  }
+
+  return { root: level[0], proofs };
+}
+
+/**
+ * Check that a leaf is included under a root
+ * @param leaf The leaf hash
+ * @param proof The sibling hashes from the leaf up
+ * @param root The expected root
+ */
+export function verifyMerkleProof(leaf: string, proof: string[], root: string): boolean {
+  const computed = proof.reduce((node, sibling) => hashPair(node, sibling), leaf);
+  return computed.toLowerCase() === root.toLowerCase();
+}
+
+export interface MerkleInclusionProof {
+  type: AnchorType;
+  id: number;
+  data: LeafData; // The fields the leaf was hashed from
+  leaf: string;
+  proof: string[];
+  root: string;
+  batchId: number;
+  txHash: string | null; // Null until the root has been sent to the registry
+  registryAddress: string | null;
+  chainId: number;
+}
@@ -0,0 +1,83 @@
+// Networks the platform can run on. The server picks one with the NETWORK
+// environment variable (default "polygon-amoy") and serves it to the client
+// from GET /api/network, so both sides agree on the chain, explorer and
+// contracts. Contract addresses set in the server's environment override the
+// ones listed here.
+
+export const NETWORK_KEYS = ["localhost", "polygon-amoy", "polygon"] as const;
+
+export type NetworkKey = (typeof NETWORK_KEYS)[number];
+
+export const NETWORK_CONTRACTS = ["rewardToken", "paperRegistry"] as const;
+
+export type NetworkContract = (typeof NETWORK_CONTRACTS)[number];
+
+export interface NetworkConfig {
+  key: NetworkKey;
+  chainId: number;
+  name: string;
+  rpcUrl: string; // Public endpoint, also offered to wallets adding the network
+  explorerUrl: string | null; // Null for local nodes, which have no explorer
+  nativeCurrency: {
+    name: string;
+    symbol: string;
+    decimals: number;
+  };
+  contracts: Record<NetworkContract, string | null>; // Null until deployed
+}
+
+export const NETWORKS: Record<NetworkKey, NetworkConfig> = {
+  // A local Hardhat or Anvil node
+  localhost: {
+    key: "localhost",
+    chainId: 31337,
+    name: "Localhost 8545",
+    rpcUrl: "http://127.0.0.1:8545",
+    explorerUrl: null,
+    nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+    contracts: { rewardToken: null, paperRegistry: null },
+  },
+  "polygon-amoy": {
+    key: "polygon-amoy",
+    chainId: 80002,
+    name: "Polygon Amoy Testnet",
+    rpcUrl: "https://rpc-amoy.polygon.technology",
+    explorerUrl: "https://amoy.polygonscan.com",
+    nativeCurrency: { name: "POL", symbol: "POL", decimals: 18 },
+    contracts: { rewardToken: null, paperRegistry: null },
+  },
+  polygon: {
+    key: "polygon",
+    chainId: 137,
+    name: "Polygon Mainnet",
+    rpcUrl: "https://polygon-rpc.com",
+    explorerUrl: "https://polygonscan.com",
+    nativeCurrency: { name: "POL", symbol: "POL", decimals: 18 },
+    contracts: { rewardToken: null, paperRegistry: null },
+  },
+};
+
+export const DEFAULT_NETWORK: NetworkKey = "polygon-amoy";
+
+/**
+ * Check whether a string names a network in the registry
+ */
+export function isNetworkKey(key: string): key is NetworkKey {
+  return (NETWORK_KEYS as readonly string[]).includes(key);
+}
+
+/**
+ * Find the network with a chain id
+ * @returns The network, or undefined if the chain is not supported
+ */
+export function getNetworkByChainId(chainId: number): NetworkConfig | undefined {
+  return Object.values(NETWORKS).find((network) => network.chainId === chainId);
+}
+
+/**
+ * Get the block explorer page for a transaction
+ * @returns The URL, or null if the network has no explorer
+ */
+export function getExplorerTxUrl(network: NetworkConfig, txHash: string): string | null {
+  return network.explorerUrl ? `${network.explorerUrl}/tx/${txHash}` : null;
+}
@@ -1,6 +1,16 @@
-import { pgTable, text, serial, integer, boolean, timestamp, json } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, json, unique, uniqueIndex, index, check, primaryKey, type AnyPgColumn } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { LEDGER_REASONS } from "./ledger";
+import { ANCHOR_TYPES } from "./anchoring";
+import type { LeafData } from "./merkle";
+import { TRANSACTION_KINDS, TRANSACTION_STATUSES } from "./transactions";
+import { JOB_STATUSES, JOB_TRIGGERS } from "./jobs";
+import { DOCUMENT_FORMATS, type PaperSections } from "./documents";
+import type { PaperAnalysis } from "./analysis";
+import { PAPER_STATUSES, STATUS_CHANGE_SOURCES } from "./lifecycle";
+import { EDITORIAL_DECISIONS, INVITATION_STATUSES } from "./editorial";
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -11,6 +21,7 @@ export const users = pgTable("users", {
   bio: text("bio"),
   profileImage: text("profile_image"),
   tokenBalance: integer("token_balance").default(0),
+  isEditor: boolean("is_editor").notNull().default(false), // Granted by an administrator
 });
 
 export const papers = pgTable("papers", {
@@ -20,23 +31,80 @@ export const papers = pgTable("papers", {
   authorId: integer("author_id").notNull(),
   ipfsCid: text("ipfs_cid").notNull(),
   metadataHash: text("metadata_hash"),
-  status: text("status").notNull().default("submitted"),
+  status: text("status", { enum: PAPER_STATUSES }).notNull().default("submitted"), // See shared/lifecycle.ts
   createdAt: timestamp("created_at").notNull().defaultNow(),
   tags: text("tags").array(),
   viewCount: integer("view_count").default(0),
   tokenCount: integer("token_count").default(0),
   aiVerified: boolean("ai_verified").default(false),
-  aiAnalysis: json("ai_analysis"),
-});
+  aiAnalysis: json("ai_analysis").$type<PaperAnalysis>(), // The latest run in ai_analyses
+  signedPayload: json("signed_payload"), // The current version's, like the CID and hash
+  signature: text("signature"),
+  currentVersion: integer("current_version").notNull().default(1),
+  txHash: text("tx_hash"), // PaperRegistry registration, null until anchored
+}, (table) => [
+  index("papers_search_idx").using("gin", paperSearchDocument(table)),
+  index("papers_tags_idx").using("gin", table.tags),
+]);
+
+/**
+ * The weighted full-text document a paper is searched by. Queries must use
+ * this same expression for Postgres to use the papers_search_idx index.
+ */
+export function paperSearchDocument(table: { title: AnyPgColumn; abstract: AnyPgColumn }) {
+  return sql`(setweight(to_tsvector('english', coalesce(${table.title}, '')), 'A') || setweight(to_tsvector('english', coalesce(${table.abstract}, '')), 'B'))`;
+}
+
+// Immutable history of a paper's manuscripts. Version 1 is the original
+// submission; every revision adds a row and moves papers.currentVersion.
+export const paperVersions = pgTable("paper_versions", {
+  id: serial("id").primaryKey(),
+  paperId: integer("paper_id").notNull(),
+  version: integer("version").notNull(),
+  title: text("title").notNull(),
+  abstract: text("abstract").notNull(),
+  tags: text("tags").array(),
+  ipfsCid: text("ipfs_cid").notNull(),
+  metadataHash: text("metadata_hash"),
+  changeLog: text("change_log"),
+  signedPayload: json("signed_payload"),
+  signature: text("signature"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  unique("paper_versions_paper_id_version_unique").on(table.paperId, table.version),
+]);
+
+// Ordered author list of a paper. The submitting author is confirmed by their
+// submission signature; co-authors confirm by signing an authorship
+// confirmation with their own wallet.
+export const paperAuthors = pgTable("paper_authors", {
+  id: serial("id").primaryKey(),
+  paperId: integer("paper_id").notNull(),
+  userId: integer("user_id").notNull(),
+  position: integer("position").notNull(), // 1 is the first author
+  isCorresponding: boolean("is_corresponding").notNull().default(false),
+  roles: text("roles").array().notNull().default([]), // CRediT roles, see shared/credit.ts
+  confirmed: boolean("confirmed").notNull().default(false),
+  signedPayload: json("signed_payload"),
+  signature: text("signature"),
+  confirmedAt: timestamp("confirmed_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  unique("paper_authors_paper_id_user_id_unique").on(table.paperId, table.userId),
+  unique("paper_authors_paper_id_position_unique").on(table.paperId, table.position),
+]);
 
 export const reviews = pgTable("reviews", {
   id: serial("id").primaryKey(),
   paperId: integer("paper_id").notNull(),
   reviewerId: integer("reviewer_id").notNull(),
+  versionId: integer("version_id"),
   content: text("content").notNull(),
   rating: integer("rating").notNull(),
   ipfsCid: text("ipfs_cid"),
   txHash: text("tx_hash"),
+  signedPayload: json("signed_payload"),
+  signature: text("signature"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -49,6 +117,258 @@ export const tokens = pgTable("tokens", {
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+// Double-entry token ledger; see shared/ledger.ts for the account keys.
+// `paperId` and `reviewId` reference what caused the movement.
+export const ledgerEntries = pgTable("ledger_entries", {
+  id: serial("id").primaryKey(),
+  debitAccount: text("debit_account").notNull(),
+  creditAccount: text("credit_account").notNull(),
+  amount: integer("amount").notNull(),
+  reason: text("reason", { enum: LEDGER_REASONS }).notNull(),
+  paperId: integer("paper_id"),
+  reviewId: integer("review_id"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("ledger_entries_debit_account_idx").on(table.debitAccount),
+  index("ledger_entries_credit_account_idx").on(table.creditAccount),
+  check("ledger_entries_amount_positive", sql`${table.amount} > 0`),
+  check("ledger_entries_distinct_accounts", sql`${table.debitAccount} <> ${table.creditAccount}`),
+]);
+
+// Merkle trees of papers and reviews whose roots are anchored in PaperRegistry;
+// see shared/merkle.ts. `txHash` is the anchorRoot transaction, null until sent.
+export const anchorBatches = pgTable("anchor_batches", {
+  id: serial("id").primaryKey(),
+  root: text("root").notNull().unique(),
+  leafCount: integer("leaf_count").notNull(),
+  txHash: text("tx_hash"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// One paper or review in an anchor batch, with the fields its leaf was hashed
+// from and its inclusion proof. Each paper version and each review is batched
+// at most once.
+export const anchorLeaves = pgTable("anchor_leaves", {
+  id: serial("id").primaryKey(),
+  batchId: integer("batch_id").notNull().references(() => anchorBatches.id),
+  itemType: text("item_type", { enum: ANCHOR_TYPES }).notNull(),
+  itemId: integer("item_id").notNull(),
+  itemVersion: integer("item_version").notNull().default(1), // The paper version; reviews are never revised
+  data: json("data").$type<LeafData>().notNull(),
+  leaf: text("leaf").notNull(),
+  proof: text("proof").array().notNull(),
+}, (table) => [
+  unique("anchor_leaves_item_unique").on(table.itemType, table.itemId, table.itemVersion),
+  index("anchor_leaves_batch_id_idx").on(table.batchId),
+]);
+
+// Last block the event indexer processed for each contract. The block hash is
+// kept so a reorg deeper than the confirmation depth is noticed on the next
+// run; it is null while nothing has been indexed.
+export const indexerCursors = pgTable("indexer_cursors", {
+  id: serial("id").primaryKey(),
+  chainId: integer("chain_id").notNull(),
+  contractAddress: text("contract_address").notNull(),
+  blockNumber: integer("block_number").notNull(),
+  blockHash: text("block_hash"),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  unique("indexer_cursors_contract_unique").on(table.chainId, table.contractAddress),
+]);
+
+// Contract events followed by the indexer, whether or not the server sent the
+// transaction. `args` holds the decoded arguments, with integers as strings.
+export const chainEvents = pgTable("chain_events", {
+  id: serial("id").primaryKey(),
+  chainId: integer("chain_id").notNull(),
+  contractAddress: text("contract_address").notNull(),
+  eventName: text("event_name").notNull(),
+  blockNumber: integer("block_number").notNull(),
+  blockHash: text("block_hash").notNull(),
+  txHash: text("tx_hash").notNull(),
+  logIndex: integer("log_index").notNull(),
+  args: json("args").$type<Record<string, string>>().notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  unique("chain_events_log_unique").on(table.chainId, table.blockNumber, table.logIndex),
+  index("chain_events_contract_block_idx").on(table.chainId, table.contractAddress, table.blockNumber),
+]);
+
+// Reward token balances per wallet as of the last indexed Transfer, in the
+// token's base units
+export const tokenHoldings = pgTable("token_holdings", {
+  id: serial("id").primaryKey(),
+  chainId: integer("chain_id").notNull(),
+  tokenAddress: text("token_address").notNull(),
+  walletAddress: text("wallet_address").notNull(),
+  balance: text("balance").notNull(),
+  blockNumber: integer("block_number").notNull(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  unique("token_holdings_wallet_unique").on(table.chainId, table.tokenAddress, table.walletAddress),
+]);
+
+// Transactions sent from the server wallet and where each is in its lifecycle;
+// see shared/transactions.ts. The nonce, recipient, calldata and gas settings
+// are kept so a stuck transaction can be sent again with a higher gas price.
+export const transactions = pgTable("transactions", {
+  id: serial("id").primaryKey(),
+  txHash: text("tx_hash").notNull().unique(),
+  kind: text("kind", { enum: TRANSACTION_KINDS }).notNull(),
+  status: text("status", { enum: TRANSACTION_STATUSES }).notNull().default("pending"),
+  confirmations: integer("confirmations").notNull().default(0),
+  blockNumber: integer("block_number"),
+  fromAddress: text("from_address").notNull(),
+  toAddress: text("to_address").notNull(),
+  nonce: integer("nonce").notNull(),
+  data: text("data").notNull(),
+  gasLimit: text("gas_limit").notNull(),
+  gasPrice: text("gas_price").notNull(), // Wei; the max fee per gas for EIP-1559 transactions
+  replacedBy: text("replaced_by"), // The transaction sent in its place
+  error: text("error"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  index("transactions_status_idx").on(table.status),
+  index("transactions_sender_nonce_idx").on(table.fromAddress, table.nonce),
+]);
+
+// AI analyses waiting for, or run by, the analysis worker; see shared/jobs.ts.
+// `runAt` is when a queued job may next be picked up, later than its creation
+// after a failed attempt. `attempts` counts the runs started so far.
+export const analysisJobs = pgTable("analysis_jobs", {
+  id: serial("id").primaryKey(),
+  paperId: integer("paper_id").notNull().references(() => papers.id),
+  trigger: text("trigger", { enum: JOB_TRIGGERS }).notNull(),
+  requestedBy: integer("requested_by").references(() => users.id),
+  status: text("status", { enum: JOB_STATUSES }).notNull().default("queued"),
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull(),
+  runAt: timestamp("run_at").notNull().defaultNow(),
+  startedAt: timestamp("started_at"), // Start of the latest attempt
+  finishedAt: timestamp("finished_at"),
+  error: text("error"), // Why the latest attempt failed
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  index("analysis_jobs_status_run_at_idx").on(table.status, table.runAt),
+  index("analysis_jobs_paper_idx").on(table.paperId),
+]);
+
+// Every status a paper has moved through, with who or what moved it.
+// `fromStatus` is null for the status a paper was created with.
+export const paperStatusHistory = pgTable("paper_status_history", {
+  id: serial("id").primaryKey(),
+  paperId: integer("paper_id").notNull().references(() => papers.id),
+  fromStatus: text("from_status", { enum: PAPER_STATUSES }),
+  toStatus: text("to_status", { enum: PAPER_STATUSES }).notNull(),
+  source: text("source", { enum: STATUS_CHANGE_SOURCES }).notNull(),
+  changedBy: integer("changed_by").references(() => users.id),
+  note: text("note"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("paper_status_history_paper_idx").on(table.paperId),
+]);
+
+// Rewards a paper has received that may be paid only once, such as the AI
+// verification reward. The key stops a re-run from paying it again.
+export const paperRewards = pgTable("paper_rewards", {
+  paperId: integer("paper_id").notNull().references(() => papers.id),
+  reason: text("reason", { enum: LEDGER_REASONS }).notNull(),
+  amount: integer("amount").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  primaryKey({ columns: [table.paperId, table.reason] }),
+]);
+
+// Every AI analysis run of a paper, so runs can be compared; the latest is
+// also kept on the paper. `promptVersion` identifies the provider's prompts
+// (or rules) and `excerpt` is set when a large paper was sampled. Token
+// counts are null for providers that run no model.
+export const aiAnalyses = pgTable("ai_analyses", {
+  id: serial("id").primaryKey(),
+  paperId: integer("paper_id").notNull().references(() => papers.id),
+  jobId: integer("job_id").references(() => analysisJobs.id),
+  ipfsCid: text("ipfs_cid").notNull(), // The file that was analysed
+  provider: text("provider").notNull(),
+  model: text("model").notNull(),
+  promptVersion: integer("prompt_version").notNull(),
+  excerpt: boolean("excerpt").notNull().default(false),
+  result: json("result").$type<PaperAnalysis>().notNull(),
+  promptTokens: integer("prompt_tokens"),
+  completionTokens: integer("completion_tokens"),
+  totalTokens: integer("total_tokens"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("ai_analyses_paper_idx").on(table.paperId),
+]);
+
+// Invitations from editors to review a paper; see shared/editorial.ts. A
+// reviewer has at most one open invitation per paper. `reviewId` is the
+// review that completed the invitation.
+export const reviewInvitations = pgTable("review_invitations", {
+  id: serial("id").primaryKey(),
+  paperId: integer("paper_id").notNull().references(() => papers.id),
+  reviewerId: integer("reviewer_id").notNull().references(() => users.id),
+  invitedBy: integer("invited_by").notNull().references(() => users.id),
+  status: text("status", { enum: INVITATION_STATUSES }).notNull().default("pending"),
+  message: text("message"),
+  dueAt: timestamp("due_at").notNull(),
+  respondedAt: timestamp("responded_at"), // When the reviewer accepted or declined
+  reviewId: integer("review_id").references(() => reviews.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("review_invitations_open_idx")
+    .on(table.paperId, table.reviewerId)
+    .where(sql`${table.status} in ('pending', 'accepted')`),
+  index("review_invitations_reviewer_idx").on(table.reviewerId),
+]);
+
+// Accept, revise and reject decisions editors have recorded on papers. Each
+// also appears in paper_status_history, with the rationale as its note.
+export const editorialDecisions = pgTable("editorial_decisions", {
+  id: serial("id").primaryKey(),
+  paperId: integer("paper_id").notNull().references(() => papers.id),
+  editorId: integer("editor_id").notNull().references(() => users.id),
+  decision: text("decision", { enum: EDITORIAL_DECISIONS }).notNull(),
+  rationale: text("rationale").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("editorial_decisions_paper_idx").on(table.paperId),
+]);
+
+// Text extracted from a paper's file, cached by the file's CID so each file is
+// processed once. `extractorVersion` is the document processor version that
+// produced it; rows from older versions are extracted again.
+export const paperDocuments = pgTable("paper_documents", {
+  cid: text("cid").primaryKey(),
+  format: text("format", { enum: DOCUMENT_FORMATS }).notNull(),
+  text: text("text").notNull(),
+  sections: json("sections").$type<PaperSections>().notNull(),
+  pageCount: integer("page_count"), // Null for plain text
+  extractorVersion: integer("extractor_version").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Content uploaded through /api/ipfs, keyed by the CID the IPFS provider
+// returned. `contentCid` is the CIDv1 the server computed from the bytes it
+// received, so content fetched back later can be checked against it.
+export const ipfsUploads = pgTable("ipfs_uploads", {
+  cid: text("cid").primaryKey(),
+  contentCid: text("content_cid").notNull(),
+  size: integer("size").notNull(),
+  kind: text("kind").notNull(), // "file" or "metadata"
+  uploaderId: integer("uploader_id").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Next EIP-712 nonce each wallet must sign with; consumed on every signed submission
+export const signatureNonces = pgTable("signature_nonces", {
+  walletAddress: text("wallet_address").primaryKey(),
+  nextNonce: integer("next_nonce").notNull().default(0),
+});
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
@@ -59,6 +379,15 @@ export const insertUserSchema = createInsertSchema(users).pick({
   profileImage: true,
 });
 
+// Fields a signed-in researcher can change on their own profile. Empty
+// optional fields are sent as null to clear them.
+export const updateUserProfileSchema = z.object({
+  username: z.string().regex(/^[a-zA-Z0-9_.-]{3,32}$/, "Usernames are 3-32 letters, digits, dots, dashes or underscores"),
+  institution: z.string().trim().max(200).nullable(),
+  bio: z.string().trim().max(2000).nullable(),
+  profileImage: z.string().url().max(500).nullable(),
+}).partial();
+
 export const insertPaperSchema = createInsertSchema(papers).pick({
   title: true,
   abstract: true,
@@ -66,15 +395,41 @@ export const insertPaperSchema = createInsertSchema(papers).pick({
   ipfsCid: true,
   metadataHash: true,
   tags: true,
+  signedPayload: true,
+  signature: true,
+});
+
+export const insertPaperVersionSchema = createInsertSchema(paperVersions).pick({
+  paperId: true,
+  version: true,
+  title: true,
+  abstract: true,
+  tags: true,
+  ipfsCid: true,
+  metadataHash: true,
+  changeLog: true,
+  signedPayload: true,
+  signature: true,
+});
+
+export const insertPaperAuthorSchema = createInsertSchema(paperAuthors).pick({
+  paperId: true,
+  userId: true,
+  position: true,
+  isCorresponding: true,
+  roles: true,
 });
 
 export const insertReviewSchema = createInsertSchema(reviews).pick({
   paperId: true,
   reviewerId: true,
+  versionId: true,
   content: true,
   rating: true,
   ipfsCid: true,
   txHash: true,
+  signedPayload: true,
+  signature: true,
 });
 
 export const insertTokenSchema = createInsertSchema(tokens).pick({
@@ -84,25 +439,224 @@ export const insertTokenSchema = createInsertSchema(tokens).pick({
   txHash: true,
 });
 
+export const insertLedgerEntrySchema = createInsertSchema(ledgerEntries).pick({
+  debitAccount: true,
+  creditAccount: true,
+  amount: true,
+  reason: true,
+  paperId: true,
+  reviewId: true,
+});
+
+export const insertIndexerCursorSchema = createInsertSchema(indexerCursors).pick({
+  chainId: true,
+  contractAddress: true,
+  blockNumber: true,
+  blockHash: true,
+});
+
+export const insertTokenHoldingSchema = createInsertSchema(tokenHoldings).pick({
+  chainId: true,
+  tokenAddress: true,
+  walletAddress: true,
+  balance: true,
+  blockNumber: true,
+});
+
+export const insertTransactionSchema = createInsertSchema(transactions).pick({
+  txHash: true,
+  kind: true,
+  fromAddress: true,
+  toAddress: true,
+  nonce: true,
+  data: true,
+  gasLimit: true,
+  gasPrice: true,
+});
+
+export const insertAnalysisJobSchema = createInsertSchema(analysisJobs).pick({
+  paperId: true,
+  trigger: true,
+  requestedBy: true,
+  maxAttempts: true,
+});
+
+export const insertReviewInvitationSchema = createInsertSchema(reviewInvitations).pick({
+  paperId: true,
+  reviewerId: true,
+  invitedBy: true,
+  message: true,
+  dueAt: true,
+});
+
+export const insertEditorialDecisionSchema = createInsertSchema(editorialDecisions).pick({
+  paperId: true,
+  editorId: true,
+  decision: true,
+  rationale: true,
+});
+
+export const insertIpfsUploadSchema = createInsertSchema(ipfsUploads).pick({
+  cid: true,
+  contentCid: true,
+  size: true,
+  kind: true,
+  uploaderId: true,
+});
+
 // Types
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
+export type UpdateUserProfile = z.infer<typeof updateUserProfileSchema>;
+
+// A user as shown to other people, without credentials
+export type PublicUser = Omit<User, "password">;
+
 export type InsertPaper = z.infer<typeof insertPaperSchema>;
 export type Paper = typeof papers.$inferSelect;
 
+export type InsertPaperVersion = z.infer<typeof insertPaperVersionSchema>;
+export type PaperVersion = typeof paperVersions.$inferSelect;
+
+export type InsertPaperAuthor = z.infer<typeof insertPaperAuthorSchema>;
+export type PaperAuthor = typeof paperAuthors.$inferSelect;
+
+// An author as listed at submission; the paper and position are assigned on insert
+export type NewPaperAuthor = Omit<InsertPaperAuthor, "paperId" | "position">;
+
 export type InsertReview = z.infer<typeof insertReviewSchema>;
 export type Review = typeof reviews.$inferSelect;
 
 export type InsertToken = z.infer<typeof insertTokenSchema>;
 export type Token = typeof tokens.$inferSelect;
 
+// A reward waiting to be minted to its recipient's wallet
+export type UnsettledToken = Token & {
+  walletAddress: string;
+};
+
+export type InsertLedgerEntry = z.infer<typeof insertLedgerEntrySchema>;
+export type LedgerEntry = typeof ledgerEntries.$inferSelect;
+
+export type AnchorBatch = typeof anchorBatches.$inferSelect;
+
+export type AnchorLeaf = typeof anchorLeaves.$inferSelect;
+
+// A leaf as built by the anchoring worker; the batch is assigned on insert
+export type NewAnchorLeaf = Omit<AnchorLeaf, "id" | "batchId">;
+
+export type AnchorLeafWithBatch = AnchorLeaf & {
+  batch: AnchorBatch;
+};
+
+export type InsertIndexerCursor = z.infer<typeof insertIndexerCursorSchema>;
+export type IndexerCursor = typeof indexerCursors.$inferSelect;
+
+export type ChainEvent = typeof chainEvents.$inferSelect;
+
+// An event as decoded by the indexer, before it is stored
+export type NewChainEvent = Omit<ChainEvent, "id" | "createdAt">;
+
+export type InsertTokenHolding = z.infer<typeof insertTokenHoldingSchema>;
+export type TokenHolding = typeof tokenHoldings.$inferSelect;
+
+export type InsertTransaction = z.infer<typeof insertTransactionSchema>;
+export type Transaction = typeof transactions.$inferSelect;
+
+// What the transaction watcher changes as a transaction progresses
+export type TransactionUpdate = Partial<Pick<Transaction, "status" | "confirmations" | "blockNumber" | "replacedBy" | "error">>;
+
+export type InsertAnalysisJob = z.infer<typeof insertAnalysisJobSchema>;
+export type AnalysisJob = typeof analysisJobs.$inferSelect;
+
+// What the analysis worker changes as a job progresses
+export type AnalysisJobUpdate = Partial<Pick<AnalysisJob, "status" | "runAt" | "startedAt" | "finishedAt" | "error">>;
+
+export type PaperStatusHistoryEntry = typeof paperStatusHistory.$inferSelect;
+
+export type PaperReward = typeof paperRewards.$inferSelect;
+
+export type AiAnalysis = typeof aiAnalyses.$inferSelect;
+
+export type InsertReviewInvitation = z.infer<typeof insertReviewInvitationSchema>;
+export type ReviewInvitation = typeof reviewInvitations.$inferSelect;
+
+export type InsertEditorialDecision = z.infer<typeof insertEditorialDecisionSchema>;
+export type EditorialDecision = typeof editorialDecisions.$inferSelect;
+
+// An analysis run as recorded by the analysis worker, before it is stored
+export type NewAiAnalysis = Omit<AiAnalysis, "id" | "createdAt">;
+
+export type PaperDocument = typeof paperDocuments.$inferSelect;
+
+// A document as extracted by the document processor, before it is cached
+export type NewPaperDocument = Omit<PaperDocument, "createdAt">;
+
+export type InsertIpfsUpload = z.infer<typeof insertIpfsUploadSchema>;
+export type IpfsUpload = typeof ipfsUploads.$inferSelect;
+
 // Extended types for frontend use
+export type PaperAuthorWithUser = PaperAuthor & {
+  user: PublicUser;
+};
+
+// `author` is the submitting author, who owns the paper; `authors` is the
+// full ordered author list including unconfirmed co-authors
 export type PaperWithAuthor = Paper & {
-  author: User;
+  author: PublicUser;
+  authors: PaperAuthorWithUser[];
   reviewCount: number;
 };
 
+// `invited` is set when the review completed an editor's invitation
 export type ReviewWithReviewer = Review & {
-  reviewer: User;
+  reviewer: PublicUser;
+  invited: boolean;
+};
+
+export type ReviewWithPaper = Review & {
+  paper: Paper;
+};
+
+export type ReviewInvitationWithReviewer = ReviewInvitation & {
+  reviewer: PublicUser;
+};
+
+export type ReviewInvitationWithPaper = ReviewInvitation & {
+  paper: Paper;
+};
+
+export type EditorialDecisionWithEditor = EditorialDecision & {
+  editor: PublicUser;
+};
+
+// A paper in the editorial queue with its invitations, newest first, and
+// the latest decision on it
+export type EditorialQueueItem = {
+  paper: PaperWithAuthor;
+  invitations: ReviewInvitationWithReviewer[];
+  latestDecision: EditorialDecision | null;
 };
+
+// `user` is who made the change, null for automatic changes
+export type PaperStatusHistoryEntryWithUser = PaperStatusHistoryEntry & {
+  user: PublicUser | null;
+};
+
+export interface Reputation {
+  score: number;
+  publications: number; // Papers with confirmed authorship
+  verifiedPublications: number;
+  reviewsWritten: number;
+  averageRatingReceived: number | null;
+  tokensEarned: number;
+}
+
+export interface ResearcherProfile {
+  user: PublicUser;
+  papers: PaperWithAuthor[];
+  reviews: ReviewWithPaper[];
+  tokens: Token[];
+  reputation: Reputation;
+}
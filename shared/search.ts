@@ -0,0 +1,59 @@
+// Query and result shapes for GET /api/papers/search, shared by the server,
+// which parses the query string with `paperSearchQuerySchema`, and the home
+// page, which builds it.
+
+import { z } from "zod";
+import type { PaperWithAuthor } from "./schema";
+import { PAPER_STATUSES } from "./lifecycle";
+
+export const PAPER_SEARCH_SORTS = ["recent", "views", "tokens", "rating"] as const;
+
+export type PaperSearchSort = (typeof PAPER_SEARCH_SORTS)[number];
+
+// Query string values arrive as strings, or arrays when a key is repeated
+const stringList = z
+  .union([z.string(), z.array(z.string())])
+  .transform((value) => (Array.isArray(value) ? value : [value]).filter((item) => item.length > 0));
+
+const statusList = z
+  .union([z.enum(PAPER_STATUSES), z.array(z.enum(PAPER_STATUSES))])
+  .transform((value) => (Array.isArray(value) ? value : [value]));
+
+export const paperSearchQuerySchema = z.object({
+  q: z.string().trim().max(200).optional(),
+  status: statusList.optional(),
+  tag: stringList.optional(),
+  authorId: z.coerce.number().int().positive().optional(),
+  institution: z.string().trim().min(1).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  aiVerified: z.enum(["true", "false"]).transform((value) => value === "true").optional(),
+  sort: z.enum(PAPER_SEARCH_SORTS).default("recent"),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+export type PaperSearchQuery = z.infer<typeof paperSearchQuerySchema>;
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+// Counts over every paper matching the query and filters, before pagination
+export interface PaperSearchFacets {
+  status: FacetCount[];
+  tags: FacetCount[];
+  institutions: FacetCount[];
+  aiVerified: FacetCount[];
+}
+
+export interface PaperSearchResult {
+  papers: PaperWithAuthor[];
+  total: number;
+  nextCursor: string | null;
+  facets: PaperSearchFacets;
+}
+
+// How many tag and institution facet values are returned
+export const FACET_LIMIT = 20;
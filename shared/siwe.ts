@@ -0,0 +1,104 @@
+// Sign-In With Ethereum (EIP-4361) message helpers shared by the client, which
+// builds and signs the message, and the server, which parses and verifies it.
+
+export interface SiweMessageFields {
+  domain: string;
+  address: string;
+  statement?: string;
+  uri: string;
+  version: "1";
+  chainId: number;
+  nonce: string;
+  issuedAt: string;
+  expirationTime?: string;
+}
+
+export const SIWE_STATEMENT = "Sign in to DeSci Hub with your wallet.";
+
+/**
+ * Build the plain-text EIP-4361 message for the given fields
+ * @param fields The message fields
+ * @returns The message that the wallet signs with personal_sign
+ */
+export function createSiweMessage(fields: SiweMessageFields): string {
+  const lines = [
+    `${fields.domain} wants you to sign in with your Ethereum account:`,
+    fields.address,
+    "",
+  ];
+
+  if (fields.statement) {
+    lines.push(fields.statement, "");
+  }
+
+  lines.push(
+    `URI: ${fields.uri}`,
+    `Version: ${fields.version}`,
+    `Chain ID: ${fields.chainId}`,
+    `Nonce: ${fields.nonce}`,
+    `Issued At: ${fields.issuedAt}`,
+  );
+
+  if (fields.expirationTime) {
+    lines.push(`Expiration Time: ${fields.expirationTime}`);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Parse a plain-text EIP-4361 message back into its fields
+ * @param message The signed message
+ * @returns The fields, or null if the message is not a valid EIP-4361 message
+ */
+export function parseSiweMessage(message: string): SiweMessageFields | null {
+  const lines = message.split("\n");
+
+  const header = lines[0]?.match(/^(\S+) wants you to sign in with your Ethereum account:$/);
+  const address = lines[1];
+  if (!header || !address || !/^0x[0-9a-fA-F]{40}$/.test(address) || lines[2] !== "") {
+    return null;
+  }
+
+  let index = 3;
+  let statement: string | undefined;
+  if (lines[index] !== undefined && !lines[index].startsWith("URI: ")) {
+    statement = lines[index];
+    if (lines[index + 1] !== "") {
+      return null;
+    }
+    index += 2;
+  }
+
+  const values: Record<string, string> = {};
+  for (const line of lines.slice(index)) {
+    const separator = line.indexOf(": ");
+    if (separator === -1) {
+      return null;
+    }
+    values[line.slice(0, separator)] = line.slice(separator + 2);
+  }
+
+  const chainId = Number(values["Chain ID"]);
+  if (
+    !values["URI"] ||
+    values["Version"] !== "1" ||
+    !Number.isInteger(chainId) ||
+    !values["Nonce"] ||
+    !values["Issued At"]
+  ) {
+    return null;
+  }
+
+  return {
+    domain: header[1],
+    address,
+    statement,
+    uri: values["URI"],
+    version: "1",
+    chainId,
+    nonce: values["Nonce"],
+    issuedAt: values["Issued At"],
+    expirationTime: values["Expiration Time"],
+  };
+}
@@ -0,0 +1,20 @@
+// Lifecycle of the transactions the server sends, as tracked by the
+// transaction watcher and reported by GET /api/transactions/:txHash.
+//
+// A transaction is `pending` until it is mined, `confirmed` while it has
+// fewer than the finality depth of confirmations and `finalized` after that.
+// It is `failed` if it reverted or was dropped, and `replaced` once a copy
+// with a higher gas price has been sent in its place.
+
+export const TRANSACTION_STATUSES = ["pending", "confirmed", "finalized", "failed", "replaced"] as const;
+
+export type TransactionStatus = (typeof TRANSACTION_STATUSES)[number];
+
+// What sent the transaction
+export const TRANSACTION_KINDS = ["reward_settlement", "root_anchor"] as const;
+
+export type TransactionKind = (typeof TRANSACTION_KINDS)[number];
+
+// Statuses the watcher still checks; a confirmed transaction can return to
+// pending if a reorg removes its block
+export const ACTIVE_TRANSACTION_STATUSES: TransactionStatus[] = ["pending", "confirmed"];